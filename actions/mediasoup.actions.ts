@@ -2,21 +2,109 @@
 
 import { currentUser } from '@clerk/nextjs/server';
 
-// ✅ You'll use this to verify if a user is allowed to join a room
-// and to fetch meeting details from your DB (Prisma, MongoDB, etc.)
-export const getMeetingPermissions = async (roomId: string) => {
+import { getMeetingStorage, getRoomAccess } from '@/lib/meetingStorage';
+import { getVerifiedEmails } from '@/lib/userEmails';
+import {
+  signEndMeetingToken,
+  signJoinToken,
+  type MeetingRole,
+} from '@/lib/joinToken';
+
+export interface MeetingPermissions {
+  userId: string;
+  userName: string | null;
+  role: MeetingRole;
+  canJoin: boolean;
+  canProduce: boolean; // Permission to share cam/mic
+  canConsume: boolean; // Permission to see others
+  isOwner: boolean;
+  /** Why canJoin is false, suitable for showing to the user */
+  reason?: string;
+  /** Signed proof of these permissions for the SFU (only when canJoin) */
+  joinToken?: string;
+  joinTokenExpiresAt?: string;
+}
+
+// ✅ Resolves what the signed-in user may do in a room from the stored
+// meeting, and issues a short-lived join token the SFU can verify
+export const getMeetingPermissions = async (
+  roomId: string
+): Promise<MeetingPermissions> => {
   const user = await currentUser();
 
   if (!user) throw new Error('User is not authenticated');
 
-  // Logic: Check your DB to see if 'roomId' exists and if the user is invited
-  // const meeting = await db.meeting.findUnique({ where: { id: roomId } });
-  
-  return {
+  const userName = user.username || user.firstName;
+  const { isOwner, reason } = await getRoomAccess(roomId, {
+    id: user.id,
+    emails: getVerifiedEmails(user),
+  });
+
+  const role: MeetingRole = isOwner ? 'host' : 'participant';
+  const permissions: MeetingPermissions = {
     userId: user.id,
-    userName: user.username || user.firstName,
-    canProduce: true, // Permission to share cam/mic
-    canConsume: true, // Permission to see others
-    isOwner: true     // You can determine this by comparing user.id with meeting.creatorId
+    userName,
+    role,
+    canJoin: !reason,
+    canProduce: !reason,
+    canConsume: !reason,
+    isOwner,
+    reason,
   };
-};
\ No newline at end of file
+
+  if (!permissions.canJoin) {
+    console.log(`🚫 ${user.id} denied from room ${roomId}: ${reason}`);
+    return permissions;
+  }
+
+  const { token, expiresAt } = signJoinToken({
+    roomId,
+    userId: user.id,
+    role,
+    canProduce: permissions.canProduce,
+    canConsume: permissions.canConsume,
+  });
+
+  return { ...permissions, joinToken: token, joinTokenExpiresAt: expiresAt };
+};
+
+// The signed-in user and the stored meeting, when that user owns the room
+const requireMeetingOwner = async (roomId: string) => {
+  const user = await currentUser();
+
+  if (!user) throw new Error('User is not authenticated');
+
+  const meeting = await getMeetingStorage().get(roomId);
+  const isOwner = meeting ? meeting.createdBy === user.id : roomId === user.id;
+  if (!isOwner) throw new Error('Only the meeting owner can end it for everyone');
+
+  return { user, meeting };
+};
+
+// ✅ Owner-only: returns a signed request the SFU checks before closing the
+// room for everyone. Nothing is stored yet - see markMeetingEnded
+export const endMeeting = async (
+  roomId: string
+): Promise<{ endToken: string }> => {
+  const { user } = await requireMeetingOwner(roomId);
+
+  const { token } = signEndMeetingToken({ roomId, userId: user.id });
+  return { endToken: token };
+};
+
+// ✅ Owner-only: marks the meeting as ended once the SFU has confirmed it
+// closed the room. Ended meetings refuse every rejoin, so marking it any
+// earlier could lock people out of a meeting that is still running
+export const markMeetingEnded = async (
+  roomId: string
+): Promise<{ endedAt: string }> => {
+  const { user, meeting } = await requireMeetingOwner(roomId);
+
+  const endedAt = meeting?.endedAt ?? new Date().toISOString();
+  if (meeting && !meeting.endedAt) {
+    await getMeetingStorage().update(roomId, { endedAt });
+  }
+
+  console.log(`🛑 Meeting ${roomId} ended by ${user.id}`);
+  return { endedAt };
+};
@@ -0,0 +1,13 @@
+import GivingHistory from '@/components/GivingHistory'
+import React from 'react'
+
+const Giving = () => {
+  return (
+    <section className="flex size-full flex-col gap-10 text-white">
+      <h1 className="text-3xl font-bold">My Giving</h1>
+      <GivingHistory />
+    </section>
+  )
+}
+
+export default Giving
@@ -0,0 +1,20 @@
+import { currentUser } from '@clerk/nextjs/server'
+import { notFound } from 'next/navigation'
+import React from 'react'
+
+import GivingTotals from '@/components/GivingTotals'
+import { isTreasurer } from '@/lib/givingLedger'
+
+const Treasury = async () => {
+  const user = await currentUser()
+  if (!user || !isTreasurer(user)) notFound()
+
+  return (
+    <section className="flex size-full flex-col gap-10 text-white">
+      <h1 className="text-3xl font-bold">Treasury Totals</h1>
+      <GivingTotals />
+    </section>
+  )
+}
+
+export default Treasury
@@ -0,0 +1,13 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import RecordingPlayer from "@/components/RecordingPlayer";
+
+const RecordingPage = () => {
+  const { id } = useParams();
+  const recordingId = typeof id === "string" ? id : "";
+
+  return <RecordingPlayer recordingId={recordingId} />;
+};
+
+export default RecordingPage;
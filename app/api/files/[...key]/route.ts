@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { getFileStorage, type ByteRange } from "@/lib/fileStorage";
+import { canViewUpload, getUploadByKey } from "@/lib/uploads";
+
+type RouteContext = { params: Promise<{ key: string[] }> };
+
+// Long enough to start a download or buffer a video, short enough not to share
+const SIGNED_URL_TTL_SECONDS = 300;
+
+/**
+ * Parse a single "bytes=start-end" Range header; anything else is served whole
+ * @returns The range, "invalid" when it starts past the end, or null
+ */
+const parseRange = (header: string | null, size: number): ByteRange | "invalid" | null => {
+  const match = header?.match(/^bytes=(\d+)-(\d*)$/);
+  if (!match) return null;
+
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "invalid";
+  return { start, end };
+};
+
+const contentDisposition = (name: string, download: boolean) =>
+  `${download ? "attachment" : "inline"}; filename*=UTF-8''${encodeURIComponent(name)}`;
+
+/**
+ * GET /api/files/:key - serve an uploaded file to a user allowed to see it
+ * Query: ?download=1 to save rather than display
+ *
+ * Drivers that can sign URLs (S3) get a redirect so the bucket serves the
+ * bytes; the local driver streams through here, with Range support so
+ * videos can seek.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { key: segments } = await params;
+  const key = segments.map(decodeURIComponent).join("/");
+  const upload = await getUploadByKey(key);
+  if (!upload || !(await canViewUpload(upload, userId))) {
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const download = new URL(req.url).searchParams.get("download") === "1";
+  const storage = getFileStorage();
+
+  const signedUrl = await storage.getSignedUrl(key, {
+    expiresInSeconds: SIGNED_URL_TTL_SECONDS,
+    downloadName: download ? upload.name : undefined,
+  });
+  if (signedUrl) {
+    return NextResponse.redirect(signedUrl, {
+      status: 302,
+      headers: { "Cache-Control": "private, no-store" },
+    });
+  }
+
+  const range = parseRange(req.headers.get("range"), upload.size);
+  if (range === "invalid") {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { "Content-Range": `bytes */${upload.size}` },
+    });
+  }
+
+  const object = await storage.get(key, range ?? undefined);
+  if (!object) {
+    console.warn("⚠️ Upload record has no stored file:", key);
+    return NextResponse.json({ error: "File not found" }, { status: 404 });
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": upload.mime,
+    "Content-Disposition": contentDisposition(upload.name, download),
+    "Accept-Ranges": "bytes",
+    // Keys are never reused, so the browser may keep its copy
+    "Cache-Control": "private, max-age=86400, immutable",
+    "X-Content-Type-Options": "nosniff",
+  };
+
+  if (object.range) {
+    headers["Content-Range"] =
+      `bytes ${object.range.start}-${object.range.end}/${object.size}`;
+    headers["Content-Length"] = String(object.range.end - object.range.start + 1);
+    return new NextResponse(object.body, { status: 206, headers });
+  }
+
+  headers["Content-Length"] = String(object.size);
+  return new NextResponse(object.body, { status: 200, headers });
+}
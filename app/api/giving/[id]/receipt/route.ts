@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { getGivingEntry, isTreasurer } from "@/lib/givingLedger";
+import {
+  getReceiptFileName,
+  renderGivingCsv,
+  renderReceiptPdf,
+} from "@/lib/givingReceipts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/giving/:id/receipt - download the receipt for one gift
+ * Query: ?format=pdf (default) or csv
+ * Only the giver and treasurers can download it.
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const format = new URL(req.url).searchParams.get("format") || "pdf";
+  if (format !== "pdf" && format !== "csv") {
+    return NextResponse.json({ error: "Invalid format" }, { status: 400 });
+  }
+
+  const { id } = await params;
+  const entry = await getGivingEntry(id);
+  // Other people's gifts look the same as missing ones
+  if (!entry || (entry.userId !== user.id && !isTreasurer(user))) {
+    return NextResponse.json({ error: "Receipt not found" }, { status: 404 });
+  }
+
+  const headers = {
+    "Content-Disposition": `attachment; filename="${getReceiptFileName(entry, format)}"`,
+    "Cache-Control": "private, no-store",
+  };
+  if (format === "csv") {
+    return new NextResponse(renderGivingCsv([entry]), {
+      headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+    });
+  }
+  return new NextResponse(new Uint8Array(renderReceiptPdf(entry)), {
+    headers: { ...headers, "Content-Type": "application/pdf" },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { isTreasurer, listGiving, summarizeGiving } from "@/lib/givingLedger";
+import { renderGivingCsv } from "@/lib/givingReceipts";
+
+/**
+ * GET /api/giving - the signed-in user's giving history, newest first
+ * Query: ?format=csv to download it as a statement
+ * Returns { entries, totals, isTreasurer }
+ */
+export async function GET(req: Request) {
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const entries = await listGiving({ userId: user.id });
+
+  if (new URL(req.url).searchParams.get("format") === "csv") {
+    return new NextResponse(renderGivingCsv(entries), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": 'attachment; filename="my-giving.csv"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  }
+
+  return NextResponse.json({
+    entries,
+    totals: summarizeGiving(entries),
+    isTreasurer: isTreasurer(user),
+  });
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import {
+  isGivingDate,
+  isTreasurer,
+  listGiving,
+  summarizeGiving,
+} from "@/lib/givingLedger";
+import { renderTotalsCsv } from "@/lib/givingReceipts";
+import { isAccountType } from "@/lib/mpesaTransactions";
+
+/**
+ * GET /api/giving/totals - everyone's giving, for treasurers
+ * Query: ?accountType&from&to (dates as YYYY-MM-DD, both inclusive) and
+ *   ?format=csv to download the totals with their entries
+ * Returns { entries, totals }
+ */
+export async function GET(req: Request) {
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!isTreasurer(user)) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const params = new URL(req.url).searchParams;
+  const accountType = params.get("accountType") || undefined;
+  const from = params.get("from") || undefined;
+  const to = params.get("to") || undefined;
+
+  if (accountType !== undefined && !isAccountType(accountType)) {
+    return NextResponse.json({ error: "Invalid account type" }, { status: 400 });
+  }
+  if ((from && !isGivingDate(from)) || (to && !isGivingDate(to))) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  }
+  if (from && to && from > to) {
+    return NextResponse.json(
+      { error: "The start date is after the end date" },
+      { status: 400 }
+    );
+  }
+
+  const entries = await listGiving({ accountType, from, to });
+  const totals = summarizeGiving(entries);
+
+  if (params.get("format") === "csv") {
+    const range = [from, to].filter(Boolean).join("-to-") || "all-time";
+    return new NextResponse(renderTotalsCsv(totals, entries), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="giving-totals-${range}.csv"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  }
+
+  return NextResponse.json({ entries, totals });
+}
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import {
+  canManageTranscript,
+  getChatTranscript,
+  mergeChatTranscript,
+  parseTranscriptMessages,
+} from "@/lib/chatTranscripts";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+/**
+ * GET /api/meetings/:id/chat - the owner reads the saved chat transcript
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await canManageTranscript(id, userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const transcript = await getChatTranscript(id);
+  if (!transcript) {
+    return NextResponse.json(
+      { error: "No chat was saved for this meeting" },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ transcript });
+}
+
+/**
+ * PATCH /api/meetings/:id/chat - the owner saves new and changed messages
+ * Body: { messages: SocketChatMessage[] } - merged into the saved transcript
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  if (!(await canManageTranscript(id, userId))) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  // A body without a Content-Length (chunked) could be any size
+  const lengthHeader = req.headers.get("content-length");
+  if (lengthHeader === null) {
+    return NextResponse.json({ error: "Content-Length required" }, { status: 411 });
+  }
+  const contentLength = Number(lengthHeader);
+  if (!Number.isFinite(contentLength) || contentLength > MAX_BODY_BYTES) {
+    return NextResponse.json({ error: "Transcript too large" }, { status: 413 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const messages = parseTranscriptMessages(body?.messages);
+  if (!messages) {
+    return NextResponse.json({ error: "Invalid messages" }, { status: 400 });
+  }
+
+  const transcript = await mergeChatTranscript(id, messages, userId);
+  return NextResponse.json({
+    roomId: transcript.roomId,
+    messageCount: transcript.messages.length,
+    updatedAt: transcript.updatedAt,
+  });
+}
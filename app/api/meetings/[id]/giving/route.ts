@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { getMeetingGivingTally } from "@/lib/givingLedger";
+import { getMeetingStorage } from "@/lib/meetingStorage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/meetings/:id/giving - the owner's live giving tally for a meeting
+ * Query: ?since=ISO date to only count gifts from then on
+ * Returns { tally } - totals by account type, plus the gifts of givers who
+ *   opted in to being named
+ */
+export async function GET(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  // Personal rooms use the owner's user ID and have no stored meeting
+  const meeting = await getMeetingStorage().get(id);
+  const isOwner = meeting ? meeting.createdBy === userId : id === userId;
+  if (!isOwner) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const since = new URL(req.url).searchParams.get("since") || undefined;
+  if (since && Number.isNaN(new Date(since).getTime())) {
+    return NextResponse.json({ error: "Invalid since date" }, { status: 400 });
+  }
+
+  return NextResponse.json({ tally: await getMeetingGivingTally(id, since) });
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import {
+  getMeetingStorage,
+  parseInvitees,
+  type MeetingPatch,
+} from "@/lib/meetingStorage";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/meetings/:id - any signed-in user may look up a meeting to join it
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const meeting = await getMeetingStorage().get(id);
+  if (!meeting) {
+    return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+  }
+
+  // Only the owner gets to see who else was invited
+  if (meeting.createdBy !== userId) {
+    return NextResponse.json({ meeting: { ...meeting, invitees: undefined } });
+  }
+  return NextResponse.json({ meeting });
+}
+
+/**
+ * PATCH /api/meetings/:id - owner updates details, invite list or lock
+ * Body: { description?, startsAt?, invitees?, locked? }
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const storage = getMeetingStorage();
+  const meeting = await storage.get(id);
+  if (!meeting) {
+    return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+  }
+  if (meeting.createdBy !== userId) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+  if (meeting.cancelledAt) {
+    return NextResponse.json(
+      { error: "Meeting has been cancelled" },
+      { status: 409 }
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const patch: MeetingPatch = {};
+  if (typeof body.description === "string") {
+    patch.description = body.description.trim() || meeting.description;
+  }
+  if (body.startsAt !== undefined) {
+    const startsAt = new Date(body.startsAt);
+    if (Number.isNaN(startsAt.getTime())) {
+      return NextResponse.json({ error: "Invalid startsAt" }, { status: 400 });
+    }
+    patch.startsAt = startsAt.toISOString();
+  }
+  if (body.invitees !== undefined) {
+    const invitees = parseInvitees(body.invitees);
+    if (!invitees) {
+      return NextResponse.json({ error: "Invalid invitees" }, { status: 400 });
+    }
+    patch.invitees = invitees;
+  }
+  if (typeof body.locked === "boolean") {
+    patch.locked = body.locked;
+  }
+
+  const updated = await storage.update(id, patch);
+  return NextResponse.json({ meeting: updated });
+}
+
+/**
+ * DELETE /api/meetings/:id - owner cancels the meeting (kept for history)
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const storage = getMeetingStorage();
+  const meeting = await storage.get(id);
+  if (!meeting) {
+    return NextResponse.json({ error: "Meeting not found" }, { status: 404 });
+  }
+  if (meeting.createdBy !== userId) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const cancelled = meeting.cancelledAt
+    ? meeting
+    : await storage.update(id, { cancelledAt: new Date().toISOString() });
+  console.log("🗑️ Meeting cancelled:", id);
+  return NextResponse.json({ meeting: cancelled });
+}
@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { randomUUID } from "crypto";
+
+import {
+  getMeetingStorage,
+  MeetingExistsError,
+  parseInvitees,
+  type MeetingRecord,
+} from "@/lib/meetingStorage";
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+/**
+ * GET /api/meetings - meetings created by the signed-in user
+ */
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const meetings = await getMeetingStorage().list({ createdBy: userId });
+  return NextResponse.json({ meetings });
+}
+
+/**
+ * POST /api/meetings - create a meeting owned by the signed-in user
+ * Body: { description?, startsAt, invitees?, locked? }
+ * The ID is always generated here: a client-chosen one could claim someone
+ * else's room, such as a personal room (the owner's user ID) or an old link
+ * Returns { meeting } - its id is the room to join and link to
+ */
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+
+  const startsAt = new Date(body.startsAt ?? Date.now());
+  if (Number.isNaN(startsAt.getTime())) {
+    return NextResponse.json({ error: "Invalid startsAt" }, { status: 400 });
+  }
+
+  const description =
+    typeof body.description === "string" ? body.description.trim() : "";
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const invitees =
+    body.invitees === undefined ? [] : parseInvitees(body.invitees);
+  if (!invitees) {
+    return NextResponse.json({ error: "Invalid invitees" }, { status: 400 });
+  }
+
+  const id = randomUUID();
+  const now = new Date().toISOString();
+  const record: MeetingRecord = {
+    id,
+    description: description || "Instant Meeting",
+    startsAt: startsAt.toISOString(),
+    createdBy: userId,
+    invitees,
+    locked: body.locked === true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    const meeting = await getMeetingStorage().create(record);
+    console.log("✅ Meeting created:", meeting.id);
+    return NextResponse.json({ meeting }, { status: 201 });
+  } catch (error) {
+    if (error instanceof MeetingExistsError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+
+import { recordGift } from "@/lib/givingLedger";
+import { getMpesaConfig, isStkPushPaid } from "@/lib/mpesa";
+import {
+  applyStkCallback,
+  parseStkCallback,
+} from "@/lib/mpesaTransactions";
+import {
+  notifyGivingUpdate,
+  notifyPaymentStatus,
+} from "@/lib/paymentNotifications";
+
+// Safaricom only needs to know we took the callback
+const accepted = () =>
+  NextResponse.json({ ResultCode: 0, ResultDesc: "Accepted" });
+
+const rejected = (message: string, status: number) =>
+  NextResponse.json({ ResultCode: 1, ResultDesc: message }, { status });
+
+const hasValidToken = (req: Request) => {
+  const secret = process.env.MPESA_CALLBACK_SECRET;
+  if (!secret) {
+    // Only the local mock may post callbacks without the secret
+    if (getMpesaConfig().environment === "mock") return true;
+    console.error("❌ MPESA_CALLBACK_SECRET is not set; refusing M-Pesa callback");
+    return false;
+  }
+
+  const token = Buffer.from(new URL(req.url).searchParams.get("token") || "");
+  const expected = Buffer.from(secret);
+  return token.length === expected.length && timingSafeEqual(token, expected);
+};
+
+/**
+ * POST /api/mpesa/callback - Safaricom reports the outcome of an STK Push
+ * Public (see proxy.ts); protected by MPESA_CALLBACK_SECRET, which only mock
+ * mode may leave unset. A reported success is confirmed with Daraja before
+ * it settles the payment, so a forged callback can't issue a receipt.
+ */
+export async function POST(req: Request) {
+  if (!hasValidToken(req)) {
+    return rejected("Unauthorized", 401);
+  }
+
+  const body = await req.json().catch(() => null);
+  const callback = parseStkCallback(body);
+  if (!callback) {
+    console.warn("⚠️ Ignoring malformed M-Pesa callback");
+    return rejected("Invalid callback body", 400);
+  }
+
+  if (
+    callback.ResultCode === 0 &&
+    !(await isStkPushPaid(callback.CheckoutRequestID))
+  ) {
+    console.warn(
+      "⚠️ M-Pesa callback reports a payment Daraja doesn't confirm:",
+      callback.CheckoutRequestID
+    );
+    return rejected("Payment not confirmed", 409);
+  }
+
+  const transaction = await applyStkCallback(callback);
+  if (!transaction) {
+    console.warn(
+      "⚠️ M-Pesa callback for an unknown transaction:",
+      callback.CheckoutRequestID
+    );
+    return accepted();
+  }
+
+  // resultDesc, not the callback's, so an amount mismatch is logged as one
+  console.log(
+    `💰 M-Pesa ${transaction.status} (${transaction.resultCode}: ${transaction.resultDesc}) for ${transaction.checkoutRequestId}`
+  );
+  const gift = await recordGift(transaction);
+  // Safaricom retries slow callbacks, so don't hold the response for these
+  void notifyPaymentStatus(transaction);
+  if (gift) void notifyGivingUpdate(gift);
+  return accepted();
+}
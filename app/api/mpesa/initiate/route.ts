@@ -0,0 +1,190 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { signPaymentStatusToken } from "@/lib/joinToken";
+import { getRoomAccess } from "@/lib/meetingStorage";
+import { getVerifiedEmails } from "@/lib/userEmails";
+import {
+  getAmountLimits,
+  initiateStkPush,
+  validatePhoneNumber,
+} from "@/lib/mpesa";
+import {
+  createMpesaTransaction,
+  getMpesaTransaction,
+  isAccountType,
+  type MpesaTransaction,
+} from "@/lib/mpesaTransactions";
+import {
+  completePaymentAttempt,
+  isIdempotencyKey,
+  releasePaymentAttempt,
+  reservePaymentAttempt,
+} from "@/lib/paymentAttempts";
+
+type PaymentField = "phoneNumber" | "amount" | "accountReference";
+
+// PaymentModal reads { success, message, field? } rather than the usual
+// { error }; field names the input the message is about
+const fail = (message: string, status: number, field?: PaymentField) =>
+  NextResponse.json({ success: false, message, field }, { status });
+
+const formatKes = (amount: number) => `KES ${amount.toLocaleString("en-KE")}`;
+
+const PHONE_PROBLEMS = {
+  format: "Enter a Kenyan mobile number, e.g. 0712 345 678",
+  network: "That isn't a Safaricom number - M-Pesa needs a Safaricom line",
+};
+
+const accepted = (
+  userId: string,
+  transaction: MpesaTransaction,
+  customerMessage: string,
+  replayed = false
+) =>
+  NextResponse.json({
+    success: true,
+    replayed,
+    data: {
+      checkoutRequestId: transaction.checkoutRequestId,
+      merchantRequestId: transaction.merchantRequestId,
+      customerMessage,
+      statusToken: signPaymentStatusToken({
+        userId,
+        checkoutRequestId: transaction.checkoutRequestId,
+      }).token,
+    },
+  });
+
+/**
+ * POST /api/mpesa/initiate - send an STK Push to the payer's phone
+ * Headers: Idempotency-Key - one per payment attempt; a request repeated
+ *   with the same key gets the same payment back (see lib/paymentAttempts)
+ * Body: { phoneNumber, amount, accountReference, roomId?, showName? }
+ *   showName lets the meeting's host see who gave; gifts are anonymous otherwise
+ * Returns { success, replayed, data: { checkoutRequestId, merchantRequestId,
+ *   customerMessage, statusToken } } - statusToken subscribes the payer's
+ *   socket to "payment-status" for this payment
+ */
+export async function POST(req: Request) {
+  const user = await currentUser();
+  if (!user) {
+    return fail("Unauthorized", 401);
+  }
+
+  const idempotencyKey = req.headers.get("Idempotency-Key");
+  if (!isIdempotencyKey(idempotencyKey)) {
+    return fail("Missing or invalid Idempotency-Key header", 400);
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return fail("Invalid JSON body", 400);
+  }
+
+  if (typeof body.phoneNumber !== "string" || !body.phoneNumber.trim()) {
+    return fail("Enter your M-Pesa phone number", 400, "phoneNumber");
+  }
+  const phone = validatePhoneNumber(body.phoneNumber);
+  if ("problem" in phone) {
+    return fail(PHONE_PROBLEMS[phone.problem], 400, "phoneNumber");
+  }
+  const { phoneNumber } = phone;
+
+  const { min, max } = getAmountLimits();
+  const amount = Number(body.amount);
+  if (!Number.isInteger(amount)) {
+    return fail("Enter a whole number of shillings", 400, "amount");
+  }
+  if (amount < min || amount > max) {
+    return fail(
+      `Enter an amount between ${formatKes(min)} and ${formatKes(max)}`,
+      400,
+      "amount"
+    );
+  }
+
+  if (!isAccountType(body.accountReference)) {
+    return fail("Choose what the payment is for", 400, "accountReference");
+  }
+
+  const roomId =
+    typeof body.roomId === "string" && body.roomId ? body.roomId : undefined;
+  // A gift only counts towards (and is named in) a meeting the payer can be in
+  if (roomId) {
+    const { reason } = await getRoomAccess(roomId, {
+      id: user.id,
+      emails: getVerifiedEmails(user),
+    });
+    if (reason) return fail(reason, 403);
+  }
+  const userName =
+    user.fullName || user.firstName || user.username || "Anonymous";
+
+  const reservation = await reservePaymentAttempt(
+    user.id,
+    idempotencyKey,
+    [phoneNumber, amount, body.accountReference, roomId ?? ""].join(":")
+  );
+  if (reservation.outcome === "mismatch") {
+    return fail(
+      "This payment attempt was already used for a different payment. Please try again.",
+      422
+    );
+  }
+  if (reservation.outcome === "in-progress") {
+    return fail("This payment is already being sent to your phone", 409);
+  }
+  if (reservation.outcome === "sent") {
+    const transaction = await getMpesaTransaction(reservation.checkoutRequestId);
+    if (!transaction) {
+      return fail("Couldn't find this payment. Please try again.", 500);
+    }
+    console.log(`🔁 STK Push replayed: ${transaction.checkoutRequestId}`);
+    return accepted(
+      user.id,
+      transaction,
+      "Already sent - check your phone for the M-Pesa prompt",
+      true
+    );
+  }
+
+  try {
+    const response = await initiateStkPush({
+      phoneNumber,
+      amount,
+      accountReference: body.accountReference,
+      transactionDesc: `${body.accountReference} from ${userName}`.slice(0, 100),
+    });
+    if (response.ResponseCode !== "0") {
+      await releasePaymentAttempt(user.id, idempotencyKey);
+      return fail(response.ResponseDescription || "M-Pesa declined the request", 502);
+    }
+
+    const transaction = await createMpesaTransaction({
+      checkoutRequestId: response.CheckoutRequestID,
+      merchantRequestId: response.MerchantRequestID,
+      userId: user.id,
+      userName,
+      phoneNumber,
+      amount,
+      accountReference: body.accountReference,
+      roomId,
+      showGiverName: !!roomId && body.showName === true,
+    });
+    await completePaymentAttempt(
+      user.id,
+      idempotencyKey,
+      transaction.checkoutRequestId
+    );
+    console.log(
+      `💰 STK Push sent: KES ${amount} ${transaction.accountReference} (${transaction.checkoutRequestId})`
+    );
+
+    return accepted(user.id, transaction, response.CustomerMessage);
+  } catch (error) {
+    console.error("❌ Failed to initiate M-Pesa payment:", error);
+    await releasePaymentAttempt(user.id, idempotencyKey);
+    return fail("Couldn't reach M-Pesa. Please try again.", 502);
+  }
+}
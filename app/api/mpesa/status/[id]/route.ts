@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { recordGift } from "@/lib/givingLedger";
+import { queryStkPushStatus } from "@/lib/mpesa";
+import {
+  getMpesaTransaction,
+  settleMpesaTransaction,
+  toPaymentStatus,
+  type MpesaTransaction,
+  type PaymentStatusResponse,
+} from "@/lib/mpesaTransactions";
+import {
+  notifyGivingUpdate,
+  notifyPaymentStatus,
+} from "@/lib/paymentNotifications";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Give Safaricom's callback this long before asking Daraja ourselves
+const QUERY_AFTER_MS = 20 * 1000;
+
+/**
+ * Ask Daraja about a payment whose callback hasn't arrived. Daraja answers
+ * with an error while the customer is still at the PIN prompt, so any
+ * failure just leaves the transaction pending.
+ */
+async function reconcile(transaction: MpesaTransaction) {
+  try {
+    const result = await queryStkPushStatus(transaction.checkoutRequestId);
+    const resultCode = Number(result.ResultCode);
+    if (result.ResponseCode !== "0" || !Number.isFinite(resultCode)) {
+      return transaction;
+    }
+
+    // The query has no receipt number; the callback may still bring one
+    const settled = await settleMpesaTransaction(transaction.checkoutRequestId, {
+      status: resultCode === 0 ? "SUCCESS" : "FAILED",
+      resultCode,
+      resultDesc: result.ResultDesc,
+    });
+    if (settled) {
+      const gift = await recordGift(settled);
+      // Other tabs waiting on this payment hear about it too
+      void notifyPaymentStatus(settled);
+      if (gift) void notifyGivingUpdate(gift);
+    }
+    return settled ?? transaction;
+  } catch {
+    return transaction;
+  }
+}
+
+/**
+ * GET /api/mpesa/status/:checkoutRequestId - the payer checks on a payment
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  let transaction = await getMpesaTransaction(id);
+  if (!transaction || transaction.userId !== userId) {
+    return NextResponse.json<PaymentStatusResponse>(
+      { status: "NOT_FOUND", message: "Transaction not found" },
+      { status: 404 }
+    );
+  }
+
+  if (
+    transaction.status === "PENDING" &&
+    Date.now() - new Date(transaction.createdAt).getTime() > QUERY_AFTER_MS
+  ) {
+    transaction = await reconcile(transaction);
+  }
+
+  return NextResponse.json<PaymentStatusResponse>(toPaymentStatus(transaction));
+}
@@ -0,0 +1,94 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { getFileStorage } from "@/lib/fileStorage";
+import {
+  canDeleteRecording,
+  canViewRecording,
+  deleteRecording,
+  getRecording,
+  renameRecording,
+} from "@/lib/recordingStorage";
+import { deleteUploadByKey } from "@/lib/uploads";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * GET /api/recordings/:id - recording metadata for the player page
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const recording = await getRecording(id);
+  if (!recording || !(await canViewRecording(recording, userId))) {
+    return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    recording,
+    isOwner: recording.createdBy === userId,
+    canDelete: await canDeleteRecording(recording, userId),
+  });
+}
+
+/**
+ * PATCH /api/recordings/:id - owner renames the recording
+ * Body: { title }
+ */
+export async function PATCH(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const recording = await getRecording(id);
+  if (!recording || !(await canViewRecording(recording, userId))) {
+    return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+  }
+  if (recording.createdBy !== userId) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const title = typeof body?.title === "string" ? body.title.trim() : "";
+  if (!title || title.length > MAX_TITLE_LENGTH) {
+    return NextResponse.json(
+      { error: `Title must be 1-${MAX_TITLE_LENGTH} characters` },
+      { status: 400 }
+    );
+  }
+
+  const updated = await renameRecording(id, title);
+  return NextResponse.json({ recording: updated });
+}
+
+/**
+ * DELETE /api/recordings/:id - whoever made the recording, or the meeting's
+ * owner, deletes it and its file
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const recording = await getRecording(id);
+  if (!recording || !(await canDeleteRecording(recording, userId))) {
+    return NextResponse.json({ error: "Recording not found" }, { status: 404 });
+  }
+
+  await deleteRecording(id);
+  await getFileStorage().delete(recording.key);
+  await deleteUploadByKey(recording.key);
+
+  console.log("🗑️ Recording deleted:", id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { getMeetingStorage } from "@/lib/meetingStorage";
+import { listRecordings } from "@/lib/recordingStorage";
+
+/**
+ * GET /api/recordings - recordings the signed-in user made, plus every
+ * recording made in meetings they own
+ * Query: ?roomId= narrows the list to one meeting
+ */
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const meetings = await getMeetingStorage().list({
+    createdBy: userId,
+    includeCancelled: true,
+  });
+  const recordings = await listRecordings({
+    createdBy: userId,
+    // The personal room has no meeting record but is always the user's own
+    roomIds: [userId, ...meetings.map((m) => m.id)],
+  });
+
+  const roomId = new URL(req.url).searchParams.get("roomId");
+  return NextResponse.json({
+    recordings: roomId
+      ? recordings.filter((r) => r.roomId === roomId)
+      : recordings,
+  });
+}
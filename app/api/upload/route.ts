@@ -1,25 +1,87 @@
 import { NextResponse } from "next/server";
-import { writeFile } from "fs/promises";
-import path from "path";
+import { currentUser } from "@clerk/nextjs/server";
 
+import {
+  MULTIPART_OVERHEAD_BYTES,
+  UploadRejectedError,
+  getUploadLimit,
+  isUploadType,
+  isValidRoomId,
+  storeUpload,
+  validateUpload,
+} from "@/lib/uploads";
+
+/**
+ * POST /api/upload?type=image|video|audio|file - store a chat attachment in
+ * one request
+ * Form data: { file, roomId }
+ *
+ * `type` (the client's ChatAttachment type) is in the URL so its size cap
+ * can be checked before the body is read. The file's real type comes from
+ * its magic bytes; `type` is only checked against it. The storage key is
+ * generated here and never derived from the client's file name, and the
+ * returned url points at /api/files, which checks access before serving.
+ * Request bodies are capped well below a recording's size, so recordings
+ * go through /api/upload/sessions in chunks instead.
+ */
 export async function POST(req: Request) {
-  const formData = await req.formData();
-  const file = formData.get("file") as File;
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
 
-  if (!file) {
+  const declaredType = new URL(req.url).searchParams.get("type");
+  if (!isUploadType(declaredType)) {
+    return NextResponse.json({ error: "Unknown attachment type" }, { status: 400 });
+  }
+
+  // Refuse oversized bodies before buffering them. Without a Content-Length
+  // (a chunked body) there is nothing to check, so the header is required
+  const lengthHeader = req.headers.get("content-length");
+  if (lengthHeader === null) {
+    return NextResponse.json({ error: "Content-Length required" }, { status: 411 });
+  }
+  const contentLength = Number(lengthHeader);
+  if (
+    !Number.isFinite(contentLength) ||
+    contentLength > getUploadLimit("chat", declaredType) + MULTIPART_OVERHEAD_BYTES
+  ) {
+    return NextResponse.json({ error: "File too large" }, { status: 413 });
+  }
+
+  const formData = await req.formData().catch(() => null);
+  const file = formData?.get("file");
+  if (!formData || !(file instanceof File) || file.size === 0) {
     return NextResponse.json({ error: "No file" }, { status: 400 });
   }
 
-  const bytes = await file.arrayBuffer();
-  const buffer = Buffer.from(bytes);
+  const roomId = formData.get("roomId");
+  if (!isValidRoomId(roomId)) {
+    return NextResponse.json({ error: "A valid roomId is required" }, { status: 400 });
+  }
 
-  const uploadDir = path.join(process.cwd(), "public/uploads");
-  const filename = `${Date.now()}-${file.name}`;
-  const filepath = path.join(uploadDir, filename);
+  const buffer = Buffer.from(await file.arrayBuffer());
 
-  await writeFile(filepath, buffer);
+  let upload;
+  try {
+    const sniffed = validateUpload(buffer, {
+      declaredMime: file.type,
+      declaredType,
+      kind: "chat",
+    });
+    upload = await storeUpload(buffer, sniffed, {
+      name: file.name,
+      kind: "chat",
+      uploadedBy: user.id,
+      roomId,
+    });
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ Failed to store upload:", error);
+    return NextResponse.json({ error: "Couldn't store the file" }, { status: 502 });
+  }
 
-  return NextResponse.json({
-    url: `/uploads/${filename}`,
-  });
+  return NextResponse.json(upload, { status: 201 });
 }
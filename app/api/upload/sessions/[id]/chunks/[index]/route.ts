@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { getUploadSession, putUploadChunk } from "@/lib/uploadSessions";
+import { UploadRejectedError } from "@/lib/uploads";
+
+type RouteContext = { params: Promise<{ id: string; index: string }> };
+
+/**
+ * PUT /api/upload/sessions/:id/chunks/:index - store one chunk (raw bytes)
+ * Sending the same chunk twice is fine, so clients can retry blindly.
+ * Returns: { receivedChunks }
+ */
+export async function PUT(req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id, index } = await params;
+  const session = await getUploadSession(id, userId);
+  if (!session) {
+    return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+  }
+
+  // Refuse before buffering anything bigger than a chunk. A body without a
+  // Content-Length (chunked) could be any size, so the header is required
+  const lengthHeader = req.headers.get("content-length");
+  if (lengthHeader === null) {
+    return NextResponse.json({ error: "Content-Length required" }, { status: 411 });
+  }
+  const contentLength = Number(lengthHeader);
+  if (!Number.isFinite(contentLength) || contentLength > session.chunkSize) {
+    return NextResponse.json({ error: "Chunk too large" }, { status: 413 });
+  }
+
+  const body = Buffer.from(await req.arrayBuffer());
+
+  try {
+    const updated = await putUploadChunk(session, Number(index), body);
+    return NextResponse.json({ receivedChunks: updated.receivedChunks });
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ Failed to store upload chunk:", error);
+    return NextResponse.json({ error: "Couldn't store the chunk" }, { status: 502 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { createRecordingFromUpload } from "@/lib/recordingStorage";
+import { completeUploadSession, getUploadSession } from "@/lib/uploadSessions";
+import { UploadRejectedError } from "@/lib/uploads";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/upload/sessions/:id/complete - join the chunks and store the file
+ * Returns the same upload metadata as POST /api/upload; a meeting recording
+ * also gets a metadata record for the Recordings page, returned as `recording`
+ */
+export async function POST(_req: Request, { params }: RouteContext) {
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const session = await getUploadSession(id, user.id);
+  if (!session) {
+    return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+  }
+
+  let upload;
+  try {
+    upload = await completeUploadSession(session);
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("❌ Failed to complete upload:", error);
+    return NextResponse.json({ error: "Couldn't store the file" }, { status: 502 });
+  }
+
+  if (upload.kind === "recording") {
+    const recording = await createRecordingFromUpload(upload, {
+      durationMs: session.durationMs ?? 0,
+      createdByName: user.fullName || user.firstName || undefined,
+    });
+    console.log("🎬 Recording saved:", recording.id);
+    return NextResponse.json({ ...upload, recording }, { status: 201 });
+  }
+
+  return NextResponse.json(upload, { status: 201 });
+}
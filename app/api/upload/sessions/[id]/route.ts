@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+
+import { discardUploadSession, getUploadSession } from "@/lib/uploadSessions";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/upload/sessions/:id - which chunks have arrived, for resuming
+ */
+export async function GET(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const session = await getUploadSession(id, userId);
+  if (!session) {
+    return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ session });
+}
+
+/**
+ * DELETE /api/upload/sessions/:id - cancel the upload and drop its chunks
+ */
+export async function DELETE(_req: Request, { params }: RouteContext) {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const session = await getUploadSession(id, userId);
+  if (!session) {
+    return NextResponse.json({ error: "Upload session not found" }, { status: 404 });
+  }
+
+  await discardUploadSession(session);
+  console.log("🚫 Upload cancelled:", id);
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,91 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@clerk/nextjs/server";
+
+import { getRoomAccess } from "@/lib/meetingStorage";
+import { createUploadSession } from "@/lib/uploadSessions";
+import {
+  UploadRejectedError,
+  isUploadType,
+  isValidRoomId,
+} from "@/lib/uploads";
+import { getVerifiedEmails, type UserWithEmails } from "@/lib/userEmails";
+
+// Ending a meeting stops every recording in it, and each is uploaded after
+const RECORDING_UPLOAD_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * Whether a user may file a recording under a room: they must be allowed
+ * into it, or have been until it ended a little while ago
+ */
+async function canRecordIn(
+  roomId: string,
+  user: UserWithEmails
+): Promise<boolean> {
+  const { meeting, isOwner, isInvited, reason } = await getRoomAccess(roomId, {
+    id: user.id,
+    emails: getVerifiedEmails(user),
+  });
+  if (!reason) return true;
+  if (meeting?.cancelledAt || (meeting?.locked && !isOwner && !isInvited)) {
+    return false;
+  }
+  return (
+    !!meeting?.endedAt &&
+    Date.now() - new Date(meeting.endedAt).getTime() < RECORDING_UPLOAD_GRACE_MS
+  );
+}
+
+/**
+ * POST /api/upload/sessions - start a chunked chat attachment or recording upload
+ * Body: { roomId, name, mime, type, size, kind?: "chat" | "recording", durationMs? }
+ * Recordings are filed in the meeting's library, so only someone allowed
+ * into the meeting may upload one.
+ * Returns: { session } with the chunk size and count to send
+ */
+export async function POST(req: Request) {
+  const user = await currentUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!isValidRoomId(body?.roomId)) {
+    return NextResponse.json({ error: "A valid roomId is required" }, { status: 400 });
+  }
+  if (!isUploadType(body?.type)) {
+    return NextResponse.json({ error: "Unknown attachment type" }, { status: 400 });
+  }
+  if (typeof body?.name !== "string" || typeof body?.size !== "number") {
+    return NextResponse.json({ error: "name and size are required" }, { status: 400 });
+  }
+
+  const kind = body.kind === "recording" ? "recording" : "chat";
+  if (kind === "recording" && !(await canRecordIn(body.roomId, user))) {
+    return NextResponse.json(
+      { error: "You can only record meetings you're in" },
+      { status: 403 }
+    );
+  }
+
+  try {
+    const session = await createUploadSession({
+      uploadedBy: user.id,
+      roomId: body.roomId,
+      name: body.name,
+      mime: typeof body.mime === "string" ? body.mime : "",
+      type: body.type,
+      kind,
+      durationMs:
+        kind === "recording" && Number.isFinite(body.durationMs)
+          ? Math.max(0, Math.round(body.durationMs))
+          : undefined,
+      size: body.size,
+    });
+    return NextResponse.json({ session }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UploadRejectedError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -2,38 +2,52 @@
 
 import Loader from "./Loader";
 import MeetingCard from "./MeetingCard";
-import { useEffect, useState } from "react";
+import ChatExportMenu from "./ChatExportMenu";
 import { useRouter } from "next/navigation";
+import { useGetCalls, type Meeting } from "@/hooks/useGetCalls";
+import { formatDuration } from "@/lib/utils";
+import type { SocketChatMessage } from "@/hooks/useSocketChat";
 
-// Simplified types for mediasoup
-interface Call {
-  id: string;
-  state?: {
-    startsAt?: Date;
-    endedAt?: Date;
-  };
-}
-
-interface CallRecording {
-  id: string;
-  url: string;
-  filename: string;
-}
+// The transcript the owner's browser saved during the meeting
+const loadSavedChat = async (meetingId: string): Promise<SocketChatMessage[]> => {
+  const response = await fetch(`/api/meetings/${meetingId}/chat`);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Couldn't load the chat (${response.status})`);
+  }
+  return data.transcript.messages;
+};
 
 const CallList = ({ type }: { type: "ended" | "upcoming" | "recordings" }) => {
   const router = useRouter();
-  const [calls, setCalls] = useState<Call[]>([]);
-  const [recordings, setRecordings] = useState<CallRecording[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const { endedCalls, upcomingCalls, callRecordings, isLoading } =
+    useGetCalls();
+
+  const toMeetingCard = (meeting: Meeting) => ({
+    id: meeting.id,
+    title: meeting.description || "Meeting",
+    date: meeting.startsAt
+      ? new Date(meeting.startsAt).toLocaleString()
+      : "No date",
+    link: `${process.env.NEXT_PUBLIC_BASE_URL}/meeting/${meeting.id}`,
+    open: () => router.push(`/meeting/${meeting.id}`),
+  });
 
+  // Recordings open the in-app player; meetings link to the room
   const getCalls = () => {
     switch (type) {
       case "ended":
-        return calls.filter((c) => c.state?.endedAt);
+        return endedCalls.map(toMeetingCard);
       case "recordings":
-        return recordings;
+        return callRecordings.map((recording) => ({
+          id: recording.id,
+          title: recording.title,
+          date: `${new Date(recording.createdAt).toLocaleString()} · ${formatDuration(recording.durationMs)}`,
+          link: `${process.env.NEXT_PUBLIC_BASE_URL}/recordings/${recording.id}`,
+          open: () => router.push(`/recordings/${recording.id}`),
+        }));
       case "upcoming":
-        return calls.filter((c) => c.state?.startsAt && !c.state?.endedAt);
+        return upcomingCalls.map(toMeetingCard);
       default:
         return [];
     }
@@ -52,12 +66,6 @@ const CallList = ({ type }: { type: "ended" | "upcoming" | "recordings" }) => {
     }
   };
 
-  useEffect(() => {
-    // TODO: Fetch calls and recordings from your backend/database
-    // For now, this is a placeholder
-    setIsLoading(false);
-  }, [type]);
-
   if (isLoading) return <Loader />;
 
   const callsList = getCalls();
@@ -66,7 +74,7 @@ const CallList = ({ type }: { type: "ended" | "upcoming" | "recordings" }) => {
   return (
     <div className="grid grid-cols-1 gap-5 xl:grid-cols-2">
       {callsList && callsList.length > 0 ? (
-        callsList.map((meeting: any) => (
+        callsList.map((meeting) => (
           <MeetingCard
             key={meeting.id}
             icon={
@@ -76,28 +84,23 @@ const CallList = ({ type }: { type: "ended" | "upcoming" | "recordings" }) => {
                 ? "/icons/upcoming.svg"
                 : "/icons/recordings.svg"
             }
-            title={
-              meeting.state?.custom?.description ||
-              meeting.filename?.substring(0, 20) ||
-              "Meeting"
-            }
-            date={
-              meeting.state?.startsAt?.toLocaleString() ||
-              meeting.start_time?.toLocaleString() ||
-              "No date"
-            }
+            title={meeting.title}
+            date={meeting.date}
             isPreviousMeeting={type === "ended"}
-            link={
-              type === "recordings"
-                ? meeting.url
-                : `${process.env.NEXT_PUBLIC_BASE_URL}/meeting/${meeting.id}`
-            }
+            link={meeting.link}
             buttonIcon1={type === "recordings" ? "/icons/play.svg" : undefined}
             buttonText={type === "recordings" ? "Play" : "Start"}
-            handleClick={
-              type === "recordings"
-                ? () => router.push(meeting.url)
-                : () => router.push(`/meeting/${meeting.id}`)
+            handleClick={meeting.open}
+            previousActions={
+              type === "ended" && (
+                <ChatExportMenu
+                  title={meeting.title}
+                  roomId={meeting.id}
+                  loadMessages={() => loadSavedChat(meeting.id)}
+                  label="Export chat"
+                  className="rounded bg-red-2 px-4 py-2 text-sm font-medium text-white"
+                />
+              )
             }
           />
         ))
@@ -1,15 +1,22 @@
 "use client";
 
 import { Button } from "./ui/button";
-import { MessageSquare } from "lucide-react";
+import { Lock, MessageSquare } from "lucide-react";
 
 type ChatButtonProps = {
   onClick: () => void;
   unreadCount?: number;
+  /** How many of the unread messages are private */
+  privateUnreadCount?: number;
   isActive?: boolean;
 };
 
-const ChatButton = ({ onClick, unreadCount = 0, isActive = false }: ChatButtonProps) => {
+const ChatButton = ({
+  onClick,
+  unreadCount = 0,
+  privateUnreadCount = 0,
+  isActive = false,
+}: ChatButtonProps) => {
   return (
     <button onClick={onClick} className="relative flex-shrink-0">
       <div
@@ -29,6 +36,15 @@ const ChatButton = ({ onClick, unreadCount = 0, isActive = false }: ChatButtonPr
           {unreadCount > 99 ? "99+" : unreadCount}
         </span>
       )}
+      {privateUnreadCount > 0 && (
+        <span
+          className="absolute -bottom-1 -right-1 bg-purple-600 text-white text-[9px] h-4 px-1 rounded-full flex items-center gap-0.5 font-semibold"
+          title={`${privateUnreadCount} unread private message${privateUnreadCount > 1 ? "s" : ""}`}
+        >
+          <Lock className="w-2 h-2" />
+          {privateUnreadCount > 9 ? "9+" : privateUnreadCount}
+        </span>
+      )}
     </button>
   );
 };
@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+
+import { cn } from "@/lib/utils";
+import type { SocketChatMessage } from "@/hooks/useSocketChat";
+import {
+  CHAT_EXPORT_FORMATS,
+  ChatExportFormat,
+  downloadChatTranscript,
+  getExportableMessages,
+} from "@/lib/chatExport";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+
+interface ChatExportMenuProps {
+  /** Meeting title for the transcript header and file name */
+  title: string;
+  roomId: string;
+  /** The chat to export: already loaded in-meeting, fetched afterwards */
+  loadMessages: () => SocketChatMessage[] | Promise<SocketChatMessage[]>;
+  /** Show a text label next to the icon */
+  label?: string;
+  className?: string;
+}
+
+const ChatExportMenu = ({
+  title,
+  roomId,
+  loadMessages,
+  label,
+  className,
+}: ChatExportMenuProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: ChatExportFormat) => {
+    setIsExporting(true);
+    try {
+      const messages = await loadMessages();
+      if (getExportableMessages(messages).length === 0) {
+        toast.info("There are no chat messages to export");
+        return;
+      }
+      downloadChatTranscript(messages, format, { title, roomId });
+      console.log(`📄 Chat exported as ${format}:`, roomId);
+    } catch (error) {
+      console.error("❌ Chat export failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Couldn't export the chat"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        disabled={isExporting}
+        className={cn(
+          "flex items-center gap-2 disabled:opacity-50",
+          className
+        )}
+        title="Export chat"
+      >
+        <Download size={label ? 16 : 18} />
+        {label}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="bg-[#1f212a] text-white border border-gray-700 w-[200px]">
+        <div className="px-2 py-1.5 text-xs font-semibold text-gray-400">
+          EXPORT CHAT AS
+        </div>
+        {CHAT_EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => handleExport(format)}
+            className="hover:bg-[#2a2c36] cursor-pointer"
+          >
+            {formatLabel}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ChatExportMenu;
@@ -0,0 +1,196 @@
+"use client";
+
+import { Paperclip, Pin, Search, X } from "lucide-react";
+
+import { cn } from "@/lib/utils";
+import type { ReceivedMessage } from "@/hooks/useSocketChat";
+import {
+  ChatSearchFilters,
+  EMPTY_CHAT_SEARCH,
+  isChatSearchActive,
+  matchesChatSearch,
+  splitHighlights,
+} from "@/lib/chatSearch";
+
+interface ChatSearchPanelProps {
+  /** Messages of the conversation being searched */
+  messages: ReceivedMessage[];
+  filters: ChatSearchFilters;
+  onFiltersChange: (filters: ChatSearchFilters) => void;
+  /** Jump to a result in the conversation */
+  onSelect: (messageId: string) => void;
+  onClose: () => void;
+}
+
+const formatResultTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const Highlighted = ({ text, query }: { text: string; query: string }) => (
+  <>
+    {splitHighlights(text, query).map((segment, i) =>
+      segment.match ? (
+        <mark key={i} className="bg-yellow-400/80 text-black rounded-sm px-0.5">
+          {segment.text}
+        </mark>
+      ) : (
+        <span key={i}>{segment.text}</span>
+      )
+    )}
+  </>
+);
+
+const ChatSearchPanel = ({
+  messages,
+  filters,
+  onFiltersChange,
+  onSelect,
+  onClose,
+}: ChatSearchPanelProps) => {
+  const senders = new Map<string, string>();
+  messages.forEach(({ message }) => senders.set(message.sender.id, message.sender.name));
+
+  const isActive = isChatSearchActive(filters);
+  // Newest first: people usually look for something they saw recently
+  const results = isActive
+    ? messages.filter((m) => matchesChatSearch(m.message, filters)).reverse()
+    : [];
+
+  const update = (patch: Partial<ChatSearchFilters>) =>
+    onFiltersChange({ ...filters, ...patch });
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* SEARCH INPUT + FILTERS */}
+      <div className="px-3 py-2 border-b border-gray-700 space-y-2">
+        <div className="flex items-center gap-2 rounded-md bg-[#0f141a] border border-gray-600 px-2 focus-within:border-blue-500">
+          <Search size={14} className="text-gray-500 shrink-0" />
+          <input
+            autoFocus
+            value={filters.query}
+            onChange={(e) => update({ query: e.target.value })}
+            onKeyDown={(e) => e.key === "Escape" && onClose()}
+            placeholder="Search messages…"
+            className="flex-1 min-w-0 bg-transparent py-1.5 text-sm text-white placeholder-gray-500 outline-none"
+          />
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white"
+            title="Close search"
+          >
+            <X size={14} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1.5 text-xs">
+          <select
+            value={filters.senderId ?? ""}
+            onChange={(e) => update({ senderId: e.target.value || null })}
+            className="max-w-[120px] rounded-full bg-[#161b22] px-2 py-1 text-gray-300 outline-none"
+            aria-label="Sender"
+          >
+            <option value="">Anyone</option>
+            {Array.from(senders.entries()).map(([id, name]) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+
+          <button
+            onClick={() => update({ hasAttachment: !filters.hasAttachment })}
+            className={cn(
+              "flex items-center gap-1 rounded-full px-2 py-1 transition",
+              filters.hasAttachment
+                ? "bg-blue-600 text-white"
+                : "bg-[#161b22] text-gray-300 hover:bg-[#1f2630]"
+            )}
+          >
+            <Paperclip size={11} />
+            Attachments
+          </button>
+
+          <button
+            onClick={() => update({ pinnedOnly: !filters.pinnedOnly })}
+            className={cn(
+              "flex items-center gap-1 rounded-full px-2 py-1 transition",
+              filters.pinnedOnly
+                ? "bg-blue-600 text-white"
+                : "bg-[#161b22] text-gray-300 hover:bg-[#1f2630]"
+            )}
+          >
+            <Pin size={11} />
+            Pinned
+          </button>
+
+          {isActive && (
+            <button
+              onClick={() => onFiltersChange(EMPTY_CHAT_SEARCH)}
+              className="px-1 text-gray-400 hover:text-white"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* RESULTS */}
+      <div className="flex-1 overflow-y-auto">
+        {!isActive ? (
+          <div className="px-4 py-6 text-center text-xs text-gray-500">
+            Search by text or sender, or filter by attachments and pins
+          </div>
+        ) : results.length === 0 ? (
+          <div className="px-4 py-6 text-center text-xs text-gray-500">
+            No messages found
+          </div>
+        ) : (
+          <>
+            <div className="px-4 pt-2 text-[11px] text-gray-500">
+              {results.length} result{results.length > 1 ? "s" : ""}
+            </div>
+            {results.map(({ message }) => (
+              <button
+                key={message.id}
+                onClick={() => onSelect(message.id)}
+                className="w-full text-left px-4 py-2 border-b border-gray-800 hover:bg-white/5"
+              >
+                <div className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                  <span className="truncate font-medium">
+                    <Highlighted text={message.sender.name} query={filters.query} />
+                  </span>
+                  <span className="shrink-0 flex items-center gap-1">
+                    {message.pinned && <Pin size={10} />}
+                    {formatResultTime(message.createdAt)}
+                  </span>
+                </div>
+                {message.text && (
+                  <div className="mt-0.5 text-sm text-white line-clamp-3 break-words">
+                    <Highlighted text={message.text} query={filters.query} />
+                  </div>
+                )}
+                {message.attachments?.map((a) => (
+                  <div
+                    key={a.id}
+                    className="mt-0.5 flex items-center gap-1 text-xs text-gray-300"
+                  >
+                    <Paperclip size={11} className="shrink-0" />
+                    <span className="truncate">
+                      <Highlighted text={a.name} query={filters.query} />
+                    </span>
+                  </div>
+                ))}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChatSearchPanel;
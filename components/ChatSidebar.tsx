@@ -1,12 +1,22 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { flushSync } from "react-dom";
+import { toast } from "sonner";
 import { motion, AnimatePresence } from "framer-motion";
-import { cn } from "@/lib/utils";
+import { cn, formatFileSize } from "@/lib/utils";
 import {
   useSocketChat,
   SocketChatMessage,
+  ChatAttachment,
+  EVERYONE_CONVERSATION,
+  getConversationId,
 } from "@/hooks/useSocketChat";
+import { useChatUploads } from "@/hooks/useChatUploads";
+import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { EMPTY_CHAT_SEARCH, ChatSearchFilters } from "@/lib/chatSearch";
+import ChatSearchPanel from "./ChatSearchPanel";
+import ChatExportMenu from "./ChatExportMenu";
 
 import {
   X,
@@ -16,6 +26,15 @@ import {
   ThumbsUp,
   Heart,
   Laugh,
+  Paperclip,
+  RotateCw,
+  FileText,
+  Pencil,
+  Trash2,
+  Lock,
+  MessageSquarePlus,
+  MessageSquareLock,
+  Search,
 } from "lucide-react";
 import { useUser } from "@clerk/nextjs";
 
@@ -23,8 +42,20 @@ interface ChatSidebarProps {
   open: boolean;
   onClose: () => void;
   roomId: string; // ✅ ADDED: Pass roomId as a prop
+  /** Used to title chat exports */
+  meetingTitle?: string;
+  /** EVERYONE_CONVERSATION, or the user ID of a private conversation */
+  conversationId: string;
+  onConversationChange: (conversationId: string) => void;
 }
 
+const UnreadBadge = ({ count }: { count?: number }) =>
+  count ? (
+    <span className="bg-red-500 text-white text-[10px] px-1.5 rounded-full font-semibold">
+      {count > 99 ? "99+" : count}
+    </span>
+  ) : null;
+
 const Avatar = ({ name, avatarUrl }: { name: string; avatarUrl?: string }) => {
   const [error, setError] = useState(false);
 
@@ -51,6 +82,52 @@ interface ChatSidebarProps {
   onClose: () => void;
 }
 
+const MessageAttachment = ({ attachment }: { attachment: ChatAttachment }) => {
+  if (!attachment.url) return null;
+
+  if (attachment.type === "image") {
+    return (
+      <a href={attachment.url} target="_blank" rel="noopener noreferrer">
+        {/* Auth-gated /api/files URLs can't go through next/image's optimizer */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={attachment.url}
+          alt={attachment.name}
+          className="max-h-48 w-full rounded object-cover"
+        />
+      </a>
+    );
+  }
+
+  if (attachment.type === "video") {
+    return (
+      <video
+        src={attachment.url}
+        controls
+        preload="metadata"
+        className="max-h-48 w-full rounded bg-black"
+      />
+    );
+  }
+
+  if (attachment.type === "audio") {
+    return <audio src={attachment.url} controls className="w-full" />;
+  }
+
+  return (
+    <a
+      href={`${attachment.url}?download=1`}
+      className="flex items-center gap-2 rounded bg-black/30 px-2 py-1.5 hover:bg-black/40"
+    >
+      <FileText size={16} className="shrink-0" />
+      <span className="truncate">{attachment.name}</span>
+      <span className="ml-auto shrink-0 text-[10px] opacity-70">
+        {formatFileSize(attachment.size)}
+      </span>
+    </a>
+  );
+};
+
 const formatDay = (timestamp: number) =>
   new Date(timestamp).toLocaleDateString(undefined, {
     weekday: "long",
@@ -65,7 +142,14 @@ const formatTime = (timestamp: number) =>
     minute: "2-digit",
   });
 
-const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
+const ChatSidebar = ({
+  open,
+  onClose,
+  roomId,
+  meetingTitle,
+  conversationId,
+  onConversationChange,
+}: ChatSidebarProps) => {
   const { user } = useUser();
   const selfUserId = user?.id;
 
@@ -79,11 +163,81 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
     pinnedMessage,
     pinMessage,
     reactToMessage,
+    editMessage,
+    deleteMessage,
     unreadCount,
-  } = useSocketChat(roomId, open);
+    unreadByConversation,
+    privateChatEnabled,
+    setPrivateChatEnabled,
+  } = useSocketChat(roomId, open, conversationId);
+
+  // Hosts and co-hosts moderate: they can delete anyone's message
+  const { isHost, isCoHost, participants } = useMediasoupContext();
+  const canModerate = isHost || isCoHost;
+
+  // ----------------------------
+  // CONVERSATIONS
+  // ----------------------------
+  const [showRecipientPicker, setShowRecipientPicker] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [searchFilters, setSearchFilters] =
+    useState<ChatSearchFilters>(EMPTY_CHAT_SEARCH);
+  const isPrivate = conversationId !== EVERYONE_CONVERSATION;
+
+  // With private chat off, participants may still message hosts (and hosts anyone)
+  const canMessagePrivately = (userId: string) =>
+    privateChatEnabled ||
+    canModerate ||
+    participants.some((p) => p.id === userId && (p.isHost || p.isCoHost));
+
+  const privateConversations = new Map<string, string>();
+  messages.forEach(({ message }) => {
+    if (!message.recipient) return;
+    const id = getConversationId(message, selfUserId);
+    const name =
+      message.sender.id === selfUserId
+        ? message.recipient.name
+        : message.sender.name;
+    privateConversations.set(id, name);
+  });
+  if (isPrivate && !privateConversations.has(conversationId)) {
+    privateConversations.set(
+      conversationId,
+      participants.find((p) => p.id === conversationId)?.name || "Participant"
+    );
+  }
+
+  const visibleMessages = messages.filter(
+    (m) => getConversationId(m.message, selfUserId) === conversationId
+  );
+  const recipientOptions = participants.filter(
+    (p) => p.id !== selfUserId && canMessagePrivately(p.id)
+  );
+  const canSendHere = !isPrivate || canMessagePrivately(conversationId);
+
+  const openConversation = (id: string) => {
+    setShowRecipientPicker(false);
+    setShowSearch(false);
+    setSearchFilters(EMPTY_CHAT_SEARCH);
+    setReplyTo(null);
+    if (editing) cancelEditing();
+    onConversationChange(id);
+  };
+
+  const {
+    attachments,
+    isUploading,
+    hasReadyAttachments,
+    addFiles,
+    retryUpload,
+    cancelUpload,
+    takeReadyAttachments,
+  } = useChatUploads(roomId);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [input, setInput] = useState("");
   const [replyTo, setReplyTo] = useState<SocketChatMessage | null>(null);
+  const [editing, setEditing] = useState<SocketChatMessage | null>(null);
 
   const messageRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
@@ -109,10 +263,52 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
     setIsNearBottom(isNear);
   };
 
+  // Wait for every attachment so a message never goes out half-sent
+  const canSend = editing
+    ? !!input.trim() && input.trim() !== editing.text
+    : (!!input.trim() || hasReadyAttachments) && !isUploading && canSendHere;
+
+  const startEditing = (message: SocketChatMessage) => {
+    setReplyTo(null);
+    setEditing(message);
+    setInput(message.text);
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setInput("");
+  };
+
+  const handleDelete = (message: SocketChatMessage) => {
+    const isOwnMessage = message.sender.id === selfUserId;
+    const confirmed = confirm(
+      isOwnMessage
+        ? "Delete this message for everyone?"
+        : `Remove ${message.sender.name}'s message for everyone?`
+    );
+    if (!confirmed) return;
+
+    if (editing?.id === message.id) cancelEditing();
+    deleteMessage(message.id);
+  };
+
   const handleSend = () => {
-    if (!input.trim()) return;
+    if (!canSend) return;
 
-    sendMessage(input, replyTo ?? undefined);
+    if (editing) {
+      editMessage(editing.id, input);
+      cancelEditing();
+      return;
+    }
+
+    sendMessage(
+      input,
+      replyTo ?? undefined,
+      takeReadyAttachments(),
+      isPrivate
+        ? { id: conversationId, name: privateConversations.get(conversationId)! }
+        : undefined
+    );
 
     setInput("");
     setReplyTo(null);
@@ -120,7 +316,10 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
 
   const scrollToMessage = (id: string) => {
     const el = messageRefs.current[id];
-    if (!el) return;
+    if (!el) {
+      toast.info("That message is no longer in this chat");
+      return;
+    }
 
     el.scrollIntoView({ behavior: "smooth", block: "center" });
 
@@ -130,8 +329,17 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
     }, 1500);
   };
 
+  // Leave the search results and show the message in context; flushSync so
+  // the message list is visible again before scrolling to it
+  const jumpToMessage = (id: string) => {
+    flushSync(() => setShowSearch(false));
+    scrollToMessage(id);
+  };
+
   const firstMessageDay =
-    messages.length > 0 ? formatDay(messages[0].message.createdAt) : null;
+    visibleMessages.length > 0
+      ? formatDay(visibleMessages[0].message.createdAt)
+      : null;
 
   return (
     <aside
@@ -152,13 +360,121 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
             </span>
           )}
         </div>
-        <button onClick={onClose} className="text-gray-400 hover:text-white">
-          <X size={18} />
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowSearch((p) => !p)}
+            className={cn(
+              "hover:text-white",
+              showSearch ? "text-blue-400" : "text-gray-400"
+            )}
+            title="Search messages"
+          >
+            <Search size={18} />
+          </button>
+          {canModerate && (
+            <ChatExportMenu
+              title={meetingTitle || "Meeting"}
+              roomId={roomId}
+              loadMessages={() => messages.map((m) => m.message)}
+              className="text-gray-400 hover:text-white"
+            />
+          )}
+          {canModerate && (
+            <button
+              onClick={() => setPrivateChatEnabled(!privateChatEnabled)}
+              className={cn(
+                "hover:text-white",
+                privateChatEnabled ? "text-gray-400" : "text-yellow-400"
+              )}
+              title={
+                privateChatEnabled
+                  ? "Restrict private chat to hosts"
+                  : "Allow private chat between everyone"
+              }
+            >
+              <MessageSquareLock size={18} />
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      {/* CONVERSATIONS */}
+      <div className="px-3 py-2 border-b border-gray-700 flex gap-1.5 items-center overflow-x-auto">
+        {[
+          [EVERYONE_CONVERSATION, "Everyone"],
+          ...Array.from(privateConversations.entries()),
+        ].map(([id, name]) => (
+          <button
+            key={id}
+            onClick={() => openConversation(id)}
+            className={cn(
+              "flex items-center gap-1 shrink-0 rounded-full px-2.5 py-1 text-xs transition",
+              conversationId === id
+                ? "bg-blue-600 text-white"
+                : "bg-[#161b22] text-gray-300 hover:bg-[#1f2630]"
+            )}
+          >
+            {id !== EVERYONE_CONVERSATION && <Lock size={10} />}
+            <span className="max-w-[90px] truncate">{name}</span>
+            {conversationId !== id && (
+              <UnreadBadge count={unreadByConversation[id]} />
+            )}
+          </button>
+        ))}
+        <button
+          onClick={() => setShowRecipientPicker((p) => !p)}
+          className="shrink-0 p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10"
+          title="New private message"
+        >
+          <MessageSquarePlus size={16} />
         </button>
       </div>
 
+      {/* RECIPIENT PICKER */}
+      {showRecipientPicker && (
+        <div className="border-b border-gray-700 max-h-48 overflow-y-auto py-1">
+          {!privateChatEnabled && !canModerate && (
+            <div className="px-4 py-1 text-[11px] text-yellow-400">
+              The host has limited private chat to hosts
+            </div>
+          )}
+          {recipientOptions.length === 0 ? (
+            <div className="px-4 py-2 text-xs text-gray-500">
+              No one to message privately
+            </div>
+          ) : (
+            recipientOptions.map((p) => (
+              <button
+                key={p.id}
+                onClick={() => openConversation(p.id)}
+                className="w-full flex items-center gap-2 px-4 py-1.5 text-sm text-white hover:bg-white/5"
+              >
+                <Avatar name={p.name} avatarUrl={p.imageUrl} />
+                <span className="truncate">{p.name}</span>
+                {(p.isHost || p.isCoHost) && (
+                  <span className="ml-auto text-[10px] text-gray-400">
+                    {p.isHost ? "Host" : "Co-host"}
+                  </span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {isPrivate && (
+        <div className="px-4 py-1.5 text-[11px] text-gray-400 border-b border-gray-700 flex items-center gap-1.5">
+          <Lock size={11} />
+          Only you and {privateConversations.get(conversationId)} can see these
+          messages
+        </div>
+      )}
+
       {/* PINNED MESSAGE */}
-      {pinnedMessage && (
+      {pinnedMessage && !isPrivate && (
         <div
           onClick={() => scrollToMessage(pinnedMessage.id)}
           className="cursor-pointer px-4 py-2 text-xs bg-yellow-900/30 text-yellow-300 border-b border-yellow-700 flex gap-2 items-center hover:bg-yellow-900/40 transition-colors"
@@ -181,11 +497,25 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
         </div>
       )}
 
+      {/* SEARCH */}
+      {showSearch && (
+        <ChatSearchPanel
+          messages={visibleMessages}
+          filters={searchFilters}
+          onFiltersChange={setSearchFilters}
+          onSelect={jumpToMessage}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
       {/* MESSAGES */}
       <div
         ref={messagesContainerRef}
         onScroll={checkIfNearBottom}
-        className="flex-1 overflow-y-auto px-4 py-3 space-y-1 scroll-smooth"
+        className={cn(
+          "flex-1 overflow-y-auto px-4 py-3 space-y-1 scroll-smooth",
+          showSearch && "hidden"
+        )}
       >
         {firstMessageDay && (
           <div className="text-center text-xs text-gray-500 my-3">
@@ -193,13 +523,14 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
           </div>
         )}
 
-        {messages.map((m, i) => {
+        {visibleMessages.map((m, i) => {
           const isSelf = m.message.sender.id === selfUserId;
+          const isDeleted = !!m.message.deleted;
 
           const grouped =
             i > 0 &&
-            messages[i - 1].socketId === m.socketId &&
-            m.message.createdAt - messages[i - 1].message.createdAt <
+            visibleMessages[i - 1].socketId === m.socketId &&
+            m.message.createdAt - visibleMessages[i - 1].message.createdAt <
               2 * 60 * 1000;
 
           return (
@@ -215,7 +546,7 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
                 messageRefs.current[m.message.id] = el;
               }}
               className={cn(
-                "max-w-[85%] rounded-lg px-3 py-2 text-sm transition-all",
+                "group max-w-[85%] rounded-lg px-3 py-2 text-sm transition-all",
                 isSelf
                   ? "ml-auto bg-blue-600 text-white"
                   : "mr-auto bg-[#161b22] text-white",
@@ -254,7 +585,29 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
                 })()}
 
               {/* MESSAGE TEXT */}
-              <div className="break-words">{m.message.text}</div>
+              {isDeleted ? (
+                <div className="italic opacity-60">
+                  {m.message.moderated
+                    ? "Message removed by a host"
+                    : "Message deleted"}
+                </div>
+              ) : (
+                m.message.text && (
+                  <div className="break-words">{m.message.text}</div>
+                )
+              )}
+
+              {/* ATTACHMENTS */}
+              {m.message.attachments && m.message.attachments.length > 0 && (
+                <div className="mt-1 flex flex-col gap-1">
+                  {m.message.attachments.map((attachment) => (
+                    <MessageAttachment
+                      key={attachment.id}
+                      attachment={attachment}
+                    />
+                  ))}
+                </div>
+              )}
 
               {/* REACTIONS */}
               {m.message.reactions && (
@@ -271,26 +624,47 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
               )}
 
               <div className="mt-1 text-[10px] opacity-70 text-right">
+                {m.message.editedAt && !isDeleted && (
+                  <span
+                    className="mr-1"
+                    title={m.message.editHistory
+                      ?.map((v) => `${formatTime(v.writtenAt)}: ${v.text}`)
+                      .join("\n")}
+                  >
+                    (edited)
+                  </span>
+                )}
                 {formatTime(m.message.createdAt)}
               </div>
 
-              {!grouped && (
-                <div className="flex gap-3 text-xs mt-1 opacity-60 items-center">
+              {/* Grouped messages only show their actions on hover */}
+              {!isDeleted && (
+                <div
+                  className={cn(
+                    "gap-3 text-xs mt-1 opacity-60 items-center",
+                    grouped ? "hidden group-hover:flex" : "flex"
+                  )}
+                >
                   {/* Reply */}
                   <button
-                    onClick={() => setReplyTo(m.message)}
+                    onClick={() => {
+                      if (editing) cancelEditing();
+                      setReplyTo(m.message);
+                    }}
                     className="hover:opacity-100"
                   >
                     <Reply size={14} />
                   </button>
 
-                  {/* Pin */}
-                  <button
-                    onClick={() => pinMessage(m.message)}
-                    className="hover:opacity-100"
-                  >
-                    <Pin size={14} />
-                  </button>
+                  {/* Pin (room-wide messages only) */}
+                  {!isPrivate && (
+                    <button
+                      onClick={() => pinMessage(m.message)}
+                      className="hover:opacity-100"
+                    >
+                      <Pin size={14} />
+                    </button>
+                  )}
 
                   {/* Reactions */}
                   <button
@@ -331,6 +705,28 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
                   >
                     <Heart size={14} />
                   </button>
+
+                  {/* Edit (own messages) */}
+                  {isSelf && (
+                    <button
+                      onClick={() => startEditing(m.message)}
+                      className="hover:opacity-100"
+                      title="Edit"
+                    >
+                      <Pencil size={14} />
+                    </button>
+                  )}
+
+                  {/* Delete (own messages, or anyone's for moderators) */}
+                  {(isSelf || canModerate) && (
+                    <button
+                      onClick={() => handleDelete(m.message)}
+                      className="hover:text-red-400"
+                      title={isSelf ? "Delete" : "Remove message"}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
                 </div>
               )}
             </motion.div>
@@ -414,9 +810,105 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
         </div>
       )}
 
+      {/* EDIT BAR */}
+      {editing && (
+        <div className="px-3 py-2 text-xs bg-[#161b22] border-t border-gray-700 flex justify-between items-center">
+          <span className="truncate">
+            Editing: <span className="opacity-70">{editing.text}</span>
+          </span>
+
+          <button
+            className="text-red-400 hover:text-red-300"
+            onClick={cancelEditing}
+          >
+            <X size={15} />
+          </button>
+        </div>
+      )}
+
+      {/* PENDING ATTACHMENTS */}
+      {attachments.length > 0 && (
+        <div className="px-3 pt-2 border-t border-gray-700 flex flex-col gap-1.5">
+          {attachments.map((a) => (
+            <div
+              key={a.id}
+              className="rounded-md bg-[#161b22] px-2 py-1.5 text-xs text-white"
+            >
+              <div className="flex items-center gap-2">
+                {a.previewUrl ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={a.previewUrl}
+                    alt=""
+                    className="w-6 h-6 rounded object-cover shrink-0"
+                  />
+                ) : (
+                  <FileText size={16} className="shrink-0 text-gray-400" />
+                )}
+                <span className="truncate flex-1" title={a.name}>
+                  {a.name}
+                </span>
+                <span className="shrink-0 text-gray-400">
+                  {a.uploading
+                    ? `${Math.round(a.progress ?? 0)}%`
+                    : formatFileSize(a.size)}
+                </span>
+                {a.error && (
+                  <button
+                    onClick={() => retryUpload(a.id)}
+                    className="text-blue-400 hover:text-blue-300"
+                    title="Retry upload"
+                  >
+                    <RotateCw size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => cancelUpload(a.id)}
+                  className="text-gray-400 hover:text-red-400"
+                  title={a.uploading ? "Cancel upload" : "Remove"}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+
+              {a.uploading && (
+                <div className="mt-1 h-1 rounded bg-gray-700 overflow-hidden">
+                  <div
+                    className="h-full bg-blue-500 transition-[width]"
+                    style={{ width: `${a.progress ?? 0}%` }}
+                  />
+                </div>
+              )}
+              {a.error && (
+                <div className="mt-1 text-[11px] text-red-400">{a.error}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* INPUT */}
       <div className="p-3 border-t border-gray-700">
         <div className="flex gap-2 items-center">
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) addFiles(e.target.files);
+              e.target.value = "";
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!editing}
+            className="p-2 rounded-md text-gray-400 hover:text-white hover:bg-white/10 transition disabled:opacity-40 disabled:pointer-events-none"
+            title="Attach files"
+          >
+            <Paperclip size={18} />
+          </button>
+
           <input
             value={input}
             onChange={(e) => {
@@ -428,17 +920,26 @@ const ChatSidebar = ({ open, onClose , roomId}: ChatSidebarProps) => {
                 e.preventDefault();
                 handleSend();
               }
+              if (e.key === "Escape" && editing) cancelEditing();
             }}
-            placeholder="Type a message…"
-            className="flex-1 rounded-md bg-[#0f141a] border border-gray-600 px-3 py-2 text-sm text-white placeholder-gray-500 outline-none focus:border-blue-500 transition"
+            disabled={!canSendHere && !editing}
+            placeholder={
+              !canSendHere
+                ? "Private chat is turned off"
+                : isPrivate
+                  ? `Message ${privateConversations.get(conversationId)} privately…`
+                  : "Type a message…"
+            }
+            className="flex-1 min-w-0 disabled:opacity-50 rounded-md bg-[#0f141a] border border-gray-600 px-3 py-2 text-sm text-white placeholder-gray-500 outline-none focus:border-blue-500 transition"
           />
 
           <button
             onClick={handleSend}
-            disabled={!input.trim()}
+            disabled={!canSend}
+            title={isUploading ? "Waiting for attachments to upload" : undefined}
             className={cn(
               "p-2 rounded-md transition",
-              input.trim()
+              canSend
                 ? "text-blue-500 hover:bg-blue-500/10"
                 : "text-gray-500 cursor-not-allowed"
             )}
@@ -0,0 +1,38 @@
+"use client";
+
+import { Loader2, WifiOff } from "lucide-react";
+import type { ConnectionStatus } from "@/contexts/MediasoupContext";
+
+type ConnectionBannerProps = {
+  status: ConnectionStatus;
+};
+
+const ConnectionBanner = ({ status }: ConnectionBannerProps) => {
+  if (status === "connected") return null;
+
+  if (status === "failed") {
+    return (
+      <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-3 bg-red-600/90 border border-red-400/40 text-white text-sm px-4 py-2 rounded-xl shadow-2xl backdrop-blur-md">
+        <WifiOff className="w-4 h-4 flex-shrink-0" />
+        <span>Connection lost</span>
+        <button
+          onClick={() => window.location.reload()}
+          className="ml-1 rounded-lg bg-white/20 hover:bg-white/30 px-3 py-1 text-xs font-semibold transition"
+        >
+          Rejoin
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-3 bg-amber-500/90 border border-amber-300/40 text-black text-sm px-4 py-2 rounded-xl shadow-2xl backdrop-blur-md">
+      <Loader2 className="w-4 h-4 flex-shrink-0 animate-spin" />
+      <span>
+        {status === "reconnecting" ? "Reconnecting…" : "Rejoining the meeting…"}
+      </span>
+    </div>
+  );
+};
+
+export default ConnectionBanner;
@@ -14,12 +14,17 @@ import {
   PhoneOff,
   MoreVertical,
   Banknote,
+  Settings,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useMeetingRecorder } from "@/hooks/useMeetingRecorder";
 import PaymentModal from "./PaymentModal";
+import SettingsModal from "./SettingsModal";
 import ReactionButton from "./ReactionButton";
 import FloatingReactions from "./FloatingReactions";
+import EndCallButton from "./EndCallButton";
 
 const CustomCallControls = () => {
   const router = useRouter();
@@ -45,6 +50,14 @@ const CustomCallControls = () => {
     roomId,
   } = useMediasoupContext();
 
+  const { skinTone } = useUserSettings().reactions;
+  const {
+    status: recorderStatus,
+    isRecording,
+    startRecording,
+    stopRecording,
+  } = useMeetingRecorder();
+
   // Get current participant's lock states
   const currentParticipant = participants.find((p) => p.id === user?.id);
 
@@ -58,9 +71,9 @@ const CustomCallControls = () => {
   const screenShareDisabled = hasAdminPrivileges ? false : (!isScreenShareGloballyEnabled || screenShareLocked);
 
   // Additional States
-  const [isRecording, setIsRecording] = useState(false);
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [showPayment, setShowPayment] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const buttonRef = useRef<HTMLButtonElement>(null);
   const portalMenuRef = useRef<HTMLDivElement>(null);
@@ -75,7 +88,11 @@ const CustomCallControls = () => {
   };
 
   const toggleRecording = () => {
-    setIsRecording(!isRecording);
+    if (isRecording) {
+      stopRecording();
+    } else {
+      startRecording();
+    }
     setIsMenuOpen(false);
   };
 
@@ -187,11 +204,13 @@ const CustomCallControls = () => {
       {hasAdminPrivileges && (
         <button
           onClick={toggleRecording}
+          disabled={recorderStatus === "uploading"}
           className={cn(
             "hidden sm:flex p-2 sm:p-2.5 md:p-3 rounded-lg sm:rounded-xl transition-all duration-200 touch-manipulation active:scale-95",
             isRecording
               ? "bg-red-500 animate-pulse text-white"
-              : "bg-dark-3 text-gray-300 hover:bg-dark-4"
+              : "bg-dark-3 text-gray-300 hover:bg-dark-4",
+            recorderStatus === "uploading" && "opacity-50 cursor-wait"
           )}
           aria-label={isRecording ? "Stop recording" : "Start recording"}
         >
@@ -208,6 +227,15 @@ const CustomCallControls = () => {
         <Banknote className="w-4 h-4 sm:w-5 sm:h-5" />
       </button>
 
+      {/* SETTINGS - Hidden on mobile, visible on tablet+ */}
+      <button
+        onClick={() => setShowSettings(true)}
+        className="hidden sm:flex p-2 sm:p-2.5 md:p-3 rounded-lg sm:rounded-xl transition-all duration-200 touch-manipulation active:scale-95 bg-dark-3 text-gray-300 hover:bg-dark-4"
+        aria-label="Settings"
+      >
+        <Settings className="w-4 h-4 sm:w-5 sm:h-5" />
+      </button>
+
       {/* MORE OPTIONS MENU - Visible only on mobile */}
       <div className="relative sm:hidden" ref={menuRef}>
         <button
@@ -294,6 +322,20 @@ const CustomCallControls = () => {
                 <span className="text-sm font-medium">Pay with M-Pesa</span>
               </button>
 
+              {/* Settings Option */}
+              <button
+                onClick={(e) => {
+                  e.preventDefault();
+                  e.stopPropagation();
+                  setShowSettings(true);
+                  setIsMenuOpen(false);
+                }}
+                className="w-full flex items-center gap-3 px-4 py-3.5 transition-all touch-manipulation active:bg-dark-4 text-gray-300 hover:bg-dark-3 border-t border-white/5"
+              >
+                <Settings className="w-5 h-5" />
+                <span className="text-sm font-medium">Settings</span>
+              </button>
+
               {/* Recording Option (Admin Only) */}
               {hasAdminPrivileges && (
                 <button
@@ -302,6 +344,7 @@ const CustomCallControls = () => {
                     e.stopPropagation();
                     toggleRecording();
                   }}
+                  disabled={recorderStatus === "uploading"}
                   className={cn(
                     "w-full flex items-center gap-3 px-4 py-3.5 transition-all touch-manipulation active:bg-dark-4 border-t border-white/5",
                     isRecording
@@ -311,7 +354,11 @@ const CustomCallControls = () => {
                 >
                   <CircleDot className="w-5 h-5" />
                   <span className="text-sm font-medium">
-                    {isRecording ? "Stop Recording" : "Start Recording"}
+                    {recorderStatus === "uploading"
+                      ? "Saving Recording..."
+                      : isRecording
+                      ? "Stop Recording"
+                      : "Start Recording"}
                   </span>
                 </button>
               )}
@@ -322,6 +369,7 @@ const CustomCallControls = () => {
 
       {/* Reaction Button */}
       <ReactionButton
+        skinTone={skinTone}
         onReact={({ emoji, sessionId }) => {
           console.log("[CustomControls] reaction requested", {
             emoji,
@@ -364,13 +412,15 @@ const CustomCallControls = () => {
         <PhoneOff className="w-4 h-4 sm:w-5 sm:h-5" />
       </button>
 
+      {/* END FOR EVERYONE (Owner Only) */}
+      <EndCallButton />
+
       {/* Payment Modal - Rendered via Portal */}
       {showPayment &&
         typeof window !== "undefined" &&
         createPortal(
           <PaymentModal
-            userId={user?.id || "anonymous"}
-            userName={user?.fullName || user?.firstName || undefined}
+            roomId={roomId ?? undefined}
             isOpen={showPayment}
             onClose={() => setShowPayment(false)}
             onSuccess={() => {
@@ -379,6 +429,17 @@ const CustomCallControls = () => {
           />,
           document.body
         )}
+
+      {/* Settings Modal - Rendered via Portal */}
+      {showSettings &&
+        typeof window !== "undefined" &&
+        createPortal(
+          <SettingsModal
+            isOpen={showSettings}
+            onClose={() => setShowSettings(false)}
+          />,
+          document.body
+        )}
     </div>
   );
 };
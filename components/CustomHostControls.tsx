@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { useUser } from "@clerk/nextjs";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -22,15 +23,14 @@ import {
 } from "lucide-react";
 import { toast } from "sonner";
 import { useMediasoupContext } from "@/contexts/MediasoupContext";
-
-// ✅ Replaced Stream's OwnCapability with a simple Enum/Type
-type MediaPermission = "audio" | "video" | "screenshare";
+import type { HostMediaPermission as MediaPermission } from "@/lib/socketEvents";
 
 interface CustomHostControlsProps {
   onClose?: () => void;
 }
 
 const CustomHostControls = ({ onClose }: CustomHostControlsProps) => {
+  const { user } = useUser();
   const [search, setSearch] = useState("");
   const {
     participants,
@@ -41,6 +41,7 @@ const CustomHostControls = ({ onClose }: CustomHostControlsProps) => {
     makeCoHost,
     removeCoHost,
     socket,
+    roomId,
     screenShareStreams, // Track who is screen sharing
   } = useMediasoupContext();
 
@@ -95,7 +96,7 @@ const CustomHostControls = ({ onClose }: CustomHostControlsProps) => {
     participantId: string,
     participantName: string
   ) => {
-    if (!socket) {
+    if (!socket || !roomId || !user) {
       toast.error("Not connected to server");
       return;
     }
@@ -106,7 +107,9 @@ const CustomHostControls = ({ onClose }: CustomHostControlsProps) => {
     if (!confirmed) return;
 
     socket.emit("remove-participant", {
-      participantId,
+      roomId,
+      userId: user.id,
+      targetUserId: participantId,
     });
     toast.info(`Removing ${participantName} from the meeting...`);
   };
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState } from 'react';
-import { useRouter } from 'next/navigation';
+import { PhoneMissed } from 'lucide-react';
+import { toast } from 'sonner';
 import { Button } from './ui/button';
 import { 
   Dialog, 
@@ -10,41 +11,41 @@ import {
   DialogTitle, 
   DialogFooter 
 } from '@/components/ui/dialog';
+import { useMediasoupContext } from '@/contexts/MediasoupContext';
 
-interface EndCallButtonProps {
-  // PHASE 6: Pass this down from your meeting state/context
-  isMeetingOwner?: boolean;
-}
-
-const EndCallButton = ({ isMeetingOwner = false }: EndCallButtonProps) => {
-  const router = useRouter();
+const EndCallButton = () => {
+  const { isOwner, endMeetingForAll } = useMediasoupContext();
   const [open, setOpen] = useState(false);
+  const [isEnding, setIsEnding] = useState(false);
 
   // If the current user didn't start the meeting, don't show the nuclear option
-  if (!isMeetingOwner) return null;
+  if (!isOwner) return null;
 
   const endCall = async () => {
+    setIsEnding(true);
     try {
-      // PHASE 6: 
-      // socket.emit('end-meeting-for-all', { roomId });
-      
-      console.log("Broadcasting end-call signal to all participants...");
-      
-      // Temporary: just redirect the owner
-      router.push('/');
+      // Everyone, including us, is torn down when "meeting-ended" arrives
+      await endMeetingForAll();
+      setOpen(false);
     } catch (error) {
       console.error("Failed to end call:", error);
+      toast.error("Couldn't end the meeting for everyone");
+    } finally {
+      setIsEnding(false);
     }
   };
 
   return (
     <>
-      <Button 
-        onClick={() => setOpen(true)} 
-        className="bg-red-600 hover:bg-red-700 text-white font-semibold px-4 py-2 rounded-xl transition-colors"
+      <button
+        onClick={() => setOpen(true)}
+        className="flex items-center gap-2 p-2 sm:p-2.5 md:p-3 rounded-lg sm:rounded-xl bg-red-900/60 hover:bg-red-800 text-red-100 transition-all touch-manipulation active:scale-95"
+        aria-label="End call for everyone"
+        title="End call for everyone"
       >
-        End call for everyone
-      </Button>
+        <PhoneMissed className="w-4 h-4 sm:w-5 sm:h-5" />
+        <span className="hidden lg:inline text-sm font-semibold">End for all</span>
+      </button>
 
       <Dialog open={open} onOpenChange={setOpen}>
         <DialogContent className="rounded-2xl p-6 bg-[#1c1f2e] border-white/10 text-white max-w-md">
@@ -67,8 +68,9 @@ const EndCallButton = ({ isMeetingOwner = false }: EndCallButtonProps) => {
             <Button 
               className="bg-red-600 hover:bg-red-700 text-white" 
               onClick={endCall}
+              disabled={isEnding}
             >
-              Confirm End Call
+              {isEnding ? "Ending..." : "Confirm End Call"}
             </Button>
           </DialogFooter>
         </DialogContent>
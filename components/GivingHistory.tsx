@@ -0,0 +1,49 @@
+"use client";
+
+import Link from "next/link";
+import { Download } from "lucide-react";
+
+import Loader from "./Loader";
+import GivingTable, { GivingTotalsCards } from "./GivingTable";
+import { Button } from "./ui/button";
+import { useMyGiving } from "@/hooks/useGiving";
+
+const GivingHistory = () => {
+  const { entries, totals, isTreasurer, isLoading, error } = useMyGiving();
+
+  if (isLoading) return <Loader />;
+
+  if (error) {
+    return <p className="text-red-400">Couldn&apos;t load your giving: {error}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap gap-3">
+        {entries.length > 0 && (
+          <Button asChild className="bg-blue-1">
+            <a href="/api/giving?format=csv" download>
+              <Download className="h-4 w-4" />
+              Download statement (CSV)
+            </a>
+          </Button>
+        )}
+        {isTreasurer && (
+          <Button asChild className="bg-dark-3">
+            <Link href="/giving/treasury">Treasury totals</Link>
+          </Button>
+        )}
+      </div>
+
+      {totals && <GivingTotalsCards totals={totals} />}
+
+      {entries.length > 0 ? (
+        <GivingTable entries={entries} />
+      ) : (
+        <h1 className="text-2xl font-bold">No giving yet</h1>
+      )}
+    </div>
+  );
+};
+
+export default GivingHistory;
@@ -0,0 +1,79 @@
+"use client";
+
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import { HandHeart, X } from "lucide-react";
+
+import { accountTypeLabels } from "@/constants";
+import type { GivingMoment } from "@/lib/socketEvents";
+import PaymentModal from "./PaymentModal";
+
+interface GivingMomentBannerProps {
+  moment: GivingMoment | null;
+  roomId: string;
+}
+
+// Shown to everyone while a host's giving moment is on
+const GivingMomentBanner = ({ moment, roomId }: GivingMomentBannerProps) => {
+  const [showPayment, setShowPayment] = useState(false);
+  // Dismissing hides this moment only; the next one shows again
+  const [dismissedMoment, setDismissedMoment] = useState<string | null>(null);
+
+  if (!moment) return null;
+
+  const purpose = moment.accountType
+    ? accountTypeLabels[moment.accountType].toLowerCase()
+    : "giving";
+
+  return (
+    <>
+      {dismissedMoment !== moment.startedAt && (
+        <div
+          role="status"
+          className="fixed left-1/2 -translate-x-1/2 bottom-20 sm:bottom-28 z-[45] flex w-[calc(100%-1rem)] max-w-xl items-center gap-3 rounded-2xl border border-green-500/40 bg-black/80 px-4 py-3 text-white shadow-2xl backdrop-blur-md"
+        >
+          <div className="flex-shrink-0 rounded-full bg-green-500/20 p-2">
+            <HandHeart className="w-5 h-5 text-green-400" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-semibold">
+              {moment.startedByName || "The host"} has opened a time of {purpose}
+            </p>
+            {moment.message && (
+              <p className="text-xs text-gray-300 line-clamp-2">
+                {moment.message}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => setShowPayment(true)}
+            className="flex-shrink-0 rounded-lg bg-green-600 px-3 py-2 text-sm font-medium hover:bg-green-700 transition touch-manipulation active:scale-95"
+          >
+            Give now
+          </button>
+          <button
+            onClick={() => setDismissedMoment(moment.startedAt)}
+            className="flex-shrink-0 p-1 text-gray-400 hover:text-white transition"
+            aria-label="Hide giving banner"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {showPayment &&
+        typeof window !== "undefined" &&
+        createPortal(
+          <PaymentModal
+            roomId={roomId}
+            defaultAccountType={moment.accountType}
+            isOpen={showPayment}
+            onClose={() => setShowPayment(false)}
+          />,
+          document.body
+        )}
+    </>
+  );
+};
+
+export default GivingMomentBanner;
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { HandHeart } from "lucide-react";
+
+import { accountTypeLabels } from "@/constants";
+import type { AccountType } from "@/hooks/useGiving";
+import {
+  useGivingTally,
+  type GivingMomentControls,
+} from "@/hooks/useGivingMoment";
+import { cn, formatCurrency } from "@/lib/utils";
+
+interface GivingMomentPanelProps {
+  roomId: string;
+  givingMoment: GivingMomentControls;
+  /** Only the meeting's owner sees the running total */
+  isOwner: boolean;
+}
+
+// Host panel section: start or end the giving moment, and watch the total
+const GivingMomentPanel = ({
+  roomId,
+  givingMoment,
+  isOwner,
+}: GivingMomentPanelProps) => {
+  const { moment, startGivingMoment, endGivingMoment } = givingMoment;
+  const [accountType, setAccountType] = useState<AccountType | "">("");
+  const [message, setMessage] = useState("");
+  const tally = useGivingTally(roomId, isOwner);
+
+  return (
+    <div className="mb-4 rounded-lg border border-gray-700 bg-[#1f212a] p-4 text-sm text-gray-300">
+      <div className="flex items-center gap-2 mb-3 font-semibold text-white">
+        <HandHeart size={16} className="text-green-400" />
+        Giving
+        {moment && (
+          <span className="ml-auto rounded-full bg-green-500/20 px-2 py-0.5 text-[10px] text-green-400">
+            LIVE
+          </span>
+        )}
+      </div>
+
+      {moment ? (
+        <button
+          onClick={endGivingMoment}
+          className="w-full px-4 py-2 rounded-lg border border-red-500/40 text-red-400 hover:bg-red-500/10 transition"
+        >
+          End Giving Moment
+        </button>
+      ) : (
+        <div className="space-y-2">
+          <select
+            value={accountType}
+            onChange={(e) => setAccountType(e.target.value as AccountType | "")}
+            className="w-full bg-[#12141b] border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500"
+          >
+            <option value="">Any account</option>
+            {Object.entries(accountTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={200}
+            placeholder="Message to everyone (optional)"
+            className="w-full bg-[#12141b] border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={() => {
+              startGivingMoment({
+                accountType: accountType || undefined,
+                message,
+              });
+              setMessage("");
+            }}
+            className="w-full px-4 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition"
+          >
+            Start Giving Moment
+          </button>
+        </div>
+      )}
+
+      {isOwner && tally && (
+        <div className="mt-4 border-t border-gray-700 pt-3">
+          <div className="flex items-baseline justify-between">
+            <span className="text-xs text-gray-400">Given in this meeting</span>
+            <span className="text-lg font-bold text-white">
+              {formatCurrency(tally.total)}
+            </span>
+          </div>
+          <div className="mt-2 space-y-1">
+            {Object.entries(tally.byAccountType).map(([type, { total, count }]) => (
+              <div
+                key={type}
+                className={cn(
+                  "flex justify-between text-xs",
+                  count === 0 && "text-gray-500"
+                )}
+              >
+                <span>
+                  {accountTypeLabels[type as AccountType]} ({count})
+                </span>
+                <span>{formatCurrency(total)}</span>
+              </div>
+            ))}
+          </div>
+
+          {tally.namedGifts.length > 0 && (
+            <div className="mt-3 space-y-1">
+              <p className="text-[10px] font-semibold text-gray-400">
+                NAMED GIFTS
+              </p>
+              {tally.namedGifts.slice(0, 10).map((gift) => (
+                <div key={gift.id} className="flex justify-between text-xs">
+                  <span className="truncate">
+                    {gift.userName} · {accountTypeLabels[gift.accountType]}
+                  </span>
+                  <span>{formatCurrency(gift.amount)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="mt-2 text-[10px] text-gray-500">
+            Other gifts are anonymous and only count towards the totals.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GivingMomentPanel;
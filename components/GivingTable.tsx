@@ -0,0 +1,100 @@
+"use client";
+
+import { Download } from "lucide-react";
+
+import { accountTypeLabels } from "@/constants";
+import type { GivingEntry, GivingTotals } from "@/hooks/useGiving";
+import { formatCurrency } from "@/lib/utils";
+
+interface GivingTableProps {
+  entries: GivingEntry[];
+  /** Show who gave each gift (the treasury view) */
+  showGiver?: boolean;
+}
+
+const formatGivenAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/** Overall and per-account totals as a row of cards */
+export const GivingTotalsCards = ({ totals }: { totals: GivingTotals }) => (
+  <div className="grid grid-cols-2 gap-4 lg:grid-cols-5">
+    <div className="rounded-[14px] bg-blue-1 px-5 py-4">
+      <p className="text-sm text-sky-1">All giving</p>
+      <p className="text-xl font-bold">{formatCurrency(totals.total)}</p>
+      <p className="text-xs text-sky-1">
+        {totals.count} {totals.count === 1 ? "gift" : "gifts"}
+      </p>
+    </div>
+    {Object.entries(totals.byAccountType).map(([type, { total, count }]) => (
+      <div key={type} className="rounded-[14px] bg-dark-1 px-5 py-4">
+        <p className="text-sm text-sky-1">
+          {accountTypeLabels[type as keyof typeof accountTypeLabels]}
+        </p>
+        <p className="text-xl font-bold">{formatCurrency(total)}</p>
+        <p className="text-xs text-gray-400">
+          {count} {count === 1 ? "gift" : "gifts"}
+        </p>
+      </div>
+    ))}
+  </div>
+);
+
+const GivingTable = ({ entries, showGiver }: GivingTableProps) => (
+  <div className="overflow-x-auto rounded-[14px] bg-dark-1">
+    <table className="w-full min-w-[640px] text-left text-sm">
+      <thead className="text-sky-1">
+        <tr className="border-b border-dark-3">
+          <th className="px-5 py-3 font-medium">Date</th>
+          {showGiver && <th className="px-5 py-3 font-medium">Given by</th>}
+          <th className="px-5 py-3 font-medium">Account</th>
+          <th className="px-5 py-3 font-medium">Amount</th>
+          <th className="px-5 py-3 font-medium">M-Pesa receipt</th>
+          <th className="px-5 py-3 font-medium">Meeting</th>
+          <th className="px-5 py-3 font-medium">Receipt</th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => (
+          <tr key={entry.id} className="border-b border-dark-3 last:border-0">
+            <td className="px-5 py-3 whitespace-nowrap">
+              {formatGivenAt(entry.givenAt)}
+            </td>
+            {showGiver && <td className="px-5 py-3">{entry.userName}</td>}
+            <td className="px-5 py-3">{accountTypeLabels[entry.accountType]}</td>
+            <td className="px-5 py-3 font-semibold whitespace-nowrap">
+              {formatCurrency(entry.amount)}
+            </td>
+            <td className="px-5 py-3 font-mono">
+              {entry.mpesaReceiptNumber || (
+                <span className="text-gray-400">Pending</span>
+              )}
+            </td>
+            <td className="px-5 py-3 text-gray-300">
+              {entry.meetingTitle || "—"}
+            </td>
+            <td className="px-5 py-3">
+              <div className="flex gap-3">
+                {(["pdf", "csv"] as const).map((format) => (
+                  <a
+                    key={format}
+                    href={`/api/giving/${entry.id}/receipt?format=${format}`}
+                    download
+                    className="flex items-center gap-1 text-sky-1 hover:text-white"
+                  >
+                    <Download className="h-3.5 w-3.5" />
+                    {format.toUpperCase()}
+                  </a>
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default GivingTable;
@@ -0,0 +1,106 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+
+import Loader from "./Loader";
+import GivingTable, { GivingTotalsCards } from "./GivingTable";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { accountTypeLabels } from "@/constants";
+import {
+  getGivingTotalsQuery,
+  useGivingTotals,
+  type AccountType,
+} from "@/hooks/useGiving";
+
+const GivingTotals = () => {
+  const [accountType, setAccountType] = useState<AccountType | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const filter = { accountType: accountType || undefined, from, to };
+  const { entries, totals, isLoading, error } = useGivingTotals(filter);
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="flex flex-col gap-2 text-sm text-sky-1">
+          Account
+          <select
+            value={accountType}
+            onChange={(e) => setAccountType(e.target.value as AccountType | "")}
+            className="h-9 rounded-md bg-dark-3 px-3 text-white outline-none"
+          >
+            <option value="">All accounts</option>
+            {Object.entries(accountTypeLabels).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-2 text-sm text-sky-1">
+          From
+          <Input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            className="border-none bg-dark-3 text-white [color-scheme:dark] focus-visible:ring-0"
+          />
+        </label>
+        <label className="flex flex-col gap-2 text-sm text-sky-1">
+          To
+          <Input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            className="border-none bg-dark-3 text-white [color-scheme:dark] focus-visible:ring-0"
+          />
+        </label>
+        {(accountType || from || to) && (
+          <Button
+            className="bg-dark-3"
+            onClick={() => {
+              setAccountType("");
+              setFrom("");
+              setTo("");
+            }}
+          >
+            Clear
+          </Button>
+        )}
+        {entries.length > 0 && (
+          <Button asChild className="bg-blue-1">
+            <a
+              href={`/api/giving/totals?${getGivingTotalsQuery(filter)}&format=csv`}
+              download
+            >
+              <Download className="h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        )}
+      </div>
+
+      {error ? (
+        <p className="text-red-400">{error}</p>
+      ) : isLoading ? (
+        <Loader />
+      ) : (
+        <>
+          {totals && <GivingTotalsCards totals={totals} />}
+          {entries.length > 0 ? (
+            <GivingTable entries={entries} showGiver />
+          ) : (
+            <h1 className="text-2xl font-bold">No giving in this range</h1>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GivingTotals;
@@ -2,11 +2,26 @@
 
 import { useEffect, useState, useRef, useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
+import {
+  ChevronLeft,
+  ChevronRight,
+  LayoutGrid,
+  UserSquare2,
+} from "lucide-react";
 import MediasoupTile from "./MediasoupTile";
 import DraggablePiPButton from "./DraggablePiPButton";
 import { useMediasoupContext } from "@/contexts/MediasoupContext";
 import { useAutoPictureInPicture } from "@/hooks/useAutoPictureInPicture";
 import { useDominantSpeaker } from "@/hooks/useDominantSpeaker";
+import { useGalleryPagination } from "@/hooks/useGalleryPagination";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import {
+  GALLERY_PAGE_SIZES,
+  updateSettings,
+  type GalleryPageSize,
+  type LayoutMode,
+} from "@/lib/userSettings";
+import { cn } from "@/lib/utils";
 
 interface Participant {
   id: string;
@@ -27,8 +42,12 @@ const GridLayout = ({
   remoteStreams,
   localStream,
 }: GridLayoutProps) => {
-  const { screenShareStreams, localScreenStream, isScreenSharing } =
-    useMediasoupContext();
+  const {
+    screenShareStreams,
+    localScreenStream,
+    isScreenSharing,
+    setPiPTileIds,
+  } = useMediasoupContext();
   const { user } = useUser();
 
   const [screenWidth, setScreenWidth] = useState(
@@ -59,6 +78,49 @@ const GridLayout = ({
     localParticipantId: user?.id,
   });
 
+  // Layout preferences are saved, so the next meeting opens the same way
+  const { defaultLayout: layoutMode, galleryPageSize: pageSize } =
+    useUserSettings().layout;
+
+  // Gallery pagination - tiles on other pages unmount, which pauses their video
+  const remoteParticipants = participants.filter((p) => p.id !== user?.id);
+  const {
+    pageItems,
+    page,
+    pageCount,
+    hasPrevious,
+    hasNext,
+    previousPage,
+    nextPage,
+  } = useGalleryPagination({
+    items: remoteParticipants,
+    pageSize,
+    dominantSpeakerId,
+  });
+
+  const handlePageSizeChange = (size: GalleryPageSize) => {
+    updateSettings("layout", { galleryPageSize: size });
+  };
+
+  const handleLayoutChange = (mode: LayoutMode) => {
+    updateSettings("layout", { defaultLayout: mode });
+  };
+
+  // Speaker view features whoever is talking (or the first remote participant)
+  const featuredParticipant =
+    layoutMode === "speaker"
+      ? (remoteParticipants.find((p) => p.id === dominantSpeakerId) ??
+        remoteParticipants[0])
+      : undefined;
+
+  // Square-ish grid for the chosen page size (3x3, 4x4, 5x5, 7x7)
+  const galleryColumns = isMobile
+    ? 2
+    : Math.min(
+        Math.ceil(Math.sqrt(pageSize)),
+        Math.max(2, Math.ceil(Math.sqrt(pageItems.length + 1))),
+      );
+
   // Screen share participant ID
   const screenShareParticipantId =
     screenShareStreams.size > 0 ? Array.from(screenShareStreams)[0] : null;
@@ -72,6 +134,7 @@ const GridLayout = ({
     canActivate,
     canActivateReason,
     isAutoActivateEnabled,
+    currentSpeaker,
   } = useAutoPictureInPicture({
     participants,
     localParticipant,
@@ -82,6 +145,22 @@ const GridLayout = ({
     enabled: true,
   });
 
+  // Keep whatever PiP is showing streaming even when the tab is hidden
+  const pipSpeakerId = currentSpeaker?.id;
+  useEffect(() => {
+    if (!isPiPActive) {
+      setPiPTileIds([]);
+      return;
+    }
+
+    const tileIds: string[] = [];
+    if (screenShareParticipantId) {
+      tileIds.push(`${screenShareParticipantId}-screen`);
+    }
+    if (pipSpeakerId) tileIds.push(pipSpeakerId);
+    setPiPTileIds(tileIds);
+  }, [isPiPActive, pipSpeakerId, screenShareParticipantId, setPiPTileIds]);
+
   // Toggle PiP handler for the draggable button
   const handleTogglePiP = useCallback(async () => {
     if (isPiPActive) {
@@ -113,8 +192,87 @@ const GridLayout = ({
     });
   }
 
+  // Layout switch plus, in gallery view, page size and paging
+  const layoutToolbar = (
+    <div className="flex items-center justify-end gap-2 mb-3">
+      <div className="flex items-center bg-black/40 border border-white/10 rounded-lg p-0.5 text-xs text-gray-300">
+        {(
+          [
+            { mode: "gallery", label: "Gallery", Icon: LayoutGrid },
+            { mode: "speaker", label: "Speaker", Icon: UserSquare2 },
+          ] as const
+        ).map(({ mode, label, Icon }) => (
+          <button
+            key={mode}
+            onClick={() => handleLayoutChange(mode)}
+            className={cn(
+              "flex items-center gap-1.5 px-2 py-1 rounded-md transition",
+              layoutMode === mode
+                ? "bg-white/15 text-white"
+                : "hover:bg-white/10",
+            )}
+            aria-pressed={layoutMode === mode}
+          >
+            <Icon className="w-3.5 h-3.5" />
+            <span className="hidden sm:inline">{label}</span>
+          </button>
+        ))}
+      </div>
+
+      {layoutMode === "gallery" && (
+        <>
+          <label className="flex items-center gap-1.5 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-300">
+            <LayoutGrid className="w-3.5 h-3.5" />
+            <select
+              value={pageSize}
+              onChange={(e) =>
+                handlePageSizeChange(Number(e.target.value) as GalleryPageSize)
+              }
+              className="bg-transparent outline-none cursor-pointer"
+              aria-label="Tiles per page"
+            >
+              {GALLERY_PAGE_SIZES.map((size) => (
+                <option key={size} value={size} className="bg-[#1C1F2E]">
+                  {size} per page
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {pageCount > 1 && (
+            <div className="flex items-center gap-1 bg-black/40 border border-white/10 rounded-lg px-1 py-0.5 text-xs text-gray-300">
+              <button
+                onClick={previousPage}
+                disabled={!hasPrevious}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label="Previous page"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="tabular-nums px-1">
+                {page + 1} / {pageCount}
+              </span>
+              <button
+                onClick={nextPage}
+                disabled={!hasNext}
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label="Next page"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+
   return (
-    <div ref={containerRef} className="relative w-full h-full overflow-hidden">
+    <div
+      ref={containerRef}
+      data-recording-surface
+      className="relative w-full h-full overflow-hidden"
+    >
       {screenShares.length > 0 ? (
         // Layout when screen share is active
         <div className={isMobile ? "flex flex-col" : "flex h-full"}>
@@ -183,14 +341,74 @@ const GridLayout = ({
             </div>
           </div>
         </div>
+      ) : featuredParticipant ? (
+        // Speaker view: the active speaker large, everyone else in a strip
+        <div className="flex flex-col h-full p-4">
+          {layoutToolbar}
+          <div
+            className={
+              isMobile ? "flex flex-col gap-2" : "flex flex-1 min-h-0 gap-4"
+            }
+          >
+            <div
+              className={isMobile ? "w-full aspect-video" : "h-full"}
+              style={isMobile ? {} : { width: "75%" }}
+            >
+              <MediasoupTile
+                key={featuredParticipant.id}
+                stream={remoteStreams.get(featuredParticipant.id)}
+                participantId={featuredParticipant.id}
+                participantName={featuredParticipant.name}
+                participantImage={featuredParticipant.imageUrl}
+                isHost={featuredParticipant.isHost}
+                isMobile={isMobile}
+              />
+            </div>
+
+            <div
+              className={isMobile ? "w-full" : "overflow-y-auto"}
+              style={isMobile ? {} : { width: "25%" }}
+            >
+              <div
+                className={`grid w-full auto-rows-fr ${
+                  isMobile ? "grid-cols-2 gap-1" : "grid-cols-1 gap-4"
+                }`}
+              >
+                <MediasoupTile
+                  stream={localStream || undefined}
+                  participantId={user?.id || "local"}
+                  participantName={user?.fullName || user?.firstName || "You"}
+                  participantImage={user?.imageUrl}
+                  isLocal
+                  isMobile={isMobile}
+                />
+                {remoteParticipants
+                  .filter((p) => p.id !== featuredParticipant.id)
+                  .map((participant) => (
+                    <MediasoupTile
+                      key={participant.id}
+                      stream={remoteStreams.get(participant.id)}
+                      participantId={participant.id}
+                      participantName={participant.name}
+                      participantImage={participant.imageUrl}
+                      isHost={participant.isHost}
+                      isMobile={isMobile}
+                    />
+                  ))}
+              </div>
+            </div>
+          </div>
+        </div>
       ) : (
-        // Default grid layout when no screen share
+        // Paginated gallery when no screen share
         <div className="w-full h-full overflow-y-auto p-4">
+          {layoutToolbar}
+
           <div
-            className={`
-        grid gap-4 w-full auto-rows-fr
-        ${isMobile ? "grid-cols-2" : "grid-cols-2 lg:grid-cols-3"}
-      `}
+            className="grid gap-4 w-full auto-rows-fr"
+            style={{
+              gridTemplateColumns: `repeat(${galleryColumns}, minmax(0, 1fr))`,
+            }}
           >
             {/* 1. LOCAL PREVIEW (YOU) */}
             <MediasoupTile
@@ -202,23 +420,21 @@ const GridLayout = ({
               isMobile={isMobile}
             />
 
-            {/* 2. REMOTE PARTICIPANTS (Camera streams) */}
-            {participants
-              .filter((p) => p.id !== user?.id)
-              .map((participant) => {
-                const stream = remoteStreams.get(participant.id);
-                return (
-                  <MediasoupTile
-                    key={participant.id}
-                    stream={stream}
-                    participantId={participant.id}
-                    participantName={participant.name}
-                    participantImage={participant.imageUrl}
-                    isHost={participant.isHost}
-                    isMobile={isMobile}
-                  />
-                );
-              })}
+            {/* 2. REMOTE PARTICIPANTS on the current page */}
+            {pageItems.map((participant) => {
+              const stream = remoteStreams.get(participant.id);
+              return (
+                <MediasoupTile
+                  key={participant.id}
+                  stream={stream}
+                  participantId={participant.id}
+                  participantName={participant.name}
+                  participantImage={participant.imageUrl}
+                  isHost={participant.isHost}
+                  isMobile={isMobile}
+                />
+              );
+            })}
           </div>
         </div>
       )}
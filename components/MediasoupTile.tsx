@@ -2,6 +2,8 @@
 
 import { useEffect, useRef, useState, Dispatch, SetStateAction } from "react";
 import { Mic, MicOff, VideoOff } from "lucide-react";
+import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { useUserSettings } from "@/hooks/useUserSettings";
 
 interface MediasoupTileProps {
   stream?: MediaStream;
@@ -24,6 +26,11 @@ const MediasoupTile = ({
   isMobile,
   onVideoElement,
 }: MediasoupTileProps) => {
+  const { requestVideoLayer, setTileVisibility, selectedDevices } =
+    useMediasoupContext();
+  const audioOutputId = selectedDevices.audioOutputId;
+  const { mirrorSelfView } = useUserSettings().video;
+  const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
 
@@ -40,6 +47,45 @@ const MediasoupTile = ({
     return () => {};
   }, [isLocal, onVideoElement]);
 
+  // Request the simulcast layer that matches how big this tile is rendered
+  useEffect(() => {
+    const container = containerRef.current;
+    if (isLocal || !participantId || !container) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      requestVideoLayer(participantId, entry.contentRect.height);
+    });
+    observer.observe(container);
+
+    return () => observer.disconnect();
+  }, [isLocal, participantId, requestVideoLayer]);
+
+  // Report whether this tile is on screen so its video consumer can be paused
+  useEffect(() => {
+    const container = containerRef.current;
+    if (isLocal || !participantId || !container) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      setTileVisibility(participantId, entry.isIntersecting);
+    });
+    observer.observe(container);
+
+    return () => {
+      observer.disconnect();
+      setTileVisibility(participantId, false);
+    };
+  }, [isLocal, participantId, setTileVisibility]);
+
+  // Route remote audio to the chosen speaker (Chromium-based browsers only)
+  useEffect(() => {
+    const audioElement = audioRef.current;
+    if (isLocal || !audioElement || !("setSinkId" in audioElement)) return;
+
+    audioElement.setSinkId(audioOutputId ?? "").catch((error) => {
+      console.warn("🔈 Failed to set audio output device:", error);
+    });
+  }, [isLocal, audioOutputId]);
+
   useEffect(() => {
     if (!stream) return;
 
@@ -147,6 +193,9 @@ const MediasoupTile = ({
 
   return (
     <div
+      ref={containerRef}
+      data-tile-id={participantId} // Read by the meeting recorder's compositor
+      data-tile-name={participantName}
       className={`relative bg-[#1C1F2E] rounded-2xl overflow-hidden border-2 transition-all ${
         isTalking
           ? "border-blue-500 shadow-[0_0_15px_rgba(59,130,246,0.3)]"
@@ -166,7 +215,7 @@ const MediasoupTile = ({
         data-peer-id={participantId} // ✅ CRITICAL: Required for PiP to find this video element
         className={`w-full h-full object-cover transition-opacity duration-300 ${
           hasVideo ? "opacity-100" : "opacity-0 absolute"
-        } ${isLocal ? "scale-x-[-1]" : ""}`}
+        } ${isLocal && mirrorSelfView ? "scale-x-[-1]" : ""}`}
       />
 
       {/* AVATAR */}
@@ -2,6 +2,7 @@
 
 "use client";
 
+import { ReactNode } from "react";
 import Image from "next/image";
 
 import { cn } from "@/lib/utils";
@@ -19,6 +20,8 @@ interface MeetingCardProps {
   buttonText?: string;
   handleClick: () => void;
   link: string;
+  /** Shown in place of Start / Copy Link on previous meetings */
+  previousActions?: ReactNode;
 }
 
 const MeetingCard = ({
@@ -30,6 +33,7 @@ const MeetingCard = ({
   handleClick,
   link,
   buttonText,
+  previousActions,
 }: MeetingCardProps) => {
   
 
@@ -61,6 +65,7 @@ const MeetingCard = ({
             +5
           </div>
         </div>
+        {isPreviousMeeting && previousActions}
         {!isPreviousMeeting && (
           <div className="flex gap-2">
             <Button onClick={handleClick} className="rounded bg-red-5 px-4">
@@ -0,0 +1,83 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { CalendarClock, PhoneOff, Users } from "lucide-react";
+import type { MeetingSummary } from "@/contexts/MediasoupContext";
+import { formatDuration } from "@/lib/utils";
+
+type MeetingEndedScreenProps = {
+  summary: MeetingSummary;
+  title?: string;
+  isOwner: boolean;
+};
+
+const MAX_LISTED_ATTENDEES = 8;
+
+const MeetingEndedScreen = ({
+  summary,
+  title,
+  isOwner,
+}: MeetingEndedScreenProps) => {
+  const router = useRouter();
+  const duration =
+    summary.joinedAt &&
+    formatDuration(
+      new Date(summary.endedAt).getTime() - new Date(summary.joinedAt).getTime()
+    );
+  const listed = summary.attendees.slice(0, MAX_LISTED_ATTENDEES);
+  const hiddenCount = summary.attendees.length - listed.length;
+
+  return (
+    <section className="flex h-screen w-full items-center justify-center bg-[#0F1115] p-4 text-white">
+      <div className="w-full max-w-md rounded-2xl border border-white/10 bg-dark-1 p-6 shadow-2xl">
+        <div className="mb-5 flex items-center gap-3">
+          <div className="rounded-xl bg-red-600/20 p-3 text-red-400">
+            <PhoneOff className="h-6 w-6" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold">Meeting ended</h1>
+            <p className="text-sm text-gray-400">
+              {isOwner
+                ? "You ended this meeting for everyone"
+                : `Ended by ${summary.endedByName || "the host"}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-3 rounded-xl bg-dark-3 p-4 text-sm">
+          {title && <p className="font-semibold">{title}</p>}
+          <p className="flex items-center gap-2 text-gray-300">
+            <CalendarClock className="h-4 w-4 flex-shrink-0" />
+            {new Date(summary.endedAt).toLocaleString()}
+            {duration && ` · you were here for ${duration}`}
+          </p>
+          <div className="flex items-start gap-2 text-gray-300">
+            <Users className="mt-0.5 h-4 w-4 flex-shrink-0" />
+            <span>
+              {summary.attendees.length} attended
+              {listed.length > 0 && `: ${listed.join(", ")}`}
+              {hiddenCount > 0 && ` and ${hiddenCount} more`}
+            </span>
+          </div>
+        </div>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={() => router.push("/")}
+            className="flex-1 rounded-xl bg-blue-600 px-4 py-2.5 text-sm font-semibold transition hover:bg-blue-700"
+          >
+            Back to home
+          </button>
+          <button
+            onClick={() => router.push("/previous")}
+            className="flex-1 rounded-xl bg-dark-3 px-4 py-2.5 text-sm font-semibold transition hover:bg-dark-4"
+          >
+            Previous meetings
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default MeetingEndedScreen;
@@ -5,6 +5,7 @@ import { useRouter, useParams } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
 import { Users, Settings } from "lucide-react";
 import { AnimatePresence } from "framer-motion";
+import { toast } from "sonner";
 
 import ChatSidebar from "./ChatSidebar";
 import ChatButton from "./ChatButton";
@@ -13,11 +14,46 @@ import CustomControls from "./CustomControls";
 import CustomHostControls from "./CustomHostControls";
 import ParticipantSidebar from "./ParticipantSidebar";
 import MessageNotification from "./MessageNotification";
+import ConnectionBanner from "./ConnectionBanner";
+import MeetingEndedScreen from "./MeetingEndedScreen";
+import RecordingIndicator from "./RecordingIndicator";
+import GivingMomentBanner from "./GivingMomentBanner";
 import { cn } from "@/lib/utils";
 import { useMediasoupContext } from "@/contexts/MediasoupContext";
 import { useGetCallById } from "@/hooks/useGetCallById";
-import { useSocketChat } from "@/hooks/useSocketChat";
+import {
+  useSocketChat,
+  EVERYONE_CONVERSATION,
+  getConversationId,
+} from "@/hooks/useSocketChat";
 import { ReceivedMessage } from "@/hooks/useSocketChat";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import { useChatTranscriptSync } from "@/hooks/useChatTranscriptSync";
+import { useGivingMoment } from "@/hooks/useGivingMoment";
+import { getMeetingPermissions } from "@/actions/mediasoup.actions";
+
+// Short two-note chime for new chat messages, synthesised so no asset is needed
+const playMessageChime = () => {
+  try {
+    const context = new AudioContext();
+    const gain = context.createGain();
+    gain.connect(context.destination);
+    gain.gain.setValueAtTime(0.08, context.currentTime);
+    gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + 0.35);
+
+    [880, 1320].forEach((frequency, i) => {
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = frequency;
+      oscillator.connect(gain);
+      oscillator.start(context.currentTime + i * 0.12);
+      oscillator.stop(context.currentTime + 0.35);
+    });
+
+    setTimeout(() => context.close(), 500);
+  } catch (error) {
+    console.warn("🔕 Failed to play message chime:", error);
+  }
+};
 
 const MeetingRoom = () => {
   const params = useParams();
@@ -33,19 +69,33 @@ const MeetingRoom = () => {
     localStream,
     isInitialized,
     joinRoom,
+    connectionStatus,
+    setGridCovered,
+    meetingSummary,
+    isOwner,
   } = useMediasoupContext();
 
   const [showParticipants, setShowParticipants] = useState(false);
   const [showChat, setShowChat] = useState(false);
+  // Room-wide chat, or the user ID of a private conversation
+  const [activeConversation, setActiveConversation] = useState(EVERYONE_CONVERSATION);
   const [visibleNotifications, setVisibleNotifications] = useState<ReceivedMessage[]>([]);
   const shownMessageIdsRef = useRef<Set<string>>(new Set());
   const MAX_VISIBLE_NOTIFICATIONS = 3;
+  const { notificationPopups, notificationSound } = useUserSettings().chat;
 
-  // Get meeting metadata to determine creator
+  // Get meeting metadata (title, schedule) for the room
   const { call } = useGetCallById(roomId);
 
   // Get chat data including unread messages
-  const { unreadCount, unreadMessages } = useSocketChat(roomId, showChat);
+  const { messages, unreadCount, unreadByConversation, unreadMessages } =
+    useSocketChat(roomId, showChat, activeConversation);
+  // The owner's browser keeps the chat saved for export after the meeting
+  useChatTranscriptSync(roomId, messages, isOwner);
+  // Shared by the banner everyone sees and the hosts' panel
+  const givingMoment = useGivingMoment(roomId);
+  const privateUnreadCount =
+    unreadCount - (unreadByConversation[EVERYONE_CONVERSATION] || 0);
 
   // ✅ Join the Mediasoup room on mount with user info
   useEffect(() => {
@@ -53,20 +103,49 @@ const MeetingRoom = () => {
       const userName = user.fullName || user.firstName || "Anonymous";
       const userImageUrl = user.imageUrl;
 
-      // ✅ Determine if current user is the creator
-      const isCreator = call.createdBy === user.id;
+      const join = async () => {
+        // ✅ Ownership and access are decided by the server, not the client
+        const permissions = await getMeetingPermissions(roomId);
+        if (!permissions.canJoin) {
+          toast.error(permissions.reason || "You can't join this meeting");
+          router.push("/");
+          return;
+        }
 
-      console.log("🚀 Joining Mediasoup Room:", roomId, "as", userName, {
-        isCreator,
-        callCreatedBy: call.createdBy,
-        currentUserId: user.id,
-      });
+        console.log("🚀 Joining Mediasoup Room:", roomId, "as", userName, {
+          role: permissions.role,
+          currentUserId: user.id,
+        });
 
-      joinRoom(roomId, user.id, userName, userImageUrl, isCreator);
+        await joinRoom(
+          roomId,
+          user.id,
+          userName,
+          userImageUrl,
+          permissions.isOwner,
+          permissions.joinToken
+        );
+      };
+
+      join().catch((error) => {
+        console.error("❌ Failed to check meeting permissions:", error);
+        toast.error("Could not verify access to this meeting");
+      });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [socket, isInitialized, user?.id, roomId, call]);
 
+  // On small screens an open sidebar covers the whole video grid
+  useEffect(() => {
+    const smallScreen = window.matchMedia("(max-width: 767px)");
+    const update = () =>
+      setGridCovered((showChat || showParticipants) && smallScreen.matches);
+
+    update();
+    smallScreen.addEventListener("change", update);
+    return () => smallScreen.removeEventListener("change", update);
+  }, [showChat, showParticipants, setGridCovered]);
+
   // Manage notification stack - APPEND new messages only
   useEffect(() => {
     if (showChat) {
@@ -87,7 +166,11 @@ const MeetingRoom = () => {
       (msg) => !shownMessageIdsRef.current.has(msg.message.id)
     );
 
-    if (newMessages.length > 0) {
+    if (newMessages.length > 0 && notificationSound) {
+      playMessageChime();
+    }
+
+    if (newMessages.length > 0 && notificationPopups) {
       setVisibleNotifications((prev) => {
         // Append new messages
         const updated = [...prev, ...newMessages];
@@ -100,13 +183,13 @@ const MeetingRoom = () => {
 
         return updated;
       });
-
-      // Track these messages as shown (using ref - doesn't trigger re-render)
-      newMessages.forEach((msg) => {
-        shownMessageIdsRef.current.add(msg.message.id);
-      });
     }
-  }, [unreadMessages, showChat]);
+
+    // Track these messages as shown (using ref - doesn't trigger re-render)
+    newMessages.forEach((msg) => {
+      shownMessageIdsRef.current.add(msg.message.id);
+    });
+  }, [unreadMessages, showChat, notificationPopups, notificationSound]);
 
   const handleNotificationClose = (messageId: string) => {
     setVisibleNotifications((prev) =>
@@ -115,14 +198,36 @@ const MeetingRoom = () => {
     // Don't remove from shownMessageIdsRef - we want to remember it was shown
   };
 
-  const handleNotificationClick = () => {
+  // Open the chat on the conversation the message belongs to
+  const handleNotificationClick = (notification: ReceivedMessage) => {
+    setActiveConversation(getConversationId(notification.message, user?.id));
     setShowChat(true);
     setVisibleNotifications([]);
     shownMessageIdsRef.current = new Set();
   };
 
+  // ✅ The owner ended the meeting for everyone
+  if (meetingSummary) {
+    return (
+      <MeetingEndedScreen
+        summary={meetingSummary}
+        title={call?.description}
+        isOwner={isOwner}
+      />
+    );
+  }
+
   return (
     <section className="relative h-screen w-full bg-[#0F1115] text-white overflow-hidden">
+      {/* Reconnecting / connection lost banner */}
+      <ConnectionBanner status={connectionStatus} />
+
+      {/* Everyone sees when the meeting is being recorded */}
+      <RecordingIndicator />
+
+      {/* A host's call to give, with a button to open M-Pesa */}
+      <GivingMomentBanner moment={givingMoment.moment} roomId={roomId} />
+
       {/* Debug component - remove in production */}
 
       <div
@@ -146,6 +251,9 @@ const MeetingRoom = () => {
           open={showChat}
           onClose={() => setShowChat(false)}
           roomId={roomId}
+          meetingTitle={call?.description}
+          conversationId={activeConversation}
+          onConversationChange={setActiveConversation}
         />
 
         {/* PARTICIPANTS SIDEBAR */}
@@ -153,6 +261,7 @@ const MeetingRoom = () => {
           participants={participants}
           socket={socket}
           roomId={roomId}
+          givingMoment={givingMoment}
           open={showParticipants}
           onClose={() => setShowParticipants(false)}
         />
@@ -188,6 +297,7 @@ const MeetingRoom = () => {
             <ChatButton
               onClick={() => setShowChat((p) => !p)}
               unreadCount={unreadCount}
+              privateUnreadCount={privateUnreadCount}
               isActive={showChat}
             />
           </div>
@@ -206,8 +316,13 @@ const MeetingRoom = () => {
             <MessageNotification
               key={notification.message.id}
               message={notification}
+              conversationUnread={
+                unreadByConversation[
+                  getConversationId(notification.message, user?.id)
+                ]
+              }
               onClose={() => handleNotificationClose(notification.message.id)}
-              onClick={handleNotificationClick}
+              onClick={() => handleNotificationClick(notification)}
             />
           ))}
         </AnimatePresence>
@@ -4,13 +4,12 @@ import { useEffect, useState, useRef, useCallback } from "react";
 import { Button } from "./ui/button";
 import { Video, VideoOff, Mic, MicOff, Volume2, Sparkles } from "lucide-react";
 import Image from "next/image";
-
-interface JoinPreference {
-  audio: boolean;
-  video: boolean;
-}
-
-const STORAGE_KEY = "meeting-join-preference";
+import {
+  getSettings,
+  updateSettings,
+  type JoinPreference,
+} from "@/lib/userSettings";
+import { useUserSettings } from "@/hooks/useUserSettings";
 
 type AudioOption = "computer" | "phone" | "room" | "none";
 
@@ -23,10 +22,20 @@ const MeetingSetup = ({
   const [permissionError, setPermissionError] = useState<string | null>(null);
   const [audioOption, setAudioOption] = useState<AudioOption>("none");
   const [isCameraOn, setIsCameraOn] = useState(false);
-  const [selectedMicrophone, setSelectedMicrophone] = useState<string>("");
-  const [selectedSpeaker, setSelectedSpeaker] = useState<string>("");
+  // Start from the devices used last time; MediasoupContext reads them on join
+  const [selectedMicrophone, setSelectedMicrophone] = useState<string>(
+    () => getSettings().devices.audioInputId ?? ""
+  );
+  const [selectedSpeaker, setSelectedSpeaker] = useState<string>(
+    () => getSettings().devices.audioOutputId ?? ""
+  );
+  const [selectedCamera, setSelectedCamera] = useState<string>(
+    () => getSettings().devices.videoInputId ?? ""
+  );
+  const { video: videoSettings, audio: audioSettings } = useUserSettings();
   const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
   const [speakers, setSpeakers] = useState<MediaDeviceInfo[]>([]);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -59,9 +68,13 @@ const MeetingSetup = ({
       const devices = await navigator.mediaDevices.enumerateDevices();
       const audioInputs = devices.filter((d) => d.kind === "audioinput");
       const audioOutputs = devices.filter((d) => d.kind === "audiooutput");
+      const videoInputs = devices.filter(
+        (d) => d.kind === "videoinput" && d.deviceId
+      );
 
       setMicrophones(audioInputs);
       setSpeakers(audioOutputs);
+      setCameras(videoInputs);
 
       // Set default selections
       if (audioInputs.length > 0 && !selectedMicrophone) {
@@ -78,7 +91,7 @@ const MeetingSetup = ({
   /**
    * Request media permissions and show preview
    */
-  const startMediaPreview = useCallback(async () => {
+  const startMediaPreview = useCallback(async (cameraId = selectedCamera) => {
     setIsLoading(true);
     setPermissionError(null);
 
@@ -91,11 +104,13 @@ const MeetingSetup = ({
         video: {
           width: { ideal: 1280 },
           height: { ideal: 720 },
-          facingMode: "user",
+          ...(cameraId
+            ? { deviceId: { exact: cameraId } }
+            : { facingMode: "user" }),
         },
         audio: {
           echoCancellation: true,
-          noiseSuppression: true,
+          noiseSuppression: audioSettings.noiseSuppression,
           autoGainControl: true,
           deviceId: selectedMicrophone ? { exact: selectedMicrophone } : undefined,
         },
@@ -154,7 +169,13 @@ const MeetingSetup = ({
         setIsLoading(false);
       }
     }
-  }, [stopAllTracks, selectedMicrophone, enumerateDevices]);
+  }, [
+    stopAllTracks,
+    selectedMicrophone,
+    selectedCamera,
+    audioSettings.noiseSuppression,
+    enumerateDevices,
+  ]);
 
   /**
    * Toggle camera on/off
@@ -171,6 +192,17 @@ const MeetingSetup = ({
     }
   }, [isCameraOn, stopAllTracks, startMediaPreview]);
 
+  /**
+   * Switch the previewed camera
+   */
+  const handleCameraChange = useCallback(
+    (deviceId: string) => {
+      setSelectedCamera(deviceId);
+      if (isCameraOn) startMediaPreview(deviceId);
+    },
+    [isCameraOn, startMediaPreview]
+  );
+
   /**
    * Handle microphone mute toggle
    */
@@ -185,21 +217,22 @@ const MeetingSetup = ({
 
   /**
    * Handle join meeting
-   * Save preference to localStorage and clean up tracks
+   * Save preference to the settings store and clean up tracks
    */
   const handleJoinMeeting = useCallback(() => {
-    // Save user preference to localStorage
+    // Save user preference
     const preference: JoinPreference = {
       audio: audioOption !== "none",
       video: isCameraOn,
     };
+    updateSettings("join", preference);
 
-    try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(preference));
-      console.log("💾 Saved join preference:", preference);
-    } catch (error) {
-      console.error("Failed to save preference to localStorage:", error);
-    }
+    // Hand the chosen devices over to the meeting
+    updateSettings("devices", {
+      audioInputId: selectedMicrophone || undefined,
+      videoInputId: selectedCamera || undefined,
+      audioOutputId: selectedSpeaker || undefined,
+    });
 
     // Stop all preview tracks before joining
     stopAllTracks();
@@ -207,7 +240,15 @@ const MeetingSetup = ({
 
     // Proceed to meeting room
     setIsSetupComplete(true);
-  }, [audioOption, isCameraOn, stopAllTracks, setIsSetupComplete]);
+  }, [
+    audioOption,
+    isCameraOn,
+    selectedMicrophone,
+    selectedCamera,
+    selectedSpeaker,
+    stopAllTracks,
+    setIsSetupComplete,
+  ]);
 
   /**
    * Handle cancel
@@ -306,7 +347,9 @@ const MeetingSetup = ({
                   autoPlay
                   playsInline
                   muted
-                  className="w-full h-full object-cover scale-x-[-1]"
+                  className={`w-full h-full object-cover ${
+                    videoSettings.mirrorSelfView ? "scale-x-[-1]" : ""
+                  }`}
                   onLoadedMetadata={() => {
                     console.log("📹 Video metadata loaded");
                   }}
@@ -353,6 +396,21 @@ const MeetingSetup = ({
                 {isCameraOn ? "Camera on" : "Camera off"}
               </span>
             </button>
+            {cameras.length > 0 && (
+              <select
+                value={selectedCamera}
+                onChange={(e) => handleCameraChange(e.target.value)}
+                className="min-w-0 max-w-[220px] bg-dark-1 border border-white/10 rounded-lg px-2 md:px-3 py-2 text-xs md:text-sm text-white focus:outline-none focus:border-blue-1"
+                aria-label="Camera"
+              >
+                <option value="">Default camera</option>
+                {cameras.map((camera) => (
+                  <option key={camera.deviceId} value={camera.deviceId}>
+                    {camera.label || `Camera ${camera.deviceId.slice(0, 8)}`}
+                  </option>
+                ))}
+              </select>
+            )}
             <button className="flex items-center gap-2 px-3 md:px-4 py-2 bg-dark-3 hover:bg-dark-4 rounded-lg transition-colors text-sm">
               <Sparkles size={16} className="text-white md:w-[18px] md:h-[18px]" />
               <span className="text-xs md:text-sm">Effects and avatars</span>
@@ -12,6 +12,7 @@ import MeetingModal from "./MeetingModal";
 import Loader from "./Loader";
 import { Textarea } from "./ui/textarea";
 import { Input } from "./ui/input";
+import { recordCreatedMeeting } from "@/lib/userSettings";
 
 import "react-datepicker/dist/react-datepicker.css";
 
@@ -43,22 +44,19 @@ const MeetingTypeList = () => {
         return;
       }
 
-      // 1. Generate a unique ID locally
-      const id = crypto.randomUUID();
-
-      // 2. ✅ CRITICAL FIX: Save meeting to database BEFORE joining
-      // This ensures the creator is established in the database before any join events
+      // 1. ✅ CRITICAL FIX: Save meeting to database BEFORE joining
+      // This ensures the creator is established in the database before any join events.
+      // The server picks the meeting ID; the signaling room and link use it
+      let id: string;
       try {
-        const apiUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:8080";
-        const response = await fetch(`${apiUrl}/api/meetings`, {
+        const description = values.description || "Instant Meeting";
+        const response = await fetch("/api/meetings", {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            id,
-            userId: user.id,
-            description: values.description || "Instant Meeting",
+            description,
             startsAt: values.dateTime,
           }),
         });
@@ -70,24 +68,35 @@ const MeetingTypeList = () => {
           return;
         }
 
-        const data = await response.json();
+        const data: { meeting: { id: string } } = await response.json();
         console.log("✅ Meeting created in database:", data);
+        id = data.meeting.id;
+
+        // The signaling server keeps its own copy for creator detection on join
+        const apiUrl = process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:8080";
+        const signalingResponse = await fetch(`${apiUrl}/api/meetings`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            id,
+            userId: user.id,
+            description,
+            startsAt: values.dateTime,
+          }),
+        }).catch(() => null);
+        if (!signalingResponse?.ok) {
+          console.warn("⚠️ Signaling server did not register the meeting");
+        }
 
-        // Also store in localStorage for offline detection
-        const createdMeetings = JSON.parse(
-          localStorage.getItem("created-meetings") || "[]"
-        );
-        createdMeetings.push({
+        // Also remember it locally for offline creator detection
+        recordCreatedMeeting({
           id,
           createdBy: user.id,
           createdAt: new Date().toISOString(),
-          description: values.description || "Instant Meeting",
+          description,
         });
-        localStorage.setItem(
-          "created-meetings",
-          JSON.stringify(createdMeetings)
-        );
-        console.log("✅ Meeting also stored in localStorage for backup");
       } catch (err) {
         console.error("❌ Error creating meeting:", err);
         toast.error("Failed to create meeting - please try again");
@@ -96,7 +105,7 @@ const MeetingTypeList = () => {
 
       setGeneratedMeetingId(id);
 
-      // 3. If it's an instant meeting, go straight to the room
+      // 2. If it's an instant meeting, go straight to the room
       if (!values.description && meetingState === "isInstantMeeting") {
         router.push(`/meeting/${id}`);
       }
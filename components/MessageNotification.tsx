@@ -2,17 +2,20 @@
 
 import { useEffect, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { X } from "lucide-react";
+import { Lock, X } from "lucide-react";
 import { ReceivedMessage } from "@/hooks/useSocketChat";
 
 interface MessageNotificationProps {
   message: ReceivedMessage;
+  /** Unread messages in this message's conversation, including this one */
+  conversationUnread?: number;
   onClose: () => void;
   onClick: () => void;
 }
 
 const MessageNotification = ({
   message,
+  conversationUnread = 0,
   onClose,
   onClick,
 }: MessageNotificationProps) => {
@@ -88,8 +91,21 @@ const MessageNotification = ({
         {/* Content */}
         <div className="flex-1 min-w-0">
           <div className="flex items-center justify-between mb-1">
-            <span className="font-semibold text-white text-sm truncate">
-              {message.message.sender.name}
+            <span className="flex items-center gap-1.5 min-w-0">
+              <span className="font-semibold text-white text-sm truncate">
+                {message.message.sender.name}
+              </span>
+              {message.message.recipient && (
+                <span className="flex items-center gap-0.5 shrink-0 rounded-full bg-purple-600/30 px-1.5 text-[10px] text-purple-200">
+                  <Lock size={9} />
+                  Private
+                </span>
+              )}
+              {conversationUnread > 1 && (
+                <span className="shrink-0 text-[10px] text-gray-400">
+                  {conversationUnread} new
+                </span>
+              )}
             </span>
             <button
               onClick={handleClose}
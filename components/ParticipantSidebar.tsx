@@ -25,7 +25,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { cn } from "@/lib/utils";
 import { useHostControls } from "@/hooks/useHostControls";
+import type { GivingMomentControls } from "@/hooks/useGivingMoment";
 import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import type { AppSocket } from "@/lib/socketEvents";
+import GivingMomentPanel from "./GivingMomentPanel";
 
 interface Participant {
   id: string;
@@ -39,8 +42,9 @@ interface Participant {
 
 interface ParticipantSidebarProps {
   participants: Participant[];
-  socket: any;
+  socket: AppSocket | null;
   roomId: string;
+  givingMoment: GivingMomentControls;
   open: boolean;
   onClose: () => void;
 }
@@ -49,6 +53,7 @@ const ParticipantSidebar = ({
   participants,
   socket,
   roomId,
+  givingMoment,
   open,
   onClose,
 }: ParticipantSidebarProps) => {
@@ -61,6 +66,7 @@ const ParticipantSidebar = ({
     removeCoHost,
     isHost: contextIsHost,
     isCoHost: contextIsCoHost,
+    isOwner,
   } = useMediasoupContext();
 
   const {
@@ -201,6 +207,15 @@ const ParticipantSidebar = ({
           </DropdownMenu>
         )}
 
+        {/* Giving moment and running total */}
+        {hasHostPrivileges && (
+          <GivingMomentPanel
+            roomId={roomId}
+            givingMoment={givingMoment}
+            isOwner={isOwner}
+          />
+        )}
+
         {/* Individual Controls Toggle */}
         {hasHostPrivileges && (
           <button
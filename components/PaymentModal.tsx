@@ -1,20 +1,24 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { X, CreditCard, Loader2, CheckCircle2, XCircle } from "lucide-react";
+import { X, CreditCard, Loader2, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
+import { getSocket } from "@/lib/socket";
+import type { PaymentStatusPayload } from "@/lib/socketEvents";
+import type { AccountType } from "@/hooks/useGiving";
 
 interface PaymentModalProps {
-  userId: string;
-  userName?: string;
+  /** Meeting the payment is made from, recorded with the transaction */
+  roomId?: string;
+  /** Preselected account, e.g. the one a host's giving moment asks for */
+  defaultAccountType?: AccountType;
   isOpen: boolean;
   onClose?: () => void;
   onSuccess?: (transactionId: string) => void;
   onError?: (error: string) => void;
 }
 
-type AccountType = "OFFERING" | "TITHE" | "PARTNERSHIP" | "MISSIONS";
 type PaymentStatus =
   | "idle"
   | "loading"
@@ -22,9 +26,32 @@ type PaymentStatus =
   | "success"
   | "error";
 
+type PaymentResult = Omit<PaymentStatusPayload, "checkoutRequestId">;
+
+type PaymentField = "phoneNumber" | "amount" | "accountReference";
+
+/** A rejected payment request; field names the input to show it under */
+interface PaymentError {
+  message: string;
+  field?: PaymentField;
+}
+
+interface PendingPayment {
+  checkoutRequestId: string;
+  /** Lets our socket subscribe to "payment-status" for this payment */
+  statusToken: string;
+}
+
+// The server pushes "payment-status" when M-Pesa calls back; polling the
+// status route is only a fallback, slower while the socket is connected
+const POLL_INTERVAL_MS = 5000;
+const POLL_INTERVAL_CONNECTED_MS = 15000;
+const STILL_WAITING_AFTER_MS = 90 * 1000;
+const STOP_POLLING_AFTER_MS = 10 * 60 * 1000;
+
 export default function PaymentModal({
-  userId,
-  userName,
+  roomId,
+  defaultAccountType = "OFFERING",
   isOpen,
   onClose,
   onSuccess,
@@ -32,288 +59,326 @@ export default function PaymentModal({
 }: PaymentModalProps) {
   const [phoneNumber, setPhoneNumber] = useState("");
   const [amount, setAmount] = useState("");
-  const [accountType, setAccountType] = useState<AccountType>("OFFERING");
+  const [accountType, setAccountType] =
+    useState<AccountType>(defaultAccountType);
+  // Gifts are anonymous to the meeting's host unless the giver opts in
+  const [showName, setShowName] = useState(false);
   const [status, setStatus] = useState<PaymentStatus>("idle");
-  const [checkoutRequestId, setCheckoutRequestId] = useState<string | null>(
+  const [pendingPayment, setPendingPayment] = useState<PendingPayment | null>(
     null
   );
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const pollingCountRef = useRef<number>(0);
-  const hasShownSuccessRef = useRef<boolean>(false);
-  const maxPollingAttempts = 12; // 12 attempts × 5 seconds = 60 seconds
+  const [paymentError, setPaymentError] = useState<PaymentError | null>(null);
+  // Socket and poll can both report the same outcome; only the first counts
+  const hasSettledRef = useRef<boolean>(false);
+  // One key per payment attempt: a retry after a dropped response or a
+  // double tap reuses it, so the server never sends a second STK Push
+  const idempotencyKeyRef = useRef<string | null>(null);
+  const isSubmittingRef = useRef<boolean>(false);
+
+  // Editing the form makes it a different payment
+  const editForm = () => {
+    idempotencyKeyRef.current = null;
+    setPaymentError(null);
+  };
 
-  // Cleanup polling on unmount or when modal closes
-  useEffect(() => {
-    if (!isOpen) {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
-      pollingCountRef.current = 0;
-      hasShownSuccessRef.current = false;
-    }
-  }, [isOpen]);
+  const showThankYou = (payment: NonNullable<PaymentResult["data"]>) => {
+    // Format amount with currency
+    const formattedAmount = new Intl.NumberFormat("en-KE", {
+      style: "currency",
+      currency: "KES",
+    }).format(payment.amount);
+
+    // Beautiful church-appropriate thank you message with custom styling
+    toast.custom(
+      (t) => (
+        <div className="bg-gradient-to-br from-green-50 to-emerald-50 border-2 border-green-400 rounded-xl shadow-2xl p-6 max-w-md mx-auto relative animate-in slide-in-from-top-5">
+          {/* Close button */}
+          <button
+            onClick={() => toast.dismiss(t)}
+            className="absolute top-3 right-3 text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
 
-  const checkPaymentStatus = async (requestId: string) => {
-    try {
-      const baseUrl =
-        process.env.NEXT_PUBLIC_SOCKET_URL?.replace(/\/$/, "") || "";
-      const response = await fetch(`${baseUrl}/api/mpesa/status/${requestId}`);
+          {/* Header with icon */}
+          <div className="flex items-center gap-3 mb-4">
+            <div className="bg-green-500 rounded-full p-3">
+              <CheckCircle2 className="w-8 h-8 text-white" />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-green-800">
+                Payment Successful!
+              </h3>
+              <p className="text-sm text-green-600">
+                Transaction completed
+              </p>
+            </div>
+          </div>
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+          {/* Divider */}
+          <div className="border-t border-green-200 my-4"></div>
+
+          {/* Thank you message */}
+          <div className="space-y-3">
+            <p className="text-lg text-gray-700 leading-relaxed">
+              🙏 <span className="font-semibold">Thank you</span> for your
+              generous giving of{" "}
+              <span className="font-bold text-green-700">
+                {formattedAmount}
+              </span>
+              !
+            </p>
+
+            <p className="text-base text-gray-600 italic">
+              God bless you abundantly. Your support helps further the
+              Kingdom.
+            </p>
+
+            {/* Receipt info */}
+            <div className="bg-white rounded-lg p-3 border border-green-200 mt-4">
+              <p className="text-sm text-gray-500">M-Pesa Receipt</p>
+              <p className="text-lg font-mono font-bold text-gray-800">
+                {payment.mpesaReceiptNumber || "Processing..."}
+              </p>
+              {!payment.mpesaReceiptNumber && (
+                <p className="text-xs text-gray-400 mt-1">
+                  Receipt will be available shortly
+                </p>
+              )}
+            </div>
+
+            {/* Blessing */}
+            <p className="text-center text-sm text-green-600 font-medium mt-4">
+              ✨ May the Lord bless you and keep you ✨
+            </p>
+          </div>
+        </div>
+      ),
+      {
+        duration: Infinity, // Won't auto-dismiss - user must click X
+        position: "top-center", // Prominent position
       }
+    );
+  };
 
-      const data = await response.json();
+  const applyPaymentResult = (result: PaymentResult) => {
+    if (result.status === "PENDING" || hasSettledRef.current) return;
+    hasSettledRef.current = true;
 
-      console.log("💰 Payment status check:", {
-        requestId,
-        attempt: pollingCountRef.current + 1,
-        response: data,
-      });
+    if (result.status === "SUCCESS" && result.data) {
+      setStatus("success");
 
-      pollingCountRef.current += 1;
+      // Handle empty id - use mpesaReceiptNumber as fallback
+      const transactionId =
+        result.data.id || result.data.mpesaReceiptNumber || "N/A";
 
-      if (data.status === "SUCCESS" && data.data) {
-        // Payment successful
-        setStatus("success");
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
+      console.log("✅ Payment successful:", {
+        transactionId,
+        receipt: result.data.mpesaReceiptNumber,
+        amount: result.data.amount,
+      });
 
-        // Prevent showing multiple success messages
-        if (hasShownSuccessRef.current) {
-          return;
-        }
-        hasShownSuccessRef.current = true;
-
-        // Format amount with currency
-        const formattedAmount = new Intl.NumberFormat("en-KE", {
-          style: "currency",
-          currency: "KES",
-        }).format(data.data.amount);
-
-        // Handle empty id - use mpesaReceiptNumber as fallback
-        const transactionId =
-          data.data.id || data.data.mpesaReceiptNumber || "N/A";
-
-        console.log("✅ Payment successful:", {
-          transactionId,
-          receipt: data.data.mpesaReceiptNumber,
-          amount: data.data.amount,
-        });
-
-        // Beautiful church-appropriate thank you message with custom styling
-        toast.custom(
-          (t) => (
-            <div className="bg-gradient-to-br from-green-50 to-emerald-50 border-2 border-green-400 rounded-xl shadow-2xl p-6 max-w-md mx-auto relative animate-in slide-in-from-top-5">
-              {/* Close button */}
-              <button
-                onClick={() => toast.dismiss(t)}
-                className="absolute top-3 right-3 text-gray-500 hover:text-gray-700 transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-
-              {/* Header with icon */}
-              <div className="flex items-center gap-3 mb-4">
-                <div className="bg-green-500 rounded-full p-3">
-                  <CheckCircle2 className="w-8 h-8 text-white" />
-                </div>
-                <div>
-                  <h3 className="text-xl font-bold text-green-800">
-                    Payment Successful!
-                  </h3>
-                  <p className="text-sm text-green-600">
-                    Transaction completed
-                  </p>
-                </div>
-              </div>
-
-              {/* Divider */}
-              <div className="border-t border-green-200 my-4"></div>
-
-              {/* Thank you message */}
-              <div className="space-y-3">
-                <p className="text-lg text-gray-700 leading-relaxed">
-                  🙏 <span className="font-semibold">Thank you</span> for your
-                  generous giving of{" "}
-                  <span className="font-bold text-green-700">
-                    {formattedAmount}
-                  </span>
-                  !
-                </p>
+      showThankYou(result.data);
+      if (onSuccess) {
+        onSuccess(transactionId);
+      }
+      setTimeout(() => {
+        handleClose();
+      }, 2000);
+      return;
+    }
 
-                <p className="text-base text-gray-600 italic">
-                  God bless you abundantly. Your support helps further the
-                  Kingdom.
-                </p>
+    // Transaction not found or failed; trying again is a new attempt
+    setStatus("error");
+    setPendingPayment(null);
+    idempotencyKeyRef.current = null;
+    const errorMsg = result.message || "Transaction failed";
+    toast.error(errorMsg);
+    if (onError) {
+      onError(errorMsg);
+    }
+  };
 
-                {/* Receipt info */}
-                <div className="bg-white rounded-lg p-3 border border-green-200 mt-4">
-                  <p className="text-sm text-gray-500">M-Pesa Receipt</p>
-                  <p className="text-lg font-mono font-bold text-gray-800">
-                    {data.data.mpesaReceiptNumber || "Processing..."}
-                  </p>
-                  {!data.data.mpesaReceiptNumber && (
-                    <p className="text-xs text-gray-400 mt-1">
-                      Receipt will be available shortly
-                    </p>
-                  )}
-                </div>
-
-                {/* Blessing */}
-                <p className="text-center text-sm text-green-600 font-medium mt-4">
-                  ✨ May the Lord bless you and keep you ✨
-                </p>
-              </div>
-            </div>
-          ),
-          {
-            duration: Infinity, // Won't auto-dismiss - user must click X
-            position: "top-center", // Prominent position
-          }
-        );
+  // Socket listeners and timers outlive a render
+  const applyPaymentResultRef = useRef(applyPaymentResult);
+  useEffect(() => {
+    applyPaymentResultRef.current = applyPaymentResult;
+  });
 
-        if (onSuccess) {
-          onSuccess(transactionId);
-        }
-        setTimeout(() => {
-          handleClose();
-        }, 2000);
-      } else if (data.status === "NOT_FOUND" || data.status === "FAILED") {
-        // Transaction not found or failed - error
-        setStatus("error");
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
-        const errorMsg = data.message || "Transaction failed";
-        toast.error(errorMsg);
-        if (onError) {
-          onError(errorMsg);
-        }
-      } else if (data.status === "PENDING") {
-        // Still pending - continue polling
-        if (pollingCountRef.current >= maxPollingAttempts) {
-          // Timeout reached
-          setStatus("idle");
-          if (pollingIntervalRef.current) {
-            clearInterval(pollingIntervalRef.current);
-            pollingIntervalRef.current = null;
+  // ----------------------------
+  // WAIT FOR THE OUTCOME
+  // ----------------------------
+  useEffect(() => {
+    if (!pendingPayment) return;
+
+    const { checkoutRequestId, statusToken } = pendingPayment;
+    const socket = getSocket();
+    const startedAt = Date.now();
+    let pollTimer: NodeJS.Timeout | null = null;
+    let stillWaitingShown = false;
+
+    const handlePaymentStatus = (data: PaymentStatusPayload) => {
+      if (data.checkoutRequestId !== checkoutRequestId) return;
+      console.log("💰 Payment status pushed:", data.status);
+      applyPaymentResultRef.current(data);
+    };
+
+    const subscribe = () => {
+      socket.emit(
+        "subscribe-payment-status",
+        { checkoutRequestId, statusToken },
+        (response) => {
+          if (response?.error) {
+            console.warn("⚠️ Payment status subscription failed:", response.error);
           }
-          toast.warning(
-            "Payment verification timeout. Please check your transaction history."
-          );
         }
-        // Otherwise continue polling
+      );
+    };
+
+    const checkPaymentStatus = async () => {
+      try {
+        const response = await fetch(`/api/mpesa/status/${checkoutRequestId}`);
+        // 404 carries a NOT_FOUND status
+        if (!response.ok && response.status !== 404) {
+          throw new Error(`HTTP error! status: ${response.status}`);
+        }
+        applyPaymentResultRef.current(await response.json());
+      } catch (error) {
+        // Transient: the next poll or the socket will get there
+        console.error("❌ Error checking payment status:", error);
       }
-    } catch (error) {
-      console.error("❌ Error checking payment status:", error);
-      pollingCountRef.current += 1;
+    };
 
-      if (pollingCountRef.current >= maxPollingAttempts) {
-        setStatus("error");
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
-        const errorMsg = "Failed to verify payment status";
-        toast.error(errorMsg);
-        if (onError) {
-          onError(errorMsg);
-        }
+    const schedulePoll = () => {
+      const elapsed = Date.now() - startedAt;
+      if (hasSettledRef.current) return;
+
+      if (elapsed > STILL_WAITING_AFTER_MS && !stillWaitingShown) {
+        stillWaitingShown = true;
+        toast.info(
+          "Still waiting for M-Pesa to confirm. We'll let you know here as soon as it does."
+        );
       }
-    }
-  };
+      if (elapsed > STOP_POLLING_AFTER_MS) {
+        // Keep listening on the socket in case the callback is very late
+        setStatus("idle");
+        toast.warning(
+          "M-Pesa hasn't confirmed this payment yet. If it went through you'll get an M-Pesa SMS, and we'll show it here when it arrives."
+        );
+        return;
+      }
+
+      pollTimer = setTimeout(
+        async () => {
+          await checkPaymentStatus();
+          schedulePoll();
+        },
+        socket.connected ? POLL_INTERVAL_CONNECTED_MS : POLL_INTERVAL_MS
+      );
+    };
+
+    socket.on("payment-status", handlePaymentStatus);
+    // Subscriptions don't survive a reconnect
+    socket.on("connect", subscribe);
+    if (socket.connected) subscribe();
+    schedulePoll();
+
+    return () => {
+      if (pollTimer) clearTimeout(pollTimer);
+      socket.off("payment-status", handlePaymentStatus);
+      socket.off("connect", subscribe);
+      socket.emit("unsubscribe-payment-status", { checkoutRequestId });
+    };
+  }, [pendingPayment]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (isSubmittingRef.current) return;
+    isSubmittingRef.current = true;
     setStatus("loading");
+    setPaymentError(null);
 
-    try {
-      const baseUrl =
-        process.env.NEXT_PUBLIC_SOCKET_URL?.replace(/\/$/, "") || "";
-      const apiUrl = `${baseUrl}/api/mpesa/initiate`;
-      console.log("🔗 Calling M-Pesa API:", apiUrl);
+    idempotencyKeyRef.current ??= crypto.randomUUID();
 
-      const response = await fetch(apiUrl, {
+    try {
+      const response = await fetch("/api/mpesa/initiate", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          "Idempotency-Key": idempotencyKeyRef.current,
         },
         body: JSON.stringify({
-          userId,
-          userName: userName || "Anonymous",
           phoneNumber,
-          amount: parseFloat(amount),
+          amount: Number(amount),
           accountReference: accountType,
+          roomId,
+          showName,
         }),
       });
 
       console.log("📡 M-Pesa API Response Status:", response.status);
 
-      // Check if response is JSON
-      const contentType = response.headers.get("content-type");
-      if (!contentType || !contentType.includes("application/json")) {
-        const text = await response.text();
-        console.error("❌ Expected JSON but got:", text.substring(0, 200));
-        throw new Error(
-          `API returned HTML instead of JSON. Check that NEXT_PUBLIC_SOCKET_URL (${process.env.NEXT_PUBLIC_SOCKET_URL}) is correct and the endpoint exists.`
-        );
-      }
-
-      const result = await response.json();
+      const result = await response.json().catch(() => ({}));
       console.log("📦 M-Pesa API Result:", result);
 
       if (response.ok && result.success && result.data) {
-        const { checkoutRequestId: reqId } = result.data;
-        setCheckoutRequestId(reqId);
+        const { checkoutRequestId, statusToken } = result.data;
+        hasSettledRef.current = false;
+        setPendingPayment({ checkoutRequestId, statusToken });
         setStatus("checkingStatus");
 
         // Show toast
-        toast.info("Check your phone for M-Pesa PIN prompt", {
-          duration: 5000,
-        });
-
-        // Start polling after 5 seconds
-        pollingCountRef.current = 0;
-        setTimeout(() => {
-          pollingIntervalRef.current = setInterval(() => {
-            checkPaymentStatus(reqId);
-          }, 5000);
-        }, 5000);
+        toast.info(
+          result.replayed
+            ? "Already sent - check your phone for the M-Pesa PIN prompt"
+            : "Check your phone for M-Pesa PIN prompt",
+          { duration: 5000 }
+        );
       } else {
         setStatus("error");
         const errorMsg = result.message || "Failed to initiate payment";
-        toast.error(errorMsg);
+        // A refused request won't change on retry, except a 409 (still
+        // sending) or a server error, where the push may yet have gone out
+        if (response.status !== 409 && response.status < 500) {
+          idempotencyKeyRef.current = null;
+        }
+        setPaymentError({ message: errorMsg, field: result.field });
+        if (!result.field) toast.error(errorMsg);
         if (onError) {
           onError(errorMsg);
         }
       }
-    } catch (error: any) {
+    } catch (error) {
+      // Keep the key: the push may have gone out before the connection dropped
       setStatus("error");
       const errorMsg =
-        error.message || "An error occurred while initiating payment";
+        (error instanceof Error && error.message) ||
+        "An error occurred while initiating payment";
+      setPaymentError({ message: errorMsg });
       toast.error(errorMsg);
       if (onError) {
         onError(errorMsg);
       }
+    } finally {
+      isSubmittingRef.current = false;
     }
   };
 
+  const fieldError = (field: PaymentField) =>
+    paymentError?.field === field && (
+      <p className="mt-1 text-xs text-red-400">{paymentError.message}</p>
+    );
+
   const resetForm = () => {
     setPhoneNumber("");
     setAmount("");
-    setAccountType("OFFERING");
+    setAccountType(defaultAccountType);
+    setShowName(false);
     setStatus("idle");
-    setCheckoutRequestId(null);
-    pollingCountRef.current = 0;
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
+    setPendingPayment(null);
+    setPaymentError(null);
+    hasSettledRef.current = false;
+    idempotencyKeyRef.current = null;
   };
 
   const handleClose = () => {
@@ -360,15 +425,24 @@ export default function PaymentModal({
             <input
               type="tel"
               value={phoneNumber}
-              onChange={(e) => setPhoneNumber(e.target.value)}
+              onChange={(e) => {
+                setPhoneNumber(e.target.value);
+                editForm();
+              }}
               placeholder="0712345678 or 254712345678"
-              className="w-full px-4 py-3 bg-dark-2 border border-gray-300 rounded-lg text-white placeholder-gray-500 focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none transition"
+              className={cn(
+                "w-full px-4 py-3 bg-dark-2 border border-gray-300 rounded-lg text-white placeholder-gray-500 focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none transition",
+                paymentError?.field === "phoneNumber" && "border-red-500"
+              )}
               required
+              aria-invalid={paymentError?.field === "phoneNumber"}
               disabled={status === "loading" || status === "checkingStatus"}
             />
-            <p className="mt-1 text-xs text-gray-500">
-              Enter your M-Pesa number
-            </p>
+            {fieldError("phoneNumber") || (
+              <p className="mt-1 text-xs text-gray-500">
+                Enter your Safaricom M-Pesa number
+              </p>
+            )}
           </div>
 
           {/* Amount */}
@@ -379,14 +453,22 @@ export default function PaymentModal({
             <input
               type="number"
               value={amount}
-              onChange={(e) => setAmount(e.target.value)}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                editForm();
+              }}
               placeholder="100"
               min="1"
               step="1"
-              className="w-full px-4 py-3 bg-dark-2 border border-gray-300 rounded-lg text-white placeholder-gray-500 focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none transition"
+              className={cn(
+                "w-full px-4 py-3 bg-dark-2 border border-gray-300 rounded-lg text-white placeholder-gray-500 focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none transition",
+                paymentError?.field === "amount" && "border-red-500"
+              )}
               required
+              aria-invalid={paymentError?.field === "amount"}
               disabled={status === "loading" || status === "checkingStatus"}
             />
+            {fieldError("amount")}
           </div>
 
           {/* Account Type */}
@@ -396,7 +478,10 @@ export default function PaymentModal({
             </label>
             <select
               value={accountType}
-              onChange={(e) => setAccountType(e.target.value as AccountType)}
+              onChange={(e) => {
+                setAccountType(e.target.value as AccountType);
+                editForm();
+              }}
               className="w-full px-4 py-3 bg-dark-2 border border-gray-300 rounded-lg text-white focus:border-green-500 focus:ring-1 focus:ring-green-500 outline-none transition"
               disabled={status === "loading" || status === "checkingStatus"}
             >
@@ -405,8 +490,32 @@ export default function PaymentModal({
               <option value="PARTNERSHIP">Partnership</option>
               <option value="MISSIONS">Missions</option>
             </select>
+            {fieldError("accountReference")}
           </div>
 
+          {/* Named or anonymous, for gifts made in a meeting */}
+          {roomId && (
+            <label className="flex items-start gap-3 text-sm text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showName}
+                onChange={(e) => {
+                  setShowName(e.target.checked);
+                  editForm();
+                }}
+                className="mt-0.5 h-4 w-4 accent-green-500"
+                disabled={status === "loading" || status === "checkingStatus"}
+              />
+              <span>
+                Show my name and amount to the host
+                <span className="block text-xs text-gray-500">
+                  Otherwise your gift only counts towards the meeting&apos;s
+                  total
+                </span>
+              </span>
+            </label>
+          )}
+
           {/* Info Message */}
           <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-3">
             <p className="text-xs text-green-400">
@@ -5,17 +5,20 @@ import { createPortal } from "react-dom";
 import ReactionPopup from "./ReactionPopup";
 import { motion, AnimatePresence } from "framer-motion";
 import { cn } from "@/lib/utils";
+import type { SkinTone } from "@/lib/userSettings";
 
 type Props = {
   onReact?: (event: { emoji: string; sessionId?: string | null }) => void;
   className?: string;
   sessionId?: string | null; // optional context when reacting to a specific tile
+  skinTone?: SkinTone;
 };
 
 const ReactionButton: React.FC<Props> = ({
   onReact,
   className,
   sessionId = null,
+  skinTone,
 }) => {
   const [open, setOpen] = useState(false);
   const [popupPosition, setPopupPosition] = useState<{
@@ -179,6 +182,7 @@ const ReactionButton: React.FC<Props> = ({
               onSelect={handleSelect}
               onClose={() => setOpen(false)}
               anchorClassName="min-w-[280px] sm:min-w-[320px]"
+              skinTone={skinTone}
             />
           </div>,
           document.body
@@ -1,12 +1,14 @@
 // components/ReactionPopup.tsx
 import React, { useEffect, useRef, useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { withSkinTone, type SkinTone } from "@/lib/userSettings";
 
 type Props = {
   emojis?: string[];
   onSelect: (emoji: string) => void;
   onClose?: () => void;
   anchorClassName?: string;
+  skinTone?: SkinTone;
 };
 
 const DEFAULT_EMOJIS = ["❤️", "😂", "👍", "👏", "🎉", "😮", "🔥", "😢", "🎈"];
@@ -16,6 +18,7 @@ const ReactionPopup: React.FC<Props> = ({
   onSelect,
   onClose,
   anchorClassName,
+  skinTone = "default",
 }) => {
   const gridRef = useRef<HTMLDivElement | null>(null);
   const btnsRef = useRef<(HTMLButtonElement | null)[]>([]);
@@ -26,6 +29,8 @@ const ReactionPopup: React.FC<Props> = ({
     btnsRef.current[0]?.focus();
   }, []);
 
+  const tonedEmojis = emojis.map((emoji) => withSkinTone(emoji, skinTone));
+
   const onKeyDown = (e: React.KeyboardEvent) => {
     const idx = btnsRef.current.findIndex((b) => b === document.activeElement);
     if (e.key === "ArrowRight") {
@@ -87,7 +92,7 @@ const ReactionPopup: React.FC<Props> = ({
         }}
       />
 
-      {emojis.map((emoji, i) => (
+      {tonedEmojis.map((emoji, i) => (
         <motion.button
           key={emoji}
           ref={(el) => {
@@ -0,0 +1,45 @@
+"use client";
+
+import { useUser } from "@clerk/nextjs";
+import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { cn } from "@/lib/utils";
+
+// Shown to everyone whenever anyone in the room is recording
+const RecordingIndicator = () => {
+  const { user } = useUser();
+  const { recordingUsers, connectionStatus } = useMediasoupContext();
+
+  if (recordingUsers.length === 0) return null;
+
+  const isSelfRecording = recordingUsers.some((r) => r.userId === user?.id);
+  const others = recordingUsers.filter((r) => r.userId !== user?.id);
+
+  let label: string;
+  if (isSelfRecording && others.length === 0) {
+    label = "You are recording";
+  } else if (recordingUsers.length === 1) {
+    label = `${recordingUsers[0].userName} is recording`;
+  } else {
+    label = `${recordingUsers.length} people are recording`;
+  }
+
+  return (
+    <div
+      role="status"
+      className={cn(
+        "fixed left-1/2 -translate-x-1/2 z-[105] flex items-center gap-2 bg-black/70 border border-red-500/40 text-white text-xs sm:text-sm px-3 py-1.5 rounded-xl shadow-2xl backdrop-blur-md",
+        // Sit below the connection banner while it's showing
+        connectionStatus === "connected" ? "top-4" : "top-16"
+      )}
+    >
+      <span className="relative flex h-2.5 w-2.5">
+        <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-red-500 opacity-75" />
+        <span className="relative inline-flex h-2.5 w-2.5 rounded-full bg-red-500" />
+      </span>
+      <span className="font-semibold text-red-400">REC</span>
+      <span className="text-gray-200">{label}</span>
+    </div>
+  );
+};
+
+export default RecordingIndicator;
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  Download,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Trash2,
+} from "lucide-react";
+
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import type { Recording } from "@/hooks/useGetCalls";
+import { cn, formatDuration, formatFileSize } from "@/lib/utils";
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const RecordingPlayer = ({ recordingId }: { recordingId: string }) => {
+  const router = useRouter();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
+  // The meeting's owner can delete recordings others made in their meeting
+  const [canDelete, setCanDelete] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState("");
+  const [showDelete, setShowDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    const loadRecording = async () => {
+      try {
+        const response = await fetch(`/api/recordings/${recordingId}`);
+        if (response.status === 404) {
+          setNotFound(true);
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`Failed to load recording (${response.status})`);
+        }
+        const data: {
+          recording: Recording;
+          isOwner: boolean;
+          canDelete: boolean;
+        } = await response.json();
+        setRecording(data.recording);
+        setIsOwner(data.isOwner);
+        setCanDelete(data.canDelete);
+        setDuration(data.recording.durationMs / 1000);
+      } catch (error) {
+        console.error("Error fetching recording:", error);
+        toast.error("Couldn't load this recording");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadRecording();
+  }, [recordingId]);
+
+  // MediaRecorder WebM files carry no duration, so the browser reports
+  // Infinity until it has scanned to the end. Seek far past the end once to
+  // make it work the real duration out, then jump back to the start.
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (Number.isFinite(video.duration)) {
+      setDuration(video.duration);
+      return;
+    }
+
+    const handleDurationKnown = () => {
+      if (!Number.isFinite(video.duration)) return;
+      video.removeEventListener("durationchange", handleDurationKnown);
+      setDuration(video.duration);
+      video.currentTime = 0;
+    };
+    video.addEventListener("durationchange", handleDurationKnown);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((error) => console.error("Playback failed:", error));
+    } else {
+      video.pause();
+    }
+  };
+
+  const handleSeek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = seconds;
+    setPosition(seconds);
+  };
+
+  const handleRateChange = (rate: number) => {
+    if (videoRef.current) videoRef.current.playbackRate = rate;
+    setPlaybackRate(rate);
+  };
+
+  const saveTitle = async () => {
+    const title = titleDraft.trim();
+    if (!recording || !title || title === recording.title) {
+      setIsRenaming(false);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/recordings/${recording.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ title }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || `Rename failed (${response.status})`);
+      }
+      const data: { recording: Recording } = await response.json();
+      setRecording(data.recording);
+      setIsRenaming(false);
+      toast.success("Recording renamed");
+    } catch (error) {
+      console.error("Failed to rename recording:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Couldn't rename recording"
+      );
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!recording) return;
+    setIsDeleting(true);
+    try {
+      const response = await fetch(`/api/recordings/${recording.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        throw new Error(`Delete failed (${response.status})`);
+      }
+      toast.success("Recording deleted");
+      router.push("/recordings");
+    } catch (error) {
+      console.error("Failed to delete recording:", error);
+      toast.error("Couldn't delete recording");
+      setIsDeleting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-64 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-white" />
+      </div>
+    );
+  }
+
+  if (notFound || !recording) {
+    return (
+      <section className="flex flex-col gap-4 text-white">
+        <h1 className="text-2xl font-bold">Recording not found</h1>
+        <p className="text-gray-400">
+          It may have been deleted, or you don&apos;t have access to it.
+        </p>
+        <Button className="w-fit bg-dark-3" onClick={() => router.push("/recordings")}>
+          Back to Recordings
+        </Button>
+      </section>
+    );
+  }
+
+  return (
+    <section className="flex w-full flex-col gap-6 text-white xl:max-w-[1000px]">
+      {/* TITLE + ACTIONS */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        {isRenaming ? (
+          <form
+            className="flex flex-1 items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveTitle();
+            }}
+          >
+            <Input
+              autoFocus
+              value={titleDraft}
+              maxLength={200}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onKeyDown={(e) => e.key === "Escape" && setIsRenaming(false)}
+              className="border-none bg-dark-3 text-white focus-visible:ring-0 focus-visible:ring-offset-0"
+            />
+            <Button type="submit" className="bg-blue-1">
+              Save
+            </Button>
+          </form>
+        ) : (
+          <h1 className="text-2xl font-bold lg:text-3xl">{recording.title}</h1>
+        )}
+
+        <div className="flex gap-2">
+          {isOwner && !isRenaming && (
+            <Button
+              className="bg-dark-3"
+              onClick={() => {
+                setTitleDraft(recording.title);
+                setIsRenaming(true);
+              }}
+            >
+              <Pencil className="h-4 w-4" />
+              Rename
+            </Button>
+          )}
+          <Button className="bg-dark-3" asChild>
+            <a href={recording.url} download={recording.filename}>
+              <Download className="h-4 w-4" />
+              Download
+            </a>
+          </Button>
+          {canDelete && (
+            <Button
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => setShowDelete(true)}
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* PLAYER */}
+      <div className="overflow-hidden rounded-2xl border border-white/10 bg-black">
+        <video
+          ref={videoRef}
+          src={recording.url}
+          className="aspect-video w-full bg-black"
+          onClick={togglePlay}
+          onLoadedMetadata={handleLoadedMetadata}
+          onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onEnded={() => setIsPlaying(false)}
+          playsInline
+        />
+
+        <div className="flex items-center gap-3 bg-dark-1 px-4 py-3">
+          <button
+            onClick={togglePlay}
+            className="rounded-lg bg-dark-3 p-2 transition hover:bg-dark-4"
+            aria-label={isPlaying ? "Pause" : "Play"}
+          >
+            {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          </button>
+
+          <span className="w-24 text-xs tabular-nums text-gray-300">
+            {formatDuration(position * 1000)} / {formatDuration(duration * 1000)}
+          </span>
+
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={Math.min(position, duration || 0)}
+            onChange={(e) => handleSeek(Number(e.target.value))}
+            className="flex-1 accent-blue-500"
+            aria-label="Seek"
+          />
+
+          <select
+            value={playbackRate}
+            onChange={(e) => handleRateChange(Number(e.target.value))}
+            className="rounded-lg bg-dark-3 px-2 py-1 text-xs text-white"
+            aria-label="Playback speed"
+          >
+            {PLAYBACK_RATES.map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}x
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* METADATA */}
+      <dl className="grid grid-cols-2 gap-4 rounded-2xl bg-dark-1 p-5 text-sm md:grid-cols-4">
+        {[
+          ["Recorded", new Date(recording.createdAt).toLocaleString()],
+          ["Length", formatDuration(recording.durationMs)],
+          ["Size", formatFileSize(recording.size)],
+          ["Recorded by", recording.createdByName || (isOwner ? "You" : "Unknown")],
+        ].map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-gray-400">{label}</dt>
+            <dd className={cn("mt-1 font-medium", label === "Recorded by" && "truncate")}>
+              {value}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <Dialog open={showDelete} onOpenChange={setShowDelete}>
+        <DialogContent className="rounded-2xl p-6 bg-[#1c1f2e] border-white/10 text-white max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-xl font-bold">Delete recording?</DialogTitle>
+          </DialogHeader>
+          <p className="text-gray-400 mt-2">
+            &quot;{recording.title}&quot; will be permanently deleted for everyone.
+          </p>
+          <DialogFooter className="flex gap-3 mt-8">
+            <Button
+              variant="ghost"
+              onClick={() => setShowDelete(false)}
+              className="hover:bg-white/10 text-white"
+            >
+              Cancel
+            </Button>
+            <Button
+              className="bg-red-600 hover:bg-red-700 text-white"
+              onClick={confirmDelete}
+              disabled={isDeleting}
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
+
+export default RecordingPlayer;
@@ -0,0 +1,289 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { X, Settings, Mic, Video, Volume2 } from "lucide-react";
+import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import {
+  updateSettings,
+  withSkinTone,
+  type LayoutMode,
+  type SkinTone,
+} from "@/lib/userSettings";
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Speaker selection needs HTMLMediaElement.setSinkId (not in Safari/Firefox)
+const canSelectSpeaker = () =>
+  typeof window !== "undefined" &&
+  "setSinkId" in HTMLMediaElement.prototype;
+
+const deviceLabel = (device: MediaDeviceInfo, fallback: string) =>
+  device.label || `${fallback} ${device.deviceId.slice(0, 8)}`;
+
+const SKIN_TONES: SkinTone[] = [
+  "default",
+  "light",
+  "medium-light",
+  "medium",
+  "medium-dark",
+  "dark",
+];
+
+const Toggle = ({
+  label,
+  description,
+  checked,
+  onChange,
+}: {
+  label: string;
+  description?: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) => (
+  <label className="flex items-center justify-between gap-4 cursor-pointer">
+    <span>
+      <span className="block text-sm text-gray-200">{label}</span>
+      {description && (
+        <span className="block text-xs text-gray-500">{description}</span>
+      )}
+    </span>
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="w-4 h-4 accent-blue-500 flex-shrink-0"
+    />
+  </label>
+);
+
+export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
+  const {
+    devices,
+    selectedDevices,
+    refreshDevices,
+    selectMicrophone,
+    selectCamera,
+    selectSpeaker,
+  } = useMediasoupContext();
+  const settings = useUserSettings();
+  const [switching, setSwitching] = useState<"audio" | "video" | null>(null);
+
+  // Labels may have become readable since the last enumeration
+  useEffect(() => {
+    if (isOpen) void refreshDevices();
+  }, [isOpen, refreshDevices]);
+
+  const handleMicrophoneChange = async (deviceId: string) => {
+    setSwitching("audio");
+    await selectMicrophone(deviceId);
+    setSwitching(null);
+  };
+
+  const handleCameraChange = async (deviceId: string) => {
+    setSwitching("video");
+    await selectCamera(deviceId);
+    setSwitching(null);
+  };
+
+  if (!isOpen) return null;
+
+  const selectClassName =
+    "w-full px-4 py-3 bg-dark-2 border border-white/10 rounded-lg text-white focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none transition disabled:opacity-50";
+
+  return (
+    <div
+      className="fixed inset-0 z-[10000] flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm overflow-y-auto"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="relative w-full max-w-md bg-dark-1 rounded-2xl shadow-2xl border border-white/10 my-auto max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-white/10">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-500/20 rounded-lg">
+              <Settings className="w-6 h-6 text-blue-500" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-white">Settings</h2>
+              <p className="text-sm text-gray-400">
+                Changes apply immediately
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-white/10 rounded-lg transition"
+            aria-label="Close settings"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Devices
+          </h3>
+
+          {/* Microphone */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+              <Mic className="w-4 h-4" />
+              Microphone
+            </label>
+            <select
+              value={selectedDevices.audioInputId ?? ""}
+              onChange={(e) => handleMicrophoneChange(e.target.value)}
+              disabled={switching === "audio"}
+              className={selectClassName}
+            >
+              <option value="">System default</option>
+              {devices.microphones.map((mic) => (
+                <option key={mic.deviceId} value={mic.deviceId}>
+                  {deviceLabel(mic, "Microphone")}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Camera */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+              <Video className="w-4 h-4" />
+              Camera
+            </label>
+            <select
+              value={selectedDevices.videoInputId ?? ""}
+              onChange={(e) => handleCameraChange(e.target.value)}
+              disabled={switching === "video"}
+              className={selectClassName}
+            >
+              <option value="">System default</option>
+              {devices.cameras.map((camera) => (
+                <option key={camera.deviceId} value={camera.deviceId}>
+                  {deviceLabel(camera, "Camera")}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Speaker */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-300 mb-2">
+              <Volume2 className="w-4 h-4" />
+              Speaker
+            </label>
+            {canSelectSpeaker() ? (
+              <select
+                value={selectedDevices.audioOutputId ?? ""}
+                onChange={(e) => selectSpeaker(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">System default</option>
+                {devices.speakers.map((speaker) => (
+                  <option key={speaker.deviceId} value={speaker.deviceId}>
+                    {deviceLabel(speaker, "Speaker")}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Your browser plays audio through the system default speaker.
+              </p>
+            )}
+          </div>
+        </div>
+
+        {/* Audio & Video */}
+        <div className="p-6 space-y-4 border-t border-white/10">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Audio &amp; video
+          </h3>
+          <Toggle
+            label="Noise suppression"
+            description="Filter out background noise from your microphone"
+            checked={settings.audio.noiseSuppression}
+            onChange={(noiseSuppression) =>
+              updateSettings("audio", { noiseSuppression })
+            }
+          />
+          <Toggle
+            label="Mirror my video"
+            description="Only affects how you see yourself"
+            checked={settings.video.mirrorSelfView}
+            onChange={(mirrorSelfView) =>
+              updateSettings("video", { mirrorSelfView })
+            }
+          />
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm text-gray-200">Default layout</span>
+            <select
+              value={settings.layout.defaultLayout}
+              onChange={(e) =>
+                updateSettings("layout", {
+                  defaultLayout: e.target.value as LayoutMode,
+                })
+              }
+              className="px-3 py-2 bg-dark-2 border border-white/10 rounded-lg text-sm text-white outline-none focus:border-blue-500"
+            >
+              <option value="gallery">Gallery</option>
+              <option value="speaker">Speaker</option>
+            </select>
+          </div>
+        </div>
+
+        {/* Reactions */}
+        <div className="p-6 space-y-3 border-t border-white/10">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Reaction skin tone
+          </h3>
+          <div className="flex gap-2" role="radiogroup">
+            {SKIN_TONES.map((tone) => (
+              <button
+                key={tone}
+                onClick={() => updateSettings("reactions", { skinTone: tone })}
+                role="radio"
+                aria-checked={settings.reactions.skinTone === tone}
+                aria-label={tone}
+                className={`w-10 h-10 rounded-xl text-xl flex items-center justify-center transition ${
+                  settings.reactions.skinTone === tone
+                    ? "bg-blue-500/30 ring-1 ring-blue-400"
+                    : "bg-dark-3/60 hover:bg-dark-3"
+                }`}
+              >
+                {withSkinTone("👍", tone)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Chat */}
+        <div className="p-6 space-y-4 border-t border-white/10">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+            Chat notifications
+          </h3>
+          <Toggle
+            label="Show message pop-ups"
+            description="While the chat panel is closed"
+            checked={settings.chat.notificationPopups}
+            onChange={(notificationPopups) =>
+              updateSettings("chat", { notificationPopups })
+            }
+          />
+          <Toggle
+            label="Play a sound"
+            description="When a new message arrives"
+            checked={settings.chat.notificationSound}
+            onChange={(notificationSound) =>
+              updateSettings("chat", { notificationSound })
+            }
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
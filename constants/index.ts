@@ -1,3 +1,5 @@
+import type { AccountType } from '@/lib/mpesaTransactions';
+
 export const sidebarLinks = [
   {
     imgURL: '/icons/Home.svg',
@@ -25,6 +27,11 @@ export const sidebarLinks = [
     route: '/personal-room',
     label: 'Personal Room',
   },
+  {
+    imgURL: '/icons/giving.svg',
+    route: '/giving',
+    label: 'My Giving',
+  },
 ];
 
 export const avatarImages = [
@@ -33,4 +40,11 @@ export const avatarImages = [
   '/images/avatar-3.png',
   '/images/avatar-4.png',
   '/images/avatar-5.png',
-];
\ No newline at end of file
+];
+
+export const accountTypeLabels: Record<AccountType, string> = {
+  OFFERING: 'Offering',
+  TITHE: 'Tithe',
+  PARTNERSHIP: 'Partnership',
+  MISSIONS: 'Missions',
+};
@@ -1,25 +1,150 @@
 "use client";
 
-import { createContext, useContext, useRef, useState, useEffect } from "react";
-import type { Socket } from "socket.io-client";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  useEffect,
+} from "react";
 import { getSocket } from "@/lib/socket";
+import type {
+  AppSocket,
+  ConsumeResponse,
+  JoinRoomResponse,
+  MeetingEndedPayload,
+  Participant,
+  RecordingUser,
+} from "@/lib/socketEvents";
+import { getSimulcastEncodings, pickSpatialLayer } from "@/lib/simulcast";
+import {
+  getSettings,
+  updateSettings,
+  type PreferredDevices,
+} from "@/lib/userSettings";
+import { useUserSettings } from "@/hooks/useUserSettings";
+import {
+  endMeeting,
+  getMeetingPermissions,
+  markMeetingEnded,
+} from "@/actions/mediasoup.actions";
 import { Device, types } from "mediasoup-client";
 import { toast } from "sonner";
 
-interface Participant {
-  id: string;
-  name: string;
-  imageUrl?: string;
-  isAudioMuted: boolean;
-  isVideoPaused: boolean;
-  isHost: boolean;
-  isCoHost?: boolean;
-  audioLocked?: boolean; // Cannot unmute when true
-  screenShareLocked?: boolean; // Cannot screen share when true
+// connected → (socket drops) reconnecting → (socket back) rejoining → connected
+// Recovery that keeps failing, or a socket that never comes back, ends in failed
+export type ConnectionStatus =
+  | "connected"
+  | "reconnecting"
+  | "rejoining"
+  | "failed";
+
+const MAX_REJOIN_ATTEMPTS = 3;
+const REJOIN_RETRY_DELAY_MS = 2000;
+
+// How long the SFU gets to confirm it ended the meeting for everyone
+const END_MEETING_ACK_TIMEOUT_MS = 10000;
+
+// ICE watchdog: a "disconnected" transport often recovers by itself, so give it
+// a grace period; "failed" restarts right away. Repeated failures escalate to
+// a full rejoin.
+const ICE_DISCONNECT_GRACE_MS = 3000;
+const ICE_RESTART_TIMEOUT_MS = 10000;
+// How long the SFU gets to answer a restart; no answer counts as a failed attempt
+const ICE_RESTART_ACK_TIMEOUT_MS = 5000;
+const MAX_ICE_RESTARTS = 2;
+
+// Producers never stop their tracks on close: the same tracks are re-produced
+// on fresh transports after a reconnect, so closing paths stop them explicitly
+const AUDIO_PRODUCE_OPTIONS: types.ProducerOptions = {
+  codecOptions: { opusStereo: false, opusDtx: true },
+  stopTracks: false,
+};
+const VIDEO_PRODUCE_OPTIONS: types.ProducerOptions = {
+  encodings: getSimulcastEncodings(),
+  codecOptions: { videoGoogleStartBitrate: 1000 },
+  stopTracks: false,
+};
+const SCREEN_PRODUCE_OPTIONS: types.ProducerOptions = {
+  appData: { share: true }, // Mark as screen share
+  stopTracks: false,
+};
+
+// What we were sending before a reconnect, to be re-produced on the new transports
+type ProducedTracks = {
+  audioTrack: MediaStreamTrack | null;
+  audioPaused: boolean;
+  videoTrack: MediaStreamTrack | null;
+  videoPaused: boolean;
+  screenTrack: MediaStreamTrack | null;
+};
+
+const CAMERA_CONSTRAINTS: MediaTrackConstraints = {
+  width: { ideal: 1280 },
+  height: { ideal: 720 },
+  frameRate: { ideal: 30 },
+};
+
+// Chrome lists these alongside the real devices; they only mirror the OS choice
+const VIRTUAL_DEVICE_IDS = new Set(["default", "communications"]);
+
+// What the "ended by host" screen shows once the owner ends the meeting
+export interface MeetingSummary extends MeetingEndedPayload {
+  joinedAt: string | null;
+  // Everyone seen in the room while this client was in it
+  attendees: string[];
+}
+
+export interface MediaDeviceLists {
+  microphones: MediaDeviceInfo[];
+  cameras: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
 }
 
+/**
+ * Open a single camera or microphone track. A saved device that has since been
+ * unplugged falls back to the system default instead of failing the call.
+ */
+const openDeviceTrack = async (
+  kind: "audio" | "video",
+  deviceId?: string
+): Promise<MediaStreamTrack> => {
+  const base: MediaTrackConstraints =
+    kind === "video"
+      ? CAMERA_CONSTRAINTS
+      : {
+          echoCancellation: true,
+          autoGainControl: true,
+          noiseSuppression: getSettings().audio.noiseSuppression,
+        };
+  const request = (constraints: MediaTrackConstraints) =>
+    navigator.mediaDevices.getUserMedia({ [kind]: constraints });
+
+  let stream: MediaStream;
+  try {
+    stream = await request(
+      deviceId ? { ...base, deviceId: { exact: deviceId } } : base
+    );
+  } catch (error) {
+    const name = (error as { name?: string })?.name;
+    if (
+      !deviceId ||
+      (name !== "OverconstrainedError" && name !== "NotFoundError")
+    ) {
+      throw error;
+    }
+    console.warn(`⚠️ Preferred ${kind} device unavailable - using default`);
+    stream = await request(base);
+  }
+
+  return kind === "audio"
+    ? stream.getAudioTracks()[0]
+    : stream.getVideoTracks()[0];
+};
+
 type MediasoupContextType = {
-  socket: Socket | null;
+  socket: AppSocket | null;
   device: Device | null;
   participants: Participant[];
   remoteStreams: Map<string, MediaStream>;
@@ -53,10 +178,27 @@ type MediasoupContextType = {
     userId: string,
     userName?: string,
     userImageUrl?: string,
-    isCreator?: boolean
+    isCreator?: boolean,
+    joinToken?: string
   ) => Promise<void>;
   leaveRoom: () => void;
+  isOwner: boolean;
+  endMeetingForAll: () => Promise<void>;
+  meetingSummary: MeetingSummary | null;
+  recordingUsers: RecordingUser[];
+  setRecordingState: (recording: boolean) => void;
   roomId: string | null;
+  connectionStatus: ConnectionStatus;
+  requestVideoLayer: (participantId: string, renderedHeight: number) => void;
+  setTileVisibility: (tileId: string, visible: boolean) => void;
+  setPiPTileIds: (tileIds: string[]) => void;
+  setGridCovered: (covered: boolean) => void;
+  devices: MediaDeviceLists;
+  selectedDevices: PreferredDevices;
+  refreshDevices: () => Promise<void>;
+  selectMicrophone: (deviceId: string) => Promise<void>;
+  selectCamera: (deviceId: string) => Promise<void>;
+  selectSpeaker: (deviceId: string) => void;
 };
 
 const MediasoupContext = createContext<MediasoupContextType | null>(null);
@@ -67,7 +209,7 @@ export const MediasoupProvider = ({
   children: React.ReactNode;
 }) => {
   // Socket & Device
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<AppSocket | null>(null);
   const [device, setDevice] = useState<Device | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
 
@@ -87,21 +229,12 @@ export const MediasoupProvider = ({
   // NOTE: Backend is the single source of truth for media state persistence
   // This initial state is just a placeholder until backend sends authoritative state
   const getInitialMediaState = () => {
-    try {
-      const storedPref = localStorage.getItem("meeting-join-preference");
-      if (storedPref) {
-        const preference = JSON.parse(storedPref);
-        return {
-          // If audio preference is false, mic is effectively "muted" (off)
-          isAudioMuted: !preference.audio,
-          isVideoEnabled: preference.video ?? false,
-        };
-      }
-    } catch (error) {
-      console.error("Failed to read initial media state:", error);
-    }
-    // Default: mic on (not muted), video off
-    return { isAudioMuted: false, isVideoEnabled: false };
+    const preference = getSettings().join;
+    return {
+      // If audio preference is false, mic is effectively "muted" (off)
+      isAudioMuted: !preference.audio,
+      isVideoEnabled: preference.video,
+    };
   };
 
   const initialState = getInitialMediaState();
@@ -114,10 +247,26 @@ export const MediasoupProvider = ({
     useState(true);
   const [isHost, setIsHost] = useState(false);
   const [isCoHost, setIsCoHost] = useState(false);
+  const [isOwner, setIsOwner] = useState(false);
+  const [meetingSummary, setMeetingSummary] = useState<MeetingSummary | null>(
+    null
+  );
+  const [recordingUsers, setRecordingUsers] = useState<RecordingUser[]>([]);
   const [forceMuted, setForceMuted] = useState(false);
   const [forceVideoPaused, setForceVideoPaused] = useState(false);
   const [globalVideoDisabled, setGlobalVideoDisabled] = useState(false);
   const [roomId, setRoomId] = useState<string | null>(null);
+  const [connectionStatus, setConnectionStatus] =
+    useState<ConnectionStatus>("connected");
+
+  // Devices - empty IDs follow the system default
+  const [devices, setDevices] = useState<MediaDeviceLists>({
+    microphones: [],
+    cameras: [],
+    speakers: [],
+  });
+  const settings = useUserSettings();
+  const selectedDevices = settings.devices;
 
   // Refs for Transports and Producers
   const sendTransportRef = useRef<types.Transport | null>(null);
@@ -131,6 +280,25 @@ export const MediasoupProvider = ({
   const peerIdToUserIdRef = useRef<Map<string, string>>(new Map());
   const isInitialParticipantListRef = useRef<boolean>(true);
 
+  // Session recovery
+  const connectionStatusRef = useRef<ConnectionStatus>("connected");
+  const joinInfoRef = useRef<{
+    userName?: string;
+    userImageUrl?: string;
+    isCreator: boolean;
+    joinToken?: string;
+  }>({ isCreator: false });
+  const isRecoveringRef = useRef<boolean>(false);
+  const recoverSessionRef = useRef<(() => Promise<void>) | null>(null);
+  // Kept until a rejoin has re-produced them, since the producer refs are
+  // already cleared by then
+  const pendingTracksRef = useRef<ProducedTracks | null>(null);
+
+  // Meeting summary
+  const joinedAtRef = useRef<string | null>(null);
+  const attendeesRef = useRef<Map<string, string>>(new Map());
+  const leaveRoomRef = useRef<(() => void) | null>(null);
+
   // Consumer tracking map: consumerId -> { consumer, userId, isScreenShare }
   const consumersRef = useRef<
     Map<
@@ -143,6 +311,22 @@ export const MediasoupProvider = ({
     >
   >(new Map());
 
+  // Simulcast: last rendered tile height per participant and the spatial
+  // layer already requested for each video consumer
+  const renderedHeightsRef = useRef<Map<string, number>>(new Map());
+  const preferredLayersRef = useRef<Map<string, number>>(new Map());
+
+  // Video consumer visibility, keyed by tile ID (userId or `${userId}-screen`).
+  // Tiles report whether they are on screen; a hidden tab or a sidebar covering
+  // the grid pauses everything except what Picture-in-Picture is showing.
+  const tileVisibilityRef = useRef<Map<string, boolean>>(new Map());
+  const pipTileIdsRef = useRef<Set<string>>(new Set());
+  const isPageHiddenRef = useRef<boolean>(false);
+  const isGridCoveredRef = useRef<boolean>(false);
+
+  // Devices present at the last enumeration (`${kind}:${deviceId}`)
+  const knownDeviceIdsRef = useRef<Set<string>>(new Set());
+
   // Debug: Log media state changes
   useEffect(() => {
     console.log(`🎛️ Media State Update:`, {
@@ -157,6 +341,255 @@ export const MediasoupProvider = ({
     });
   }, [isAudioMuted, isVideoEnabled, isScreenSharing]);
 
+  const updateConnectionStatus = useCallback((status: ConnectionStatus) => {
+    connectionStatusRef.current = status;
+    setConnectionStatus(status);
+  }, []);
+
+  // Pause video consumers nobody can see and resume the ones that came back
+  const syncVideoConsumers = useCallback(() => {
+    const roomId = currentRoomIdRef.current;
+    if (!roomId) return;
+    const socketInstance = getSocket();
+
+    const isWatched = (tileId: string) => {
+      if (pipTileIdsRef.current.has(tileId)) return true;
+      if (isPageHiddenRef.current || isGridCoveredRef.current) return false;
+      // Tiles that never reported stay resumed
+      return tileVisibilityRef.current.get(tileId) !== false;
+    };
+
+    consumersRef.current.forEach(({ consumer, userId, isScreenShare }) => {
+      if (consumer.kind !== "video" || consumer.closed) return;
+
+      const ownerId = peerIdToUserIdRef.current.get(userId) ?? userId;
+      const watched = isWatched(isScreenShare ? `${ownerId}-screen` : ownerId);
+
+      if (watched && consumer.paused) {
+        consumer.resume();
+        socketInstance.emit("resume-consumer", {
+          roomId,
+          consumerId: consumer.id,
+        });
+      } else if (!watched && !consumer.paused) {
+        consumer.pause();
+        socketInstance.emit("pause-consumer", {
+          roomId,
+          consumerId: consumer.id,
+        });
+      }
+    });
+  }, []);
+
+  const setTileVisibility = useCallback(
+    (tileId: string, visible: boolean) => {
+      if (tileVisibilityRef.current.get(tileId) === visible) return;
+      tileVisibilityRef.current.set(tileId, visible);
+      syncVideoConsumers();
+    },
+    [syncVideoConsumers]
+  );
+
+  const setPiPTileIds = useCallback(
+    (tileIds: string[]) => {
+      pipTileIdsRef.current = new Set(tileIds);
+      syncVideoConsumers();
+    },
+    [syncVideoConsumers]
+  );
+
+  const setGridCovered = useCallback(
+    (covered: boolean) => {
+      isGridCoveredRef.current = covered;
+      syncVideoConsumers();
+    },
+    [syncVideoConsumers]
+  );
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      isPageHiddenRef.current = document.visibilityState === "hidden";
+      syncVideoConsumers();
+    };
+
+    handleVisibilityChange();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () =>
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [syncVideoConsumers]);
+
+  // Swap one local track for another without touching the rest of the stream
+  const swapLocalTrack = useCallback(
+    (oldTrack: MediaStreamTrack | null, newTrack: MediaStreamTrack) => {
+      setLocalStream(
+        (prev) =>
+          new MediaStream([
+            ...(prev?.getTracks() ?? []).filter((t) => t !== oldTrack),
+            newTrack,
+          ])
+      );
+    },
+    []
+  );
+
+  // Move a live producer onto another device. Without a producer the choice is
+  // only remembered and used the next time the mic or camera starts.
+  const switchInputDevice = useCallback(
+    async (kind: "audio" | "video", deviceId: string) => {
+      const producer =
+        kind === "audio" ? audioProducerRef.current : videoProducerRef.current;
+      if (!producer || producer.closed) return;
+
+      const oldTrack = producer.track;
+      const track = await openDeviceTrack(kind, deviceId || undefined);
+      try {
+        await producer.replaceTrack({ track });
+      } catch (error) {
+        track.stop();
+        throw error;
+      }
+      oldTrack?.stop();
+      swapLocalTrack(oldTrack, track);
+
+      console.log(`🔀 Switched ${kind} input to:`, track.label);
+    },
+    [swapLocalTrack]
+  );
+
+  const selectMicrophone = useCallback(
+    async (deviceId: string) => {
+      updateSettings("devices", { audioInputId: deviceId || undefined });
+      try {
+        await switchInputDevice("audio", deviceId);
+      } catch (error) {
+        console.error("❌ Failed to switch microphone:", error);
+        toast.error("Could not switch microphone");
+      }
+    },
+    [switchInputDevice]
+  );
+
+  const selectCamera = useCallback(
+    async (deviceId: string) => {
+      updateSettings("devices", { videoInputId: deviceId || undefined });
+      try {
+        await switchInputDevice("video", deviceId);
+      } catch (error) {
+        console.error("❌ Failed to switch camera:", error);
+        toast.error("Could not switch camera");
+      }
+    },
+    [switchInputDevice]
+  );
+
+  // Remote audio elements pick this up and route themselves with setSinkId
+  const selectSpeaker = useCallback((deviceId: string) => {
+    updateSettings("devices", { audioOutputId: deviceId || undefined });
+  }, []);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    let list: MediaDeviceInfo[];
+    try {
+      list = await navigator.mediaDevices.enumerateDevices();
+    } catch (error) {
+      console.error("❌ Failed to enumerate devices:", error);
+      return;
+    }
+
+    // Before permission is granted device IDs come back empty
+    const real = list.filter((d) => d.deviceId);
+    const next: MediaDeviceLists = {
+      microphones: real.filter((d) => d.kind === "audioinput"),
+      cameras: real.filter((d) => d.kind === "videoinput"),
+      speakers: real.filter((d) => d.kind === "audiooutput"),
+    };
+    setDevices(next);
+
+    const previousIds = knownDeviceIdsRef.current;
+    knownDeviceIdsRef.current = new Set(
+      real.map((d) => `${d.kind}:${d.deviceId}`)
+    );
+
+    // An empty list means no permission for that kind yet, not "unplugged"
+    const selected = getSettings().devices;
+    const isGone = (available: MediaDeviceInfo[], deviceId?: string) =>
+      !!deviceId &&
+      available.length > 0 &&
+      !available.some((d) => d.deviceId === deviceId);
+
+    // 🔌 Unplugged: the selected device is gone or the live track ended with it
+    if (
+      isGone(next.microphones, selected.audioInputId) ||
+      audioProducerRef.current?.track?.readyState === "ended"
+    ) {
+      await selectMicrophone("");
+      toast.info("Microphone disconnected - switched to the default");
+    }
+    if (
+      isGone(next.cameras, selected.videoInputId) ||
+      videoProducerRef.current?.track?.readyState === "ended"
+    ) {
+      await selectCamera("");
+      toast.info("Camera disconnected - switched to the default");
+    }
+    if (isGone(next.speakers, selected.audioOutputId)) {
+      selectSpeaker("");
+      toast.info("Speaker disconnected - switched to the default");
+    }
+
+    // 🎧 Plugged in: offer the new device rather than switching silently.
+    // The first enumeration with permission only establishes the baseline.
+    if (previousIds.size === 0) return;
+    real
+      .filter(
+        (d) =>
+          d.label &&
+          !VIRTUAL_DEVICE_IDS.has(d.deviceId) &&
+          !previousIds.has(`${d.kind}:${d.deviceId}`)
+      )
+      .forEach((d) => {
+        const switchTo =
+          d.kind === "audioinput"
+            ? () => selectMicrophone(d.deviceId)
+            : d.kind === "videoinput"
+            ? () => selectCamera(d.deviceId)
+            : () => selectSpeaker(d.deviceId);
+
+        toast(`New device detected: ${d.label}`, {
+          action: { label: "Use", onClick: () => void switchTo() },
+        });
+      });
+  }, [selectMicrophone, selectCamera, selectSpeaker]);
+
+  // Apply the noise suppression preference to the live microphone
+  const noiseSuppression = settings.audio.noiseSuppression;
+  useEffect(() => {
+    const track = audioProducerRef.current?.track;
+    if (!track || track.readyState !== "live") return;
+
+    track
+      .applyConstraints({ ...track.getConstraints(), noiseSuppression })
+      .catch((error) => {
+        console.warn("⚠️ Failed to update noise suppression:", error);
+      });
+  }, [noiseSuppression]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    const handleDeviceChange = () => void refreshDevices();
+
+    handleDeviceChange();
+    navigator.mediaDevices.addEventListener("devicechange", handleDeviceChange);
+    return () =>
+      navigator.mediaDevices.removeEventListener(
+        "devicechange",
+        handleDeviceChange
+      );
+  }, [refreshDevices]);
+
   useEffect(() => {
     // Use the shared socket instance
     const socketInstance = getSocket();
@@ -165,14 +598,34 @@ export const MediasoupProvider = ({
     const handleConnect = () => {
       console.log("✅ Mediasoup socket connected:", socketInstance.id);
       setSocket(socketInstance);
+
+      // The server dropped our peer with the old connection - rebuild it
+      if (
+        hasJoinedRef.current &&
+        connectionStatusRef.current === "reconnecting"
+      ) {
+        recoverSessionRef.current?.();
+      }
     };
 
     const handleReconnect = () => {
       console.log("🔄 Mediasoup socket reconnected:", socketInstance.id);
     };
 
-    const handleDisconnect = () => {
-      console.log("❌ Mediasoup socket disconnected");
+    const handleDisconnect = (reason: string) => {
+      console.log("❌ Mediasoup socket disconnected:", reason);
+
+      // Leaving the room disconnects on purpose - only recover from drops
+      if (hasJoinedRef.current && reason !== "io client disconnect") {
+        updateConnectionStatus("reconnecting");
+      }
+    };
+
+    const handleReconnectFailed = () => {
+      if (hasJoinedRef.current) {
+        console.error("❌ Gave up reconnecting to the meeting");
+        updateConnectionStatus("failed");
+      }
     };
 
     // If already connected, trigger handler immediately
@@ -181,13 +634,15 @@ export const MediasoupProvider = ({
     }
 
     socketInstance.on("connect", handleConnect);
-    socketInstance.on("reconnect", handleReconnect);
+    socketInstance.io.on("reconnect", handleReconnect);
+    socketInstance.io.on("reconnect_failed", handleReconnectFailed);
     socketInstance.on("disconnect", handleDisconnect);
 
     socketInstance.on(
       "participant-list-update",
       (updatedList: Participant[]) => {
         console.log("👥 Participants updated:", updatedList);
+        updatedList.forEach((p) => attendeesRef.current.set(p.id, p.name));
         console.log("📝 Participant details:");
         updatedList.forEach((p) => {
           console.log(
@@ -306,15 +761,13 @@ export const MediasoupProvider = ({
           socketInstance.emit(
             "get-socket-id-for-user",
             { userId: participant.id },
-            (response: any) => {
+            (response) => {
               if (response && response.socketId) {
-                peerIdToUserIdRef.current.set(
-                  response.socketId,
-                  participant.id
-                );
+                const socketId = response.socketId;
+                peerIdToUserIdRef.current.set(socketId, participant.id);
                 console.log(
                   "🔗 Mapped socket to user (from server):",
-                  response.socketId,
+                  socketId,
                   "→",
                   participant.id
                 );
@@ -322,13 +775,13 @@ export const MediasoupProvider = ({
                 // Also remap the stream if it exists
                 setRemoteStreams((prev) => {
                   const newMap = new Map(prev);
-                  const stream = prev.get(response.socketId);
+                  const stream = prev.get(socketId);
                   if (stream) {
                     newMap.set(participant.id, stream);
-                    newMap.delete(response.socketId);
+                    newMap.delete(socketId);
                     console.log(
                       "🔄 Remapped stream via server response:",
-                      response.socketId,
+                      socketId,
                       "→",
                       participant.id
                     );
@@ -365,6 +818,11 @@ export const MediasoupProvider = ({
           return;
         }
 
+        // A recorder who leaves has stopped recording
+        setRecordingUsers((prev) =>
+          prev.filter((r) => r.userId !== participantId)
+        );
+
         // Get participant name before removing
         setParticipants((prev) => {
           const leavingParticipant = prev.find((p) => p.id === participantId);
@@ -759,8 +1217,10 @@ export const MediasoupProvider = ({
           // Stop local screen share if active
           if (screenProducerRef.current) {
             const producerId = screenProducerRef.current.id;
+            screenProducerRef.current.track?.stop();
             screenProducerRef.current.close();
             screenProducerRef.current = null;
+            setLocalScreenStream(null);
             setIsScreenSharing(false);
             console.log(
               `🖥️ Stopped screen share (producer ${producerId}) due to admin disable`
@@ -909,6 +1369,7 @@ export const MediasoupProvider = ({
 
             // Remove from consumer map
             consumersRef.current.delete(consumerId);
+            preferredLayersRef.current.delete(consumerId);
 
             // Clean up screen share state if it was a screen share
             if (data.isScreenShare) {
@@ -981,11 +1442,37 @@ export const MediasoupProvider = ({
       }
     );
 
+    socketInstance.on(
+      "recording-state-changed",
+      ({ userId, userName, recording }) => {
+        console.log(
+          `🔴 ${userName} ${recording ? "started" : "stopped"} recording`
+        );
+        setRecordingUsers((prev) => {
+          const others = prev.filter((r) => r.userId !== userId);
+          return recording ? [...others, { userId, userName }] : others;
+        });
+      }
+    );
+
+    socketInstance.on("meeting-ended", (payload: MeetingEndedPayload) => {
+      if (payload.roomId !== currentRoomIdRef.current) return;
+      console.log(`🛑 Meeting ended by ${payload.endedByName || payload.endedBy}`);
+
+      setMeetingSummary({
+        ...payload,
+        joinedAt: joinedAtRef.current,
+        attendees: Array.from(attendeesRef.current.values()),
+      });
+      leaveRoomRef.current?.();
+    });
+
     return () => {
       // Clean up event listeners but don't disconnect the shared socket
       // as it may be used by other components (e.g., chat)
       socketInstance.off("connect", handleConnect);
-      socketInstance.off("reconnect", handleReconnect);
+      socketInstance.io.off("reconnect", handleReconnect);
+      socketInstance.io.off("reconnect_failed", handleReconnectFailed);
       socketInstance.off("disconnect", handleDisconnect);
       socketInstance.off("participant-list-update");
       socketInstance.off("participant-left");
@@ -999,12 +1486,14 @@ export const MediasoupProvider = ({
       socketInstance.off("enable-all-cameras");
       socketInstance.off("screenshare-control");
       socketInstance.off("kicked-from-room");
+      socketInstance.off("meeting-ended");
+      socketInstance.off("recording-state-changed");
       socketInstance.off("producer-closed");
       socketInstance.off("new-producer");
       socketInstance.off("receive-video-reaction");
       socketInstance.off("role-changed"); // ✅ NEW: Cleanup role-changed listener
     };
-  }, []);
+  }, [updateConnectionStatus]);
 
   // Join Room and Initialize Mediasoup
   const joinRoom = async (
@@ -1012,7 +1501,8 @@ export const MediasoupProvider = ({
     userId: string,
     userName?: string,
     userImageUrl?: string,
-    isCreator: boolean = false
+    isCreator: boolean = false,
+    joinToken?: string
   ) => {
     if (!socket || isInitialized) {
       console.log("⚠️ Cannot join: socket or already initialized");
@@ -1028,8 +1518,13 @@ export const MediasoupProvider = ({
     hasJoinedRef.current = true;
     currentRoomIdRef.current = roomId;
     currentUserIdRef.current = userId;
+    joinInfoRef.current = { userName, userImageUrl, isCreator, joinToken };
     setRoomId(roomId);
     setIsHost(isCreator);
+    setIsOwner(isCreator);
+    setMeetingSummary(null);
+    setRecordingUsers([]);
+    attendeesRef.current = new Map();
 
     // Map socket to Clerk user ID for persistent identification
     socket.emit("set-user-id", userId);
@@ -1044,151 +1539,18 @@ export const MediasoupProvider = ({
     );
 
     try {
-      // Step 1: Get Router RTP Capabilities
-      const rtpCapabilities = await new Promise<any>((resolve, reject) => {
-        socket.emit("get-rtp-capabilities", { roomId }, (response: any) => {
-          if (response.error) {
-            reject(response.error);
-          } else {
-            resolve(response.rtpCapabilities);
-          }
-        });
-      });
-
-      // Step 2: Load Device
-      const newDevice = new Device();
-      await newDevice.load({ routerRtpCapabilities: rtpCapabilities });
-      setDevice(newDevice);
-      console.log("📱 Device loaded");
-
-      // Step 3: Join Mediasoup Room
-      console.log("📤 Sending join request with:", {
+      const { mediaState } = await connectToRoom(
+        socket,
         roomId,
         userId,
         userName,
-        userImageUrl: userImageUrl ? "provided" : "missing",
+        userImageUrl,
         isCreator,
-      });
-      const {
-        existingProducers,
-        isHost: backendIsHost,
-        isCoHost: backendIsCoHost,
-        mediaState, // ✅ NEW: Persisted media state from backend
-      } = await new Promise<any>((resolve, reject) => {
-        socket.emit(
-          "join-mediasoup-room",
-          {
-            roomId,
-            rtpCapabilities: newDevice.rtpCapabilities,
-            userId,
-            userName,
-            userImageUrl,
-            isCreator,
-          },
-          (response: any) => {
-            if (response.error) {
-              reject(response.error);
-            } else {
-              console.log("✅ Join response from backend:", {
-                isHost: response.isHost,
-                isCoHost: response.isCoHost,
-                existingProducers: response.existingProducers?.length,
-                mediaState: response.mediaState, // ✅ NEW: Log media state
-              });
-              resolve(response);
-            }
-          }
-        );
-      });
-
-      // Set host status from backend response
-      if (backendIsHost !== undefined) {
-        console.log("👑 Setting isHost from backend:", backendIsHost);
-        setIsHost(backendIsHost);
-      }
-      if (backendIsCoHost !== undefined) {
-        console.log("🤝 Setting isCoHost from backend:", backendIsCoHost);
-        setIsCoHost(backendIsCoHost);
-      }
-
-      // NOTE: Media state will be applied later when starting media producers
-      // This ensures state is synchronized with actual media activation
-
-      console.log(
-        "🎉 Joined mediasoup room, existing producers:",
-        existingProducers
-      );
-      console.log("📝 Producer details:", {
-        isArray: Array.isArray(existingProducers),
-        length: existingProducers?.length,
-        items: existingProducers,
-        firstItem: existingProducers?.[0],
-        firstItemType: typeof existingProducers?.[0],
-      });
-
-      // Step 4: Create Send Transport
-      await createSendTransport(socket, newDevice, roomId);
-
-      // Step 5: Create Receive Transport
-      await createRecvTransport(socket, newDevice, roomId);
-
-      // Step 6: Consume Existing Producers
-      if (existingProducers && existingProducers.length > 0) {
-        console.log("🔄 Starting to consume existing producers...");
-        for (const item of existingProducers) {
-          // Handle both string IDs and objects
-          const producerId =
-            typeof item === "string" ? item : item?.id || item?.producerId;
-
-          if (producerId) {
-            console.log("➡️ Consuming producer:", producerId);
-            await consumeProducer(socket, newDevice, roomId, producerId);
-          } else {
-            console.error("❌ Invalid producer item:", item);
-          }
-        }
-      } else {
-        console.log("ℹ️ No existing producers to consume");
-      }
-
-      // Step 7: Listen for New Producers
-      socket.on(
-        "new-producer",
-        async ({
-          producerId,
-          peerId,
-          kind,
-          userId: producerUserId,
-        }: {
-          producerId: string;
-          peerId?: string;
-          kind?: string;
-          userId?: string;
-        }) => {
-          console.log("🆕 New producer detected:", {
-            producerId,
-            peerId,
-            kind,
-            userId: producerUserId,
-            from: peerId || "unknown",
-          });
-
-          // Map peerId to userId if provided
-          if (peerId && producerUserId) {
-            peerIdToUserIdRef.current.set(peerId, producerUserId);
-            console.log(
-              "🔗 Mapped producer peer to user:",
-              peerId,
-              "→",
-              producerUserId
-            );
-          }
-
-          await consumeProducer(socket, newDevice, roomId, producerId);
-        }
+        joinToken
       );
 
       setIsInitialized(true);
+      joinedAtRef.current = new Date().toISOString();
 
       // Step 8: Start media based on BACKEND STATE (not localStorage)
       // Backend is the single source of truth for media state persistence
@@ -1213,15 +1575,12 @@ export const MediasoupProvider = ({
             console.log("📹 Skipping video (backend state: paused)");
           }
         } else {
-          // ✅ Priority 2: Use localStorage (for first join only)
-          console.log("📋 No backend state - using localStorage preferences (first join)");
+          // ✅ Priority 2: Use saved settings (for first join only)
+          console.log("📋 No backend state - using saved join preference (first join)");
 
-          const storedPref = localStorage.getItem("meeting-join-preference");
-          const preference = storedPref
-            ? JSON.parse(storedPref)
-            : { audio: true, video: false };
+          const preference = getSettings().join;
 
-          console.log("📋 Join preference from localStorage:", preference);
+          console.log("📋 Join preference from settings:", preference);
 
           // Start audio/video based on user's saved preference
           if (preference.audio) {
@@ -1249,18 +1608,332 @@ export const MediasoupProvider = ({
     }
   };
 
+  // Steps 1-7 of joining: load a device, join the mediasoup room, create both
+  // transports and consume everything already being produced. Shared by the
+  // initial join and by session recovery after a socket reconnect.
+  const connectToRoom = async (
+    socket: AppSocket,
+    roomId: string,
+    userId: string,
+    userName?: string,
+    userImageUrl?: string,
+    isCreator: boolean = false,
+    joinToken?: string
+  ) => {
+    // Step 1: Get Router RTP Capabilities
+    const rtpCapabilities = await new Promise<types.RtpCapabilities>(
+      (resolve, reject) => {
+        socket.emit("get-rtp-capabilities", { roomId }, (response) => {
+          if (response.error || !response.rtpCapabilities) {
+            reject(response.error);
+          } else {
+            resolve(response.rtpCapabilities);
+          }
+        });
+      }
+    );
+
+    // Step 2: Load Device
+    const newDevice = new Device();
+    await newDevice.load({ routerRtpCapabilities: rtpCapabilities });
+    setDevice(newDevice);
+    console.log("📱 Device loaded");
+
+    // Step 3: Join Mediasoup Room
+    console.log("📤 Sending join request with:", {
+      roomId,
+      userId,
+      userName,
+      userImageUrl: userImageUrl ? "provided" : "missing",
+      isCreator,
+      joinToken: joinToken ? "provided" : "missing",
+    });
+    const {
+      existingProducers,
+      isHost: backendIsHost,
+      isCoHost: backendIsCoHost,
+      mediaState, // ✅ NEW: Persisted media state from backend
+    } = await new Promise<Partial<JoinRoomResponse>>((resolve, reject) => {
+      socket.emit(
+        "join-mediasoup-room",
+        {
+          roomId,
+          rtpCapabilities: newDevice.rtpCapabilities,
+          userId,
+          userName,
+          userImageUrl,
+          isCreator,
+          joinToken,
+        },
+        (response) => {
+          if (response.error) {
+            reject(response.error);
+          } else {
+            console.log("✅ Join response from backend:", {
+              isHost: response.isHost,
+              isCoHost: response.isCoHost,
+              existingProducers: response.existingProducers?.length,
+              mediaState: response.mediaState, // ✅ NEW: Log media state
+            });
+            resolve(response);
+          }
+        }
+      );
+    });
+
+    // Set host status from backend response
+    if (backendIsHost !== undefined) {
+      console.log("👑 Setting isHost from backend:", backendIsHost);
+      setIsHost(backendIsHost);
+    }
+    if (backendIsCoHost !== undefined) {
+      console.log("🤝 Setting isCoHost from backend:", backendIsCoHost);
+      setIsCoHost(backendIsCoHost);
+    }
+
+    // NOTE: Media state will be applied later when starting media producers
+    // This ensures state is synchronized with actual media activation
+
+    console.log(
+      "🎉 Joined mediasoup room, existing producers:",
+      existingProducers
+    );
+    console.log("📝 Producer details:", {
+      isArray: Array.isArray(existingProducers),
+      length: existingProducers?.length,
+      items: existingProducers,
+      firstItem: existingProducers?.[0],
+      firstItemType: typeof existingProducers?.[0],
+    });
+
+    // Step 4: Create Send Transport
+    await createSendTransport(socket, newDevice, roomId);
+
+    // Step 5: Create Receive Transport
+    await createRecvTransport(socket, newDevice, roomId);
+
+    // Step 6: Consume Existing Producers
+    if (existingProducers && existingProducers.length > 0) {
+      console.log("🔄 Starting to consume existing producers...");
+      for (const item of existingProducers) {
+        // Handle both string IDs and objects
+        const producerId =
+          typeof item === "string" ? item : item?.id || item?.producerId;
+
+        if (producerId) {
+          console.log("➡️ Consuming producer:", producerId);
+          await consumeProducer(socket, newDevice, roomId, producerId);
+        } else {
+          console.error("❌ Invalid producer item:", item);
+        }
+      }
+    } else {
+      console.log("ℹ️ No existing producers to consume");
+    }
+
+    // Step 7: Listen for New Producers (replacing any handler from a previous session)
+    socket.off("new-producer");
+    socket.on(
+      "new-producer",
+      async ({
+        producerId,
+        peerId,
+        kind,
+        userId: producerUserId,
+      }: {
+        producerId: string;
+        peerId?: string;
+        kind?: string;
+        userId?: string;
+      }) => {
+        console.log("🆕 New producer detected:", {
+          producerId,
+          peerId,
+          kind,
+          userId: producerUserId,
+          from: peerId || "unknown",
+        });
+
+        // Map peerId to userId if provided
+        if (peerId && producerUserId) {
+          peerIdToUserIdRef.current.set(peerId, producerUserId);
+          console.log(
+            "🔗 Mapped producer peer to user:",
+            peerId,
+            "→",
+            producerUserId
+          );
+        }
+
+        await consumeProducer(socket, newDevice, roomId, producerId);
+      }
+    );
+
+    return { mediaState };
+  };
+
+  // Rebuild the session after the socket reconnects: rejoin the room, create
+  // fresh transports, re-produce local tracks in their previous muted/paused
+  // state and re-consume everyone else's producers
+  const recoverSession = async () => {
+    const socketInstance = getSocket();
+    const roomId = currentRoomIdRef.current;
+    const userId = currentUserIdRef.current;
+    if (!hasJoinedRef.current || !roomId || !userId) return;
+    if (isRecoveringRef.current) return;
+
+    isRecoveringRef.current = true;
+    updateConnectionStatus("rejoining");
+    console.log("🔁 Recovering session for room:", roomId);
+
+    // Snapshot what we were sending before the old transports go away. A
+    // recovery that was cut short has already closed them, so its snapshot
+    // is reused until the tracks are actually back
+    const audio = audioProducerRef.current;
+    const video = videoProducerRef.current;
+    const screen = screenProducerRef.current;
+    const previous = pendingTracksRef.current ?? {
+      audioTrack: audio?.track ?? null,
+      audioPaused: audio?.paused ?? true,
+      videoTrack: video?.track ?? null,
+      videoPaused: video?.paused ?? true,
+      screenTrack: screen?.track ?? null,
+    };
+    pendingTracksRef.current = previous;
+
+    try {
+      for (let attempt = 1; attempt <= MAX_REJOIN_ATTEMPTS; attempt++) {
+        if (!socketInstance.connected) {
+          // Dropped again mid-recovery; the next connect starts over
+          console.warn("⚠️ Socket lost during recovery, waiting to reconnect");
+          return;
+        }
+
+        try {
+          // Closing the transports closes every producer and consumer on them.
+          // Consumers clean up their remote streams via "transportclose".
+          sendTransportRef.current?.close();
+          recvTransportRef.current?.close();
+          sendTransportRef.current = null;
+          recvTransportRef.current = null;
+          audioProducerRef.current = null;
+          videoProducerRef.current = null;
+          screenProducerRef.current = null;
+
+          socketInstance.emit("set-user-id", userId);
+          // Join tokens are short-lived, so fetch a fresh one for the rejoin
+          const permissions = await getMeetingPermissions(roomId);
+          if (!permissions.canJoin) {
+            throw new Error(permissions.reason || "Not allowed to rejoin");
+          }
+          const { userName, userImageUrl } = joinInfoRef.current;
+          joinInfoRef.current = {
+            userName,
+            userImageUrl,
+            isCreator: permissions.isOwner,
+            joinToken: permissions.joinToken,
+          };
+          setIsOwner(permissions.isOwner);
+          await connectToRoom(
+            socketInstance,
+            roomId,
+            userId,
+            userName,
+            userImageUrl,
+            permissions.isOwner,
+            permissions.joinToken
+          );
+
+          await restoreProducers(socketInstance, roomId, userId, previous);
+          pendingTracksRef.current = null;
+
+          console.log(`✅ Session recovered (attempt ${attempt})`);
+          updateConnectionStatus("connected");
+          toast.success("Reconnected to the meeting");
+          return;
+        } catch (error) {
+          console.error(`❌ Rejoin attempt ${attempt} failed:`, error);
+          await new Promise((resolve) =>
+            setTimeout(resolve, REJOIN_RETRY_DELAY_MS * attempt)
+          );
+        }
+      }
+
+      updateConnectionStatus("failed");
+    } finally {
+      isRecoveringRef.current = false;
+    }
+  };
+
+  // Re-produce the tracks that were live before the reconnect
+  const restoreProducers = async (
+    socket: AppSocket,
+    roomId: string,
+    userId: string,
+    previous: ProducedTracks
+  ) => {
+    const transport = sendTransportRef.current;
+    if (!transport) throw new Error("Send transport was not recreated");
+
+    if (previous.audioTrack?.readyState === "live") {
+      const producer = await transport.produce({
+        track: previous.audioTrack,
+        ...AUDIO_PRODUCE_OPTIONS,
+      });
+      if (previous.audioPaused) producer.pause();
+      audioProducerRef.current = producer;
+    }
+
+    if (previous.videoTrack?.readyState === "live") {
+      const producer = await transport.produce({
+        track: previous.videoTrack,
+        ...VIDEO_PRODUCE_OPTIONS,
+      });
+      if (previous.videoPaused) producer.pause();
+      videoProducerRef.current = producer;
+    }
+
+    if (previous.screenTrack?.readyState === "live") {
+      const producer = await transport.produce({
+        track: previous.screenTrack,
+        ...SCREEN_PRODUCE_OPTIONS,
+      });
+      screenProducerRef.current = producer;
+      socket.emit("screen-share-started", {
+        roomId,
+        userId,
+        producerId: producer.id,
+      });
+    } else if (previous.screenTrack) {
+      setLocalScreenStream(null);
+      setIsScreenSharing(false);
+    }
+
+    // The server starts every new producer resumed; tell it the real state
+    socket.emit("update-my-state", {
+      roomId,
+      userId,
+      isAudioMuted: !audioProducerRef.current || previous.audioPaused,
+      isVideoPaused: !videoProducerRef.current || previous.videoPaused,
+    });
+  };
+
+  useEffect(() => {
+    recoverSessionRef.current = recoverSession;
+  });
+
   // Create Send Transport
   const createSendTransport = async (
-    socket: Socket,
+    socket: AppSocket,
     device: Device,
     roomId: string
   ) => {
-    const params = await new Promise<any>((resolve, reject) => {
+    const params = await new Promise<types.TransportOptions>((resolve, reject) => {
       socket.emit(
         "create-webrtc-transport",
         { roomId, direction: "send" },
-        (response: any) => {
-          if (response.error) {
+        (response) => {
+          if (response.error || !response.params) {
             reject(response.error);
           } else {
             resolve(response.params);
@@ -1275,8 +1948,8 @@ export const MediasoupProvider = ({
       socket.emit(
         "connect-transport",
         { roomId, transportId: transport.id, dtlsParameters },
-        (response: any) => {
-          if (response.error) return errback(response.error);
+        (response) => {
+          if (response.error) return errback(new Error(response.error));
           callback();
         }
       );
@@ -1289,10 +1962,10 @@ export const MediasoupProvider = ({
         socket.emit(
           "produce",
           { roomId, transportId: transport.id, kind, rtpParameters, appData },
-          (response: any) => {
-            if (response.error) {
+          (response) => {
+            if (response.error || !response.id) {
               console.error("❌ Produce error:", response.error);
-              return errback(response.error);
+              return errback(new Error(response.error));
             }
             console.log(
               `✅ Producer created with ID:`,
@@ -1306,22 +1979,23 @@ export const MediasoupProvider = ({
       }
     );
 
+    watchTransport(socket, transport, roomId);
     sendTransportRef.current = transport;
     console.log("🚚 Send transport created");
   };
 
   // Create Receive Transport
   const createRecvTransport = async (
-    socket: Socket,
+    socket: AppSocket,
     device: Device,
     roomId: string
   ) => {
-    const params = await new Promise<any>((resolve, reject) => {
+    const params = await new Promise<types.TransportOptions>((resolve, reject) => {
       socket.emit(
         "create-webrtc-transport",
         { roomId, direction: "recv" },
-        (response: any) => {
-          if (response.error) {
+        (response) => {
+          if (response.error || !response.params) {
             reject(response.error);
           } else {
             resolve(response.params);
@@ -1336,31 +2010,123 @@ export const MediasoupProvider = ({
       socket.emit(
         "connect-transport",
         { roomId, transportId: transport.id, dtlsParameters },
-        (response: any) => {
-          if (response.error) return errback(response.error);
+        (response) => {
+          if (response.error) return errback(new Error(response.error));
           callback();
         }
       );
     });
 
+    watchTransport(socket, transport, roomId);
     recvTransportRef.current = transport;
     console.log("📥 Receive transport created");
   };
 
+  // Restart ICE when a transport loses connectivity (e.g. the laptop switched
+  // networks) instead of tearing down the call
+  const watchTransport = (
+    socket: AppSocket,
+    transport: types.Transport,
+    roomId: string
+  ) => {
+    let restartTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+
+    const clearRestartTimer = () => {
+      if (restartTimer) {
+        clearTimeout(restartTimer);
+        restartTimer = null;
+      }
+    };
+
+    const scheduleRestart = (delay: number) => {
+      clearRestartTimer();
+      restartTimer = setTimeout(() => {
+        restartTimer = null;
+        restartIce();
+      }, delay);
+    };
+
+    const restartIce = async () => {
+      // A dropped socket is handled by session recovery, not here
+      if (transport.closed || !socket.connected) return;
+
+      if (attempts >= MAX_ICE_RESTARTS) {
+        console.warn(
+          `🧊 ICE restart did not recover ${transport.direction} transport - rejoining`
+        );
+        recoverSessionRef.current?.();
+        return;
+      }
+
+      attempts++;
+      console.log(
+        `🧊 Restarting ICE for ${transport.direction} transport (attempt ${attempts})`
+      );
+
+      try {
+        const iceParameters = await new Promise<types.IceParameters>(
+          (resolve, reject) => {
+            socket.timeout(ICE_RESTART_ACK_TIMEOUT_MS).emit(
+              "restart-ice",
+              { roomId, transportId: transport.id },
+              (err, response) => {
+                if (err) {
+                  reject(new Error("The server didn't answer the ICE restart"));
+                } else if (response.error || !response.iceParameters) {
+                  reject(new Error(response.error ?? "No ICE parameters"));
+                } else {
+                  resolve(response.iceParameters);
+                }
+              }
+            );
+          }
+        );
+
+        await transport.restartIce({ iceParameters });
+
+        // Try again if the new candidates don't connect in time
+        scheduleRestart(ICE_RESTART_TIMEOUT_MS);
+      } catch (error) {
+        console.error("❌ ICE restart failed:", error);
+        scheduleRestart(0);
+      }
+    };
+
+    transport.on("connectionstatechange", (state) => {
+      console.log(`🧊 ${transport.direction} transport state:`, state);
+
+      switch (state) {
+        case "connected":
+          attempts = 0;
+          clearRestartTimer();
+          break;
+        case "disconnected":
+          scheduleRestart(ICE_DISCONNECT_GRACE_MS);
+          break;
+        case "failed":
+          scheduleRestart(0);
+          break;
+      }
+    });
+
+    transport.observer.on("close", clearRestartTimer);
+  };
+
   // Consume a Producer
   const consumeProducer = async (
-    socket: Socket,
+    socket: AppSocket,
     device: Device,
     roomId: string,
     producerId: string
   ) => {
     console.log("🔍 Attempting to consume producer:", producerId);
 
-    const data = await new Promise<any>((resolve, reject) => {
+    const data = await new Promise<ConsumeResponse>((resolve, reject) => {
       socket.emit(
         "consume",
         { roomId, producerId, rtpCapabilities: device.rtpCapabilities },
-        (response: any) => {
+        (response) => {
           if (response.error) {
             console.error("❌ Consume error:", response.error);
             reject(response.error);
@@ -1371,7 +2137,7 @@ export const MediasoupProvider = ({
               "📊 Response details:",
               JSON.stringify(response, null, 2)
             );
-            resolve(response);
+            resolve(response as ConsumeResponse);
           }
         }
       );
@@ -1442,6 +2208,15 @@ export const MediasoupProvider = ({
       isScreenShare,
     });
 
+    // Start at the layer that fits this participant's tile, if already known
+    const renderedHeight = renderedHeightsRef.current.get(userId);
+    if (consumer.kind === "video" && !isScreenShare && renderedHeight) {
+      applyPreferredLayer(socket, roomId, consumer.id, renderedHeight);
+    }
+
+    // Don't stream video into a tile nobody can see
+    syncVideoConsumers();
+
     // Listen for transport close on this consumer (mediasoup-client valid event)
     consumer.on("transportclose", () => {
       console.log(
@@ -1456,6 +2231,7 @@ export const MediasoupProvider = ({
 
       // Remove from consumer map
       consumersRef.current.delete(consumer.id);
+      preferredLayersRef.current.delete(consumer.id);
 
       // Clean up screen share state if it was a screen share
       if (isScreenShare) {
@@ -1539,6 +2315,53 @@ export const MediasoupProvider = ({
     });
   };
 
+  // Ask the SFU for the simulcast layer that fits the rendered tile
+  const applyPreferredLayer = useCallback(
+    (
+      socket: AppSocket,
+      roomId: string,
+      consumerId: string,
+      renderedHeight: number
+    ) => {
+      const spatialLayer = pickSpatialLayer(
+        renderedHeight,
+        window.devicePixelRatio || 1
+      );
+      if (preferredLayersRef.current.get(consumerId) === spatialLayer) return;
+
+      preferredLayersRef.current.set(consumerId, spatialLayer);
+      socket.emit("set-consumer-preferred-layers", {
+        roomId,
+        consumerId,
+        spatialLayer,
+      });
+    },
+    []
+  );
+
+  const requestVideoLayer = useCallback(
+    (participantId: string, renderedHeight: number) => {
+      if (renderedHeight <= 0) return;
+      renderedHeightsRef.current.set(participantId, renderedHeight);
+
+      const roomId = currentRoomIdRef.current;
+      if (!socket || !roomId) return;
+
+      consumersRef.current.forEach(({ consumer, userId, isScreenShare }, id) => {
+        // Consumers created before the user mapping arrived are keyed by peer ID
+        const ownerId = peerIdToUserIdRef.current.get(userId) ?? userId;
+        if (
+          ownerId === participantId &&
+          consumer.kind === "video" &&
+          !isScreenShare
+        ) {
+          applyPreferredLayer(socket, roomId, id, renderedHeight);
+        }
+      });
+    },
+    [socket, applyPreferredLayer]
+  );
+
   // Start Audio
   const startAudio = async () => {
     if (!sendTransportRef.current || audioProducerRef.current) return;
@@ -1555,12 +2378,14 @@ export const MediasoupProvider = ({
     }
 
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const audioTrack = stream.getAudioTracks()[0];
+      const audioTrack = await openDeviceTrack(
+        "audio",
+        getSettings().devices.audioInputId
+      );
 
       const producer = await sendTransportRef.current.produce({
         track: audioTrack,
-        codecOptions: { opusStereo: false, opusDtx: true },
+        ...AUDIO_PRODUCE_OPTIONS,
       });
 
       audioProducerRef.current = producer;
@@ -1576,6 +2401,9 @@ export const MediasoupProvider = ({
       // Set state: audio producer is active and not muted
       setIsAudioMuted(false);
 
+      // Permission was just granted, so device labels are now readable
+      void refreshDevices();
+
       console.log("🎤 Audio producer created - state set to unmuted");
     } catch (error) {
       console.error("❌ Failed to start audio:", error);
@@ -1750,17 +2578,14 @@ export const MediasoupProvider = ({
 
     // Create new producer only if it doesn't exist
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 },
-        },
-      });
-      const videoTrack = stream.getVideoTracks()[0];
+      const videoTrack = await openDeviceTrack(
+        "video",
+        getSettings().devices.videoInputId
+      );
 
       const producer = await sendTransportRef.current.produce({
         track: videoTrack,
+        ...VIDEO_PRODUCE_OPTIONS,
       });
       videoProducerRef.current = producer;
 
@@ -1774,6 +2599,7 @@ export const MediasoupProvider = ({
 
       setIsVideoEnabled(true); // Video is ON
       console.log("📹 Video producer created");
+      void refreshDevices();
 
       // Update local participant state (isVideoPaused should be false when video is enabled)
       setParticipants((prev) =>
@@ -1902,7 +2728,7 @@ export const MediasoupProvider = ({
 
       const producer = await sendTransportRef.current.produce({
         track: screenTrack,
-        appData: { share: true }, // Mark as screen share
+        ...SCREEN_PRODUCE_OPTIONS,
       });
       screenProducerRef.current = producer;
 
@@ -2115,6 +2941,9 @@ export const MediasoupProvider = ({
         }
       });
       consumersRef.current.clear();
+      preferredLayersRef.current.clear();
+      renderedHeightsRef.current.clear();
+      tileVisibilityRef.current.clear();
 
       // Clear remote streams
       setRemoteStreams(new Map());
@@ -2126,6 +2955,11 @@ export const MediasoupProvider = ({
       // Reset initial participant list flag for next join
       isInitialParticipantListRef.current = true;
 
+      // Leaving is final - never try to recover this session
+      hasJoinedRef.current = false;
+      pendingTracksRef.current = null;
+      updateConnectionStatus("connected");
+
       // Disconnect the socket - this will trigger the backend's 'disconnecting' event
       if (socket) {
         socket.disconnect();
@@ -2138,6 +2972,54 @@ export const MediasoupProvider = ({
     }
   };
 
+
+  useEffect(() => {
+    leaveRoomRef.current = leaveRoom;
+  });
+
+  // Tell everyone in the room that this browser is (or stopped) recording
+  const setRecordingState = (recording: boolean) => {
+    const roomId = currentRoomIdRef.current;
+    const userId = currentUserIdRef.current;
+    if (!roomId || !userId) return;
+
+    const userName = joinInfoRef.current.userName || "Someone";
+    socket?.emit("recording-state", { roomId, userId, userName, recording });
+    setRecordingUsers((prev) => {
+      const others = prev.filter((r) => r.userId !== userId);
+      return recording ? [...others, { userId, userName }] : others;
+    });
+  };
+
+  // Owner only: a server action signs the request and the SFU broadcasts
+  // "meeting-ended" to everyone, us included. The meeting is only stored as
+  // ended once the SFU confirms, so a lost request leaves it open to retry
+  const endMeetingForAll = async () => {
+    const roomId = currentRoomIdRef.current;
+    const userId = currentUserIdRef.current;
+    if (!socket || !roomId || !userId) return;
+
+    const { endToken } = await endMeeting(roomId);
+
+    await new Promise<void>((resolve, reject) => {
+      socket.timeout(END_MEETING_ACK_TIMEOUT_MS).emit(
+        "end-meeting-for-all",
+        { roomId, userId, endToken },
+        (err, response) => {
+          if (err) {
+            reject(new Error("The server didn't confirm the meeting ended"));
+          } else if (response.error) {
+            reject(new Error(response.error));
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+    console.log("🛑 Requested end of meeting for everyone");
+
+    await markMeetingEnded(roomId);
+  };
   return (
     <MediasoupContext.Provider
       value={{
@@ -2172,7 +3054,23 @@ export const MediasoupProvider = ({
         removeCoHost,
         joinRoom,
         leaveRoom,
+        isOwner,
+        endMeetingForAll,
+        meetingSummary,
+        recordingUsers,
+        setRecordingState,
         roomId,
+        connectionStatus,
+        requestVideoLayer,
+        setTileVisibility,
+        setPiPTileIds,
+        setGridCovered,
+        devices,
+        selectedDevices,
+        refreshDevices,
+        selectMicrophone,
+        selectCamera,
+        selectSpeaker,
       }}
     >
       {children}
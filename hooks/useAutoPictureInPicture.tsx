@@ -2,6 +2,12 @@
 
 import { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import { usePathname } from "next/navigation";
+import {
+  drawAvatar,
+  drawVideoFrame,
+  findTileVideo,
+  hasLiveVideo,
+} from "@/lib/canvasDrawing";
 
 // ============================================================================
 // TYPES
@@ -40,37 +46,11 @@ interface PiPState {
 // CONSTANTS
 // ============================================================================
 
-const AVATAR_COLORS = [
-  "#FF6B6B", "#4ECDC4", "#556270", "#C44DFF",
-  "#45B7D1", "#FFA931", "#6BCB77", "#F7B801"
-];
-
 const PIP_WIDTH = 400;
 const PIP_HEIGHT = 225; // 16:9 aspect ratio
 const LOCAL_OVERLAY_SIZE = 80;
 const LOCAL_OVERLAY_MARGIN = 12;
 
-// ============================================================================
-// UTILITY FUNCTIONS
-// ============================================================================
-
-const getColorForUser = (userId: string): string => {
-  let hash = 0;
-  for (let i = 0; i < userId.length; i++) {
-    hash = userId.charCodeAt(i) + ((hash << 5) - hash);
-  }
-  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
-};
-
-const getInitials = (name: string): string => {
-  return name
-    .split(" ")
-    .map(n => n.charAt(0))
-    .join("")
-    .toUpperCase()
-    .slice(0, 2);
-};
-
 // ============================================================================
 // MAIN HOOK
 // ============================================================================
@@ -159,35 +139,23 @@ export const useAutoPictureInPicture = ({
   // ============================================================================
 
   // Get video element for a participant
-  const getVideoElement = useCallback((participantId: string): HTMLVideoElement | null => {
-    const videoEls = Array.from(document.querySelectorAll("video")) as HTMLVideoElement[];
-    return videoEls.find(v => {
-      const peerId = v.dataset.peerId;
-      return peerId === participantId && !peerId?.includes("-screen");
-    }) || null;
-  }, []);
+  const getVideoElement = useCallback(
+    (participantId: string): HTMLVideoElement | null => findTileVideo(participantId),
+    []
+  );
 
   // Get screen share video element for a participant
-  const getScreenShareVideoElement = useCallback((participantId: string): HTMLVideoElement | null => {
-    const videoEls = Array.from(document.querySelectorAll("video")) as HTMLVideoElement[];
-    return videoEls.find(v => {
-      const peerId = v.dataset.peerId;
-      return peerId === `${participantId}-screen`;
-    }) || null;
-  }, []);
+  const getScreenShareVideoElement = useCallback(
+    (participantId: string): HTMLVideoElement | null =>
+      findTileVideo(`${participantId}-screen`),
+    []
+  );
 
   // Check if participant has valid video
-  const hasValidVideo = useCallback((participantId: string): boolean => {
-    // Check DOM video element
-    const videoEl = getVideoElement(participantId);
-    if (!videoEl) return false;
-
-    const stream = videoEl.srcObject as MediaStream | null;
-    if (!stream) return false;
-
-    const videoTracks = stream.getVideoTracks();
-    return videoTracks.length > 0 && videoTracks[0].readyState === "live";
-  }, [getVideoElement]);
+  const hasValidVideo = useCallback(
+    (participantId: string): boolean => hasLiveVideo(getVideoElement(participantId)),
+    [getVideoElement]
+  );
 
   // Get stream for participant
   const getStream = useCallback((participantId: string): MediaStream | null => {
@@ -201,68 +169,6 @@ export const useAutoPictureInPicture = ({
   // CANVAS RENDERING (GOOGLE MEET LAYOUT)
   // ============================================================================
 
-  // Draw avatar on canvas
-  const drawAvatar = useCallback((
-    ctx: CanvasRenderingContext2D,
-    participant: Participant,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    isSmall = false
-  ) => {
-    // Background
-    ctx.fillStyle = "#1f1f1f";
-    ctx.fillRect(x, y, width, height);
-
-    // Avatar circle
-    const circleRadius = isSmall ? 25 : Math.min(width, height) * 0.25;
-    const centerX = x + width / 2;
-    const centerY = y + height / 2 - (isSmall ? 0 : 20);
-
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, circleRadius, 0, Math.PI * 2);
-    ctx.closePath();
-    ctx.fillStyle = getColorForUser(participant.id);
-    ctx.fill();
-
-    // Initials
-    ctx.fillStyle = "white";
-    ctx.font = `${isSmall ? 16 : 32}px -apple-system, BlinkMacSystemFont, sans-serif`;
-    ctx.textAlign = "center";
-    ctx.textBaseline = "middle";
-    ctx.fillText(getInitials(participant.name), centerX, centerY);
-
-    // Name label (only for main content)
-    if (!isSmall) {
-      ctx.font = "14px -apple-system, BlinkMacSystemFont, sans-serif";
-      ctx.fillText(participant.name, centerX, centerY + circleRadius + 25);
-    }
-  }, []);
-
-  // Draw video frame on canvas
-  const drawVideoFrame = useCallback((
-    ctx: CanvasRenderingContext2D,
-    videoEl: HTMLVideoElement,
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    mirror = false
-  ) => {
-    ctx.save();
-
-    if (mirror) {
-      ctx.translate(x + width, y);
-      ctx.scale(-1, 1);
-      ctx.drawImage(videoEl, 0, 0, width, height);
-    } else {
-      ctx.drawImage(videoEl, x, y, width, height);
-    }
-
-    ctx.restore();
-  }, []);
-
   // Render PiP frame
   const renderPiPFrame = useCallback(() => {
     const canvas = canvasRef.current;
@@ -342,8 +248,6 @@ export const useAutoPictureInPicture = ({
     getVideoElement,
     getScreenShareVideoElement,
     hasValidVideo,
-    drawVideoFrame,
-    drawAvatar
   ]);
 
   // ============================================================================
@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import type { ReceivedMessage, SocketChatMessage } from "@/hooks/useSocketChat";
+import { getExportableMessages } from "@/lib/chatExport";
+
+// At most one save this often, however busy the chat is
+const SAVE_INTERVAL_MS = 5000;
+// Browsers cap keepalive request bodies at 64 KB
+const KEEPALIVE_LIMIT = 64 * 1024;
+
+const saveMessages = (roomId: string, body: string, keepalive = false) =>
+  fetch(`/api/meetings/${roomId}/chat`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body,
+    keepalive: keepalive && body.length < KEEPALIVE_LIMIT,
+  })
+    .then((response) => {
+      if (!response.ok) {
+        console.warn(`⚠️ Chat transcript not saved (${response.status})`);
+      }
+      return response.ok;
+    })
+    .catch((error) => {
+      console.warn("⚠️ Chat transcript not saved:", error);
+      return false;
+    });
+
+/**
+ * Keep a copy of the room-wide chat on our server while the owner is in the
+ * meeting, so it can still be exported from Previous meetings once the
+ * signaling server has forgotten the room. Only new and changed messages are
+ * sent, at most every few seconds while the chat is busy, and straight away
+ * when the tab is hidden or closed or the owner leaves - each save stays
+ * small enough to survive the page going away.
+ */
+export const useChatTranscriptSync = (
+  roomId: string | undefined,
+  messages: ReceivedMessage[],
+  isOwner: boolean
+) => {
+  const latestRef = useRef<SocketChatMessage[]>([]);
+  // Asks for a save within SAVE_INTERVAL_MS; set while syncing is on
+  const scheduleRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !isOwner) return;
+
+    // What the server has, by message ID, as sent
+    const saved = new Map<string, string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = (keepalive = false) => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+
+      const changed = latestRef.current
+        .map((message) => ({ id: message.id, json: JSON.stringify(message) }))
+        .filter(({ id, json }) => saved.get(id) !== json);
+      if (changed.length === 0) return;
+
+      // Marked as saved up front so an overlapping save doesn't resend them
+      changed.forEach(({ id, json }) => saved.set(id, json));
+      const body = `{"messages":[${changed.map(({ json }) => json).join(",")}]}`;
+      void saveMessages(roomId, body, keepalive).then((ok) => {
+        if (ok) return;
+        changed.forEach(({ id, json }) => {
+          if (saved.get(id) === json) saved.delete(id);
+        });
+      });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush(true);
+    };
+    const handlePageHide = () => flush(true);
+
+    scheduleRef.current = () => {
+      timer ??= setTimeout(() => flush(), SAVE_INTERVAL_MS);
+    };
+    scheduleRef.current();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("pagehide", handlePageHide);
+
+    // Leaving the meeting
+    return () => {
+      scheduleRef.current = null;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("pagehide", handlePageHide);
+      flush(true);
+    };
+  }, [roomId, isOwner]);
+
+  useEffect(() => {
+    latestRef.current = getExportableMessages(messages.map((m) => m.message));
+    scheduleRef.current?.();
+  }, [messages]);
+};
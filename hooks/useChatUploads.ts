@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+import type { ChatAttachment } from "@/hooks/useSocketChat";
+import {
+  UploadError,
+  getAttachmentType,
+  uploadFileInChunks,
+} from "@/lib/chunkedUpload";
+
+/**
+ * Attachments being prepared in the chat composer: each file uploads in
+ * resumable chunks as soon as it is picked, with live progress, and can be
+ * cancelled or retried (resuming where it stopped) before the message is sent.
+ */
+export const useChatUploads = (roomId?: string) => {
+  const [attachments, setAttachments] = useState<ChatAttachment[]>([]);
+
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+  // Server-side session per attachment, kept after a failure so retry resumes
+  const sessionIdsRef = useRef<Map<string, string>>(new Map());
+
+  const updateAttachment = (id: string, patch: Partial<ChatAttachment>) => {
+    setAttachments((prev) =>
+      prev.map((a) => (a.id === id ? { ...a, ...patch } : a))
+    );
+  };
+
+  const startUpload = (attachment: ChatAttachment) => {
+    const { file } = attachment;
+    if (!roomId || !file) return;
+
+    const controller = new AbortController();
+    controllersRef.current.set(attachment.id, controller);
+
+    uploadFileInChunks(file, {
+      roomId,
+      type: attachment.type,
+      signal: controller.signal,
+      sessionId: sessionIdsRef.current.get(attachment.id),
+      onSession: (sessionId) => sessionIdsRef.current.set(attachment.id, sessionId),
+      onProgress: (progress) => updateAttachment(attachment.id, { progress }),
+    })
+      .then((uploaded) => {
+        sessionIdsRef.current.delete(attachment.id);
+        updateAttachment(attachment.id, {
+          url: uploaded.url,
+          name: uploaded.name,
+          mime: uploaded.mime,
+          size: uploaded.size,
+          uploading: false,
+          progress: 100,
+        });
+        console.log("✅ Attachment uploaded:", uploaded.name);
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+
+        console.error("❌ Attachment upload failed:", error);
+        const retryable = error instanceof UploadError && error.retryable;
+        if (!retryable) sessionIdsRef.current.delete(attachment.id);
+
+        const message = error instanceof Error ? error.message : "Upload failed";
+        updateAttachment(attachment.id, { uploading: false, error: message });
+        toast.error(`Couldn't upload ${attachment.name}: ${message}`);
+      })
+      .finally(() => {
+        controllersRef.current.delete(attachment.id);
+      });
+  };
+
+  const addFiles = (files: FileList | File[]) => {
+    const added: ChatAttachment[] = Array.from(files).map((file) => {
+      const type = getAttachmentType(file.type);
+      return {
+        id: crypto.randomUUID(),
+        name: file.name,
+        type,
+        mime: file.type,
+        size: file.size,
+        previewUrl: type === "image" ? URL.createObjectURL(file) : undefined,
+        uploading: true,
+        progress: 0,
+        file,
+      };
+    });
+
+    setAttachments((prev) => [...prev, ...added]);
+    added.forEach(startUpload);
+  };
+
+  const retryUpload = (id: string) => {
+    const attachment = attachments.find((a) => a.id === id);
+    if (!attachment || attachment.uploading) return;
+
+    updateAttachment(id, { uploading: true, error: undefined });
+    startUpload(attachment);
+  };
+
+  const cancelUpload = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+
+    // Let the server drop the chunks it already has
+    const sessionId = sessionIdsRef.current.get(id);
+    if (sessionId) {
+      sessionIdsRef.current.delete(id);
+      fetch(`/api/upload/sessions/${sessionId}`, { method: "DELETE" }).catch(
+        () => null
+      );
+    }
+
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+  };
+
+  /**
+   * Hand over every finished attachment for sending, stripped of the local
+   * File and upload state, and clear them from the composer
+   */
+  const takeReadyAttachments = (): ChatAttachment[] => {
+    const ready = attachments.filter((a) => a.url && !a.uploading && !a.error);
+    const readyIds = new Set(ready.map((a) => a.id));
+    ready.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    setAttachments((prev) => prev.filter((a) => !readyIds.has(a.id)));
+
+    return ready.map(({ id, name, type, mime, size, url }) => ({
+      id,
+      name,
+      type,
+      mime,
+      size,
+      url,
+    }));
+  };
+
+  // Leaving the meeting stops any uploads still running
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  return {
+    attachments,
+    isUploading: attachments.some((a) => a.uploading),
+    hasReadyAttachments: attachments.some((a) => a.url && !a.uploading && !a.error),
+    addFiles,
+    retryUpload,
+    cancelUpload,
+    takeReadyAttachments,
+  };
+};
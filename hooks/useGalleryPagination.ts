@@ -0,0 +1,59 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import type { GalleryPageSize } from "@/lib/userSettings";
+
+interface UseGalleryPaginationProps<T extends { id: string }> {
+  /** Remote participants in display order */
+  items: T[];
+  /** Tiles per page, including the local preview pinned to every page */
+  pageSize: GalleryPageSize;
+  /** Kept on the page being viewed when set */
+  dominantSpeakerId?: string | null;
+}
+
+/**
+ * Splits the gallery into pages. The local preview takes one slot on every
+ * page, and the dominant speaker is swapped onto the current page when they
+ * would otherwise be on another one.
+ */
+export const useGalleryPagination = <T extends { id: string }>({
+  items,
+  pageSize,
+  dominantSpeakerId,
+}: UseGalleryPaginationProps<T>) => {
+  const [page, setPage] = useState(0);
+
+  const perPage = Math.max(1, pageSize - 1);
+  const pageCount = Math.max(1, Math.ceil(items.length / perPage));
+  // Snap back when participants leave and the last page disappears
+  const currentPage = Math.min(page, pageCount - 1);
+
+  const pageItems = useMemo(() => {
+    const start = currentPage * perPage;
+    const visible = items.slice(start, start + perPage);
+
+    if (!dominantSpeakerId || visible.some((p) => p.id === dominantSpeakerId)) {
+      return visible;
+    }
+
+    const speaker = items.find((p) => p.id === dominantSpeakerId);
+    if (!speaker) return visible;
+
+    // Swap the speaker into the last slot of this page
+    return visible.length < perPage
+      ? [...visible, speaker]
+      : [...visible.slice(0, -1), speaker];
+  }, [items, currentPage, perPage, dominantSpeakerId]);
+
+  return {
+    pageItems,
+    page: currentPage,
+    pageCount,
+    hasPrevious: currentPage > 0,
+    hasNext: currentPage < pageCount - 1,
+    previousPage: () => setPage(Math.max(0, currentPage - 1)),
+    nextPage: () => setPage(Math.min(pageCount - 1, currentPage + 1)),
+  };
+};
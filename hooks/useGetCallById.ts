@@ -2,6 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useUser } from "@clerk/nextjs";
+import { getCreatedMeeting } from "@/lib/userSettings";
 
 // ✅ Define a simple interface for your meeting metadata
 export interface MeetingRoom {
@@ -9,6 +10,8 @@ export interface MeetingRoom {
   description?: string;
   startsAt?: string;
   createdBy?: string;
+  endedAt?: string;
+  cancelledAt?: string;
 }
 
 export const useGetCallById = (id: string | string[]) => {
@@ -23,43 +26,45 @@ export const useGetCallById = (id: string | string[]) => {
 
     const loadCall = async () => {
       try {
-        // ✅ PHASE 6: Replace with your actual API endpoint
-        // const response = await fetch(`/api/meetings/${roomId}`);
-        // const data = await response.json();
+        const response = await fetch(`/api/meetings/${roomId}`);
+        if (response.ok) {
+          const data: { meeting: MeetingRoom } = await response.json();
+          setCall(data.meeting);
+          setIsCallLoading(false);
+          return;
+        }
+        if (response.status !== 404) {
+          throw new Error(`Failed to load meeting (${response.status})`);
+        }
 
-        // ✅ NEW: Check localStorage to see if current user created this meeting
+        // ✅ Not in the meetings API: personal rooms use the owner's user ID,
+        // and older meetings may only be remembered in user settings
         let createdBy = "unknown";
         let description = "Meeting";
-        try {
-          const createdMeetings = JSON.parse(
-            localStorage.getItem("created-meetings") || "[]"
-          );
-          const meeting = createdMeetings.find((m: any) => m.id === roomId);
-          if (meeting) {
-            createdBy = meeting.createdBy;
-            description = meeting.description || "Meeting";
-            console.log("✅ Found meeting in localStorage:", {
-              roomId,
-              createdBy,
-              isCurrentUser: user?.id === createdBy,
-            });
-          } else {
-            console.log(
-              "ℹ️ Meeting not found in localStorage, treating as joined meeting"
-            );
-          }
-        } catch (err) {
-          console.error("Failed to read created meetings from localStorage:", err);
+        const meeting = getCreatedMeeting(roomId);
+        if (roomId === user?.id) {
+          createdBy = user.id;
+          description = "Personal Room";
+        } else if (meeting) {
+          createdBy = meeting.createdBy;
+          description = meeting.description || "Meeting";
+          console.log("✅ Found meeting in user settings:", {
+            roomId,
+            createdBy,
+            isCurrentUser: user?.id === createdBy,
+          });
+        } else {
+          console.log("ℹ️ Meeting not found, treating as joined meeting");
         }
 
-        const mockCall: MeetingRoom = {
+        const fallbackCall: MeetingRoom = {
           id: roomId,
           description,
           startsAt: new Date().toISOString(),
-          createdBy, // ✅ Now using actual creator ID from localStorage
+          createdBy,
         };
 
-        setCall(mockCall);
+        setCall(fallbackCall);
         setIsCallLoading(false);
       } catch (error) {
         console.error("Failed to fetch room metadata:", error);
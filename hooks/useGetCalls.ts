@@ -3,18 +3,36 @@
 import { useEffect, useState } from 'react';
 import { useUser } from '@clerk/nextjs';
 
-// ✅ Define a generic Meeting interface to replace the Stream Call type
+// ✅ Mirrors MeetingRecord from lib/meetingStorage (kept separate so the
+// client bundle never pulls in the server-only storage module)
 export interface Meeting {
   id: string;
   description: string;
   startsAt: string;
   endedAt?: string;
+  cancelledAt?: string;
   createdBy: string;
 }
 
+// ✅ Mirrors RecordingRecord from lib/recordingStorage
+export interface Recording {
+  id: string;
+  roomId: string;
+  title: string;
+  url: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  durationMs: number;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
 export const useGetCalls = () => {
   const { user } = useUser();
   const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
@@ -24,12 +42,21 @@ export const useGetCalls = () => {
       setIsLoading(true);
 
       try {
-        // ✅ PHASE 6: Fetch from YOUR backend database
-        // const response = await fetch(`/api/meetings?userId=${user.id}`);
-        // const data = await response.json();
-        
-        // For now, we return an empty array or mock data to prevent UI crashes
-        setMeetings([]); 
+        const [meetingsResponse, recordingsResponse] = await Promise.all([
+          fetch("/api/meetings"),
+          fetch("/api/recordings"),
+        ]);
+        if (!meetingsResponse.ok || !recordingsResponse.ok) {
+          throw new Error(
+            `Failed to load meetings (${meetingsResponse.status}/${recordingsResponse.status})`
+          );
+        }
+        const meetingsData: { meetings: Meeting[] } =
+          await meetingsResponse.json();
+        const recordingsData: { recordings: Recording[] } =
+          await recordingsResponse.json();
+        setMeetings(meetingsData.meetings);
+        setRecordings(recordingsData.recordings);
       } catch (error) {
         console.error("Error fetching meetings:", error);
       } finally {
@@ -42,19 +69,18 @@ export const useGetCalls = () => {
 
   const now = new Date();
 
-  // Logic remains the same, just using our custom Meeting interface
   const endedCalls = meetings.filter(({ startsAt, endedAt }: Meeting) => {
     return (startsAt && new Date(startsAt) < now) || !!endedAt;
   });
 
-  const upcomingCalls = meetings.filter(({ startsAt }: Meeting) => {
-    return startsAt && new Date(startsAt) > now;
+  const upcomingCalls = meetings.filter(({ startsAt, endedAt }: Meeting) => {
+    return startsAt && new Date(startsAt) > now && !endedAt;
   });
 
   return { 
     endedCalls, 
     upcomingCalls, 
-    callRecordings: meetings, // You will later link this to your S3/Storage bucket
+    callRecordings: recordings,
     isLoading 
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+// ✅ Mirrors AccountType from lib/mpesaTransactions and the GivingEntry,
+// GivingTotals and MeetingGivingTally shapes from lib/givingLedger (kept
+// separate so the client bundle never pulls in the server-only ledger)
+export type AccountType = "OFFERING" | "TITHE" | "PARTNERSHIP" | "MISSIONS";
+
+export interface GivingEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  roomId?: string;
+  meetingTitle?: string;
+  accountType: AccountType;
+  amount: number;
+  phoneNumber: string;
+  mpesaReceiptNumber?: string;
+  givenAt: string;
+}
+
+export interface GivingTotals {
+  total: number;
+  count: number;
+  byAccountType: Record<AccountType, { total: number; count: number }>;
+}
+
+export interface NamedGift {
+  id: string;
+  userName: string;
+  accountType: AccountType;
+  amount: number;
+  givenAt: string;
+}
+
+export interface MeetingGivingTally extends GivingTotals {
+  roomId: string;
+  /** Only givers who opted in to being named are itemised */
+  namedGifts: NamedGift[];
+}
+
+export interface GivingTotalsFilter {
+  accountType?: AccountType;
+  /** YYYY-MM-DD */
+  from?: string;
+  /** YYYY-MM-DD */
+  to?: string;
+}
+
+export const getGivingTotalsQuery = (filter: GivingTotalsFilter) => {
+  const params = new URLSearchParams();
+  if (filter.accountType) params.set("accountType", filter.accountType);
+  if (filter.from) params.set("from", filter.from);
+  if (filter.to) params.set("to", filter.to);
+  return params.toString();
+};
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed (${response.status})`);
+  }
+  return data;
+};
+
+/** The signed-in user's own giving history */
+export const useMyGiving = () => {
+  const [entries, setEntries] = useState<GivingEntry[]>([]);
+  const [totals, setTotals] = useState<GivingTotals | null>(null);
+  const [isTreasurer, setIsTreasurer] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchJson<{
+      entries: GivingEntry[];
+      totals: GivingTotals;
+      isTreasurer: boolean;
+    }>("/api/giving")
+      .then((data) => {
+        setEntries(data.entries);
+        setTotals(data.totals);
+        setIsTreasurer(data.isTreasurer);
+      })
+      .catch((err: Error) => {
+        console.error("Error fetching giving:", err);
+        setError(err.message);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  return { entries, totals, isTreasurer, isLoading, error };
+};
+
+/** Everyone's giving matching the filter - treasurers only */
+export const useGivingTotals = (filter: GivingTotalsFilter) => {
+  const [entries, setEntries] = useState<GivingEntry[]>([]);
+  const [totals, setTotals] = useState<GivingTotals | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The query the current results are for; loading until it catches up
+  const [loadedQuery, setLoadedQuery] = useState<string | null>(null);
+  const query = getGivingTotalsQuery(filter);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchJson<{ entries: GivingEntry[]; totals: GivingTotals }>(
+      `/api/giving/totals?${query}`
+    )
+      .then((data) => {
+        if (cancelled) return;
+        setEntries(data.entries);
+        setTotals(data.totals);
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadedQuery(query);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return { entries, totals, isLoading: loadedQuery !== query, error };
+};
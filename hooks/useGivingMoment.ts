@@ -0,0 +1,125 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useUser } from "@clerk/nextjs";
+import { toast } from "sonner";
+
+import { getSocket } from "@/lib/socket";
+import type { AccountType, MeetingGivingTally } from "@/hooks/useGiving";
+import type { GivingMoment } from "@/lib/socketEvents";
+
+// The socket nudges hosts when a gift lands; polling covers a missed nudge
+const TALLY_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * The room's giving moment: hosts and co-hosts start and end it, everyone
+ * sees it. The signaling server sends the current moment on join.
+ */
+export const useGivingMoment = (roomId: string) => {
+  const { user } = useUser();
+  const socket = getSocket();
+  const [moment, setMoment] = useState<GivingMoment | null>(null);
+
+  useEffect(() => {
+    const handleGivingMoment = ({
+      moment,
+    }: {
+      moment: GivingMoment | null;
+    }) => {
+      console.log("🙏 Giving moment", moment ? "started" : "ended");
+      setMoment(moment);
+    };
+
+    socket.on("giving-moment", handleGivingMoment);
+    return () => {
+      socket.off("giving-moment", handleGivingMoment);
+    };
+  }, [socket]);
+
+  const startGivingMoment = useCallback(
+    (options: { accountType?: AccountType; message?: string }) => {
+      if (!user) return;
+      socket.emit(
+        "start-giving-moment",
+        {
+          roomId,
+          userId: user.id,
+          startedByName: user.fullName || user.firstName || undefined,
+          accountType: options.accountType,
+          message: options.message?.trim() || undefined,
+        },
+        (response) => {
+          if (response?.error) {
+            toast.error(response.error);
+            return;
+          }
+          if (response?.moment) setMoment(response.moment);
+          toast.success("Giving moment started for everyone");
+        }
+      );
+    },
+    [roomId, socket, user]
+  );
+
+  const endGivingMoment = useCallback(() => {
+    if (!user) return;
+    socket.emit("end-giving-moment", { roomId, userId: user.id }, (response) => {
+      if (response?.error) {
+        toast.error(response.error);
+        return;
+      }
+      setMoment(null);
+    });
+  }, [roomId, socket, user]);
+
+  return { moment, startGivingMoment, endGivingMoment };
+};
+
+export type GivingMomentControls = ReturnType<typeof useGivingMoment>;
+
+/**
+ * The owner's running giving total for this meeting. Personal rooms are
+ * reused meeting after meeting, so there it only counts gifts since the
+ * owner opened the room.
+ */
+export const useGivingTally = (roomId: string, enabled: boolean) => {
+  const { user } = useUser();
+  const socket = getSocket();
+  const [tally, setTally] = useState<MeetingGivingTally | null>(null);
+  const [openedAt] = useState(() => new Date().toISOString());
+  const since = roomId === user?.id ? openedAt : undefined;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    const query = since ? `?since=${encodeURIComponent(since)}` : "";
+
+    const loadTally = async () => {
+      try {
+        const response = await fetch(`/api/meetings/${roomId}/giving${query}`);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: { tally: MeetingGivingTally } = await response.json();
+        if (!cancelled) setTally(data.tally);
+      } catch (error) {
+        console.error("❌ Error fetching giving tally:", error);
+      }
+    };
+
+    const handleGivingUpdated = (data: { roomId: string }) => {
+      if (data.roomId === roomId) void loadTally();
+    };
+
+    void loadTally();
+    const pollTimer = setInterval(loadTally, TALLY_POLL_INTERVAL_MS);
+    socket.on("giving-updated", handleGivingUpdated);
+
+    return () => {
+      cancelled = true;
+      clearInterval(pollTimer);
+      socket.off("giving-updated", handleGivingUpdated);
+    };
+  }, [enabled, roomId, since, socket]);
+
+  return tally;
+};
@@ -1,8 +1,9 @@
 import { useCallback } from "react";
 import { useUser } from "@clerk/nextjs";
 import { toast } from "sonner";
+import type { AppSocket } from "@/lib/socketEvents";
 
-export function useHostControls(socket: any, roomId: string) {
+export function useHostControls(socket: AppSocket | null, roomId: string) {
   const { user } = useUser();
 
   const toggleRemoteAudio = useCallback(
@@ -0,0 +1,321 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { useMediasoupContext } from "@/contexts/MediasoupContext";
+import { UploadError, uploadFileInChunks } from "@/lib/chunkedUpload";
+import {
+  drawAvatar,
+  drawVideoFrame,
+  hasLiveVideo,
+} from "@/lib/canvasDrawing";
+
+export type RecorderStatus = "idle" | "recording" | "uploading";
+
+const RECORDING_WIDTH = 1280;
+const RECORDING_HEIGHT = 720;
+const RECORDING_FPS = 30;
+// Audio tracks come and go (joins, leaves, device switches); re-check once a second
+const AUDIO_SYNC_EVERY_FRAMES = RECORDING_FPS;
+// Each attempt already retries chunks; this resumes the session after that
+const MAX_UPLOAD_ATTEMPTS = 3;
+
+const PREFERRED_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+const pickMimeType = () =>
+  PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ||
+  "";
+
+// ----------------------------
+// COMPOSITOR
+// ----------------------------
+
+/**
+ * Paint the meeting grid exactly as it is laid out on screen: every tile inside
+ * [data-recording-surface] is drawn at its on-screen position, scaled to fit
+ */
+const drawMeetingComposite = (ctx: CanvasRenderingContext2D) => {
+  ctx.fillStyle = "#0F1115";
+  ctx.fillRect(0, 0, RECORDING_WIDTH, RECORDING_HEIGHT);
+
+  const surface = document.querySelector<HTMLElement>("[data-recording-surface]");
+  if (!surface) return;
+
+  const bounds = surface.getBoundingClientRect();
+  if (bounds.width === 0 || bounds.height === 0) return;
+
+  const scale = Math.min(
+    RECORDING_WIDTH / bounds.width,
+    RECORDING_HEIGHT / bounds.height
+  );
+  const offsetX = (RECORDING_WIDTH - bounds.width * scale) / 2;
+  const offsetY = (RECORDING_HEIGHT - bounds.height * scale) / 2;
+
+  surface.querySelectorAll<HTMLElement>("[data-tile-id]").forEach((tile) => {
+    const rect = tile.getBoundingClientRect();
+    // Skip tiles scrolled out of the grid
+    if (
+      rect.width === 0 ||
+      rect.bottom <= bounds.top ||
+      rect.top >= bounds.bottom ||
+      rect.right <= bounds.left ||
+      rect.left >= bounds.right
+    ) {
+      return;
+    }
+
+    const id = tile.dataset.tileId || "";
+    const name = tile.dataset.tileName || "";
+    const x = offsetX + (rect.left - bounds.left) * scale;
+    const y = offsetY + (rect.top - bounds.top) * scale;
+    const width = rect.width * scale;
+    const height = rect.height * scale;
+
+    const video = tile.querySelector("video");
+    if (video && hasLiveVideo(video) && video.videoWidth > 0) {
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(x, y, width, height);
+      // Self view is never mirrored in the recording; others see it unflipped
+      const isScreen = id.endsWith("-screen");
+      drawVideoFrame(ctx, video, x, y, width, height, false, isScreen ? "contain" : "cover");
+    } else {
+      drawAvatar(ctx, { id, name }, x, y, width, height, height < 160);
+    }
+
+    // Name label
+    if (name) {
+      ctx.font = "12px -apple-system, BlinkMacSystemFont, sans-serif";
+      ctx.textAlign = "left";
+      ctx.textBaseline = "middle";
+      const labelWidth = ctx.measureText(name).width + 12;
+      ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.fillRect(x + 6, y + height - 26, labelWidth, 20);
+      ctx.fillStyle = "white";
+      ctx.fillText(name, x + 12, y + height - 16);
+    }
+  });
+};
+
+// ----------------------------
+// HOOK
+// ----------------------------
+
+/**
+ * Record the meeting locally: the on-screen layout composited onto a canvas,
+ * plus every participant's audio and the local mic, captured with
+ * MediaRecorder and uploaded in chunks through /api/upload/sessions when
+ * recording stops.
+ */
+export const useMeetingRecorder = () => {
+  const { roomId, remoteStreams, localStream, setRecordingState } =
+    useMediasoupContext();
+  const [status, setStatus] = useState<RecorderStatus>("idle");
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const audioSourcesRef = useRef<Map<string, MediaStreamAudioSourceNode>>(
+    new Map()
+  );
+  const frameTimerRef = useRef<number | null>(null);
+  const startedAtRef = useRef<number>(0);
+
+  // Latest streams for the frame loop, which outlives any single render
+  const streamsRef = useRef({ remoteStreams, localStream });
+  useEffect(() => {
+    streamsRef.current = { remoteStreams, localStream };
+  }, [remoteStreams, localStream]);
+
+  // Connect new audio tracks to the mix and drop ended ones
+  const syncAudioSources = (
+    context: AudioContext,
+    destination: MediaStreamAudioDestinationNode
+  ) => {
+    const { remoteStreams, localStream } = streamsRef.current;
+    const tracks = [
+      ...Array.from(remoteStreams.values()),
+      ...(localStream ? [localStream] : []),
+    ]
+      .flatMap((stream) => stream.getAudioTracks())
+      .filter((track) => track.readyState === "live");
+
+    const sources = audioSourcesRef.current;
+    const liveIds = new Set(tracks.map((track) => track.id));
+
+    sources.forEach((source, trackId) => {
+      if (!liveIds.has(trackId)) {
+        source.disconnect();
+        sources.delete(trackId);
+      }
+    });
+
+    tracks.forEach((track) => {
+      if (sources.has(track.id)) return;
+      const source = context.createMediaStreamSource(new MediaStream([track]));
+      source.connect(destination);
+      sources.set(track.id, source);
+    });
+  };
+
+  const uploadRecording = async (blob: Blob, mimeType: string) => {
+    const extension = mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const file = new File([blob], `recording-${roomId}-${stamp}.${extension}`, {
+      type: mimeType || blob.type,
+    });
+
+    const durationMs = Date.now() - startedAtRef.current;
+    // Never aborted: leaving the meeting shouldn't lose the recording
+    const { signal } = new AbortController();
+    let sessionId: string | undefined;
+
+    setStatus("uploading");
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await uploadFileInChunks(file, {
+            roomId: roomId || "",
+            type: "video",
+            kind: "recording",
+            durationMs,
+            signal,
+            sessionId,
+            onSession: (id) => {
+              sessionId = id;
+            },
+          });
+          break;
+        } catch (error) {
+          const retryable = error instanceof UploadError && error.retryable;
+          if (!retryable || attempt >= MAX_UPLOAD_ATTEMPTS) throw error;
+          console.warn(`⚠️ Recording upload stalled, resuming (attempt ${attempt + 1}):`, error);
+        }
+      }
+      console.log("✅ Recording uploaded");
+      toast.success("Recording saved to Recordings");
+    } catch (error) {
+      console.error("❌ Failed to upload recording:", error);
+      // Don't lose the recording - hand it to the user directly instead
+      const url = URL.createObjectURL(file);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.name;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+      toast.error("Couldn't upload the recording, so it was downloaded instead");
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  const teardown = () => {
+    if (frameTimerRef.current !== null) {
+      window.clearInterval(frameTimerRef.current);
+      frameTimerRef.current = null;
+    }
+    audioSourcesRef.current.forEach((source) => source.disconnect());
+    audioSourcesRef.current.clear();
+    audioContextRef.current?.close();
+    audioContextRef.current = null;
+  };
+
+  const startRecording = async () => {
+    if (recorderRef.current || !roomId) return;
+    if (typeof MediaRecorder === "undefined") {
+      toast.error("Recording isn't supported in this browser");
+      return;
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = RECORDING_WIDTH;
+    canvas.height = RECORDING_HEIGHT;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    const audioContext = new AudioContext();
+    const destination = audioContext.createMediaStreamDestination();
+    audioContextRef.current = audioContext;
+    syncAudioSources(audioContext, destination);
+
+    // setInterval rather than requestAnimationFrame: rAF stops entirely in a
+    // background tab, which would freeze the recording
+    let frame = 0;
+    drawMeetingComposite(ctx);
+    frameTimerRef.current = window.setInterval(() => {
+      drawMeetingComposite(ctx);
+      frame += 1;
+      if (frame % AUDIO_SYNC_EVERY_FRAMES === 0) {
+        syncAudioSources(audioContext, destination);
+      }
+    }, 1000 / RECORDING_FPS);
+
+    const videoTrack = canvas.captureStream(RECORDING_FPS).getVideoTracks()[0];
+    const stream = new MediaStream([
+      videoTrack,
+      ...destination.stream.getAudioTracks(),
+    ]);
+
+    const mimeType = pickMimeType();
+    const chunks: Blob[] = [];
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.error("❌ Failed to start MediaRecorder:", error);
+      videoTrack.stop();
+      teardown();
+      toast.error("Couldn't start recording");
+      return;
+    }
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      videoTrack.stop();
+      teardown();
+      recorderRef.current = null;
+      setRecordingState(false);
+
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType });
+      if (blob.size === 0) {
+        setStatus("idle");
+        return;
+      }
+      uploadRecording(blob, recorder.mimeType || mimeType);
+    };
+
+    recorder.start(1000);
+    recorderRef.current = recorder;
+    startedAtRef.current = Date.now();
+    setStatus("recording");
+    setRecordingState(true);
+    console.log("🔴 Recording started:", recorder.mimeType || mimeType);
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+    console.log("⏹️ Recording stopped");
+    recorder.stop();
+  };
+
+  // Leaving the meeting (or it ending) still saves what was recorded
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") recorder.stop();
+    };
+  }, []);
+
+  return {
+    status,
+    isRecording: status === "recording",
+    startRecording,
+    stopRecording,
+  };
+};
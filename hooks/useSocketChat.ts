@@ -1,52 +1,106 @@
 "use client";
 
 import { useEffect, useState, useCallback, useRef } from "react";
+import { toast } from "sonner";
 import { getSocket } from "@/lib/socket";
 import { useUser } from "@clerk/nextjs";
+import type {
+  ChatAttachment,
+  MessageDeletedPayload,
+  MessageEditedPayload,
+  ReceivedMessage,
+  SocketChatMessage,
+} from "@/lib/socketEvents";
 
-export type ChatAttachment = {
-  id: string;
+export type { ChatAttachment, ReceivedMessage, SocketChatMessage };
+
+type TypingUser = {
+  socketId: string;
   name: string;
-  type: "image" | "video" | "audio" | "file";
-  mime: string;
-  size: number;
-  previewUrl?: string;
-  url?: string;
-  uploading?: boolean;
-  progress?: number;
-  file?: File;
 };
 
-export type SocketChatMessage = {
-  id: string;
-  text: string;
-  createdAt: number;
-  pinned: boolean;
-  sender: {
-    id: string;
-    name: string;
-    avatarUrl?: string;
-  };
-  attachments?: ChatAttachment[];
-  replyTo?: {
-    id: string;
-    text: string;
-    senderName: string;
-  };
-  reactions?: Record<string, string[]>; // emoji -> userIds
+/** The room-wide conversation; private ones are keyed by the other person's user ID */
+export const EVERYONE_CONVERSATION = "everyone";
+
+/**
+ * Which conversation a message belongs to, from this user's point of view
+ */
+export const getConversationId = (
+  message: SocketChatMessage,
+  selfUserId?: string
+): string => {
+  if (!message.recipient) return EVERYONE_CONVERSATION;
+  return message.sender.id === selfUserId
+    ? message.recipient.id
+    : message.sender.id;
 };
 
-export type ReceivedMessage = {
-  socketId: string;
-  message: SocketChatMessage;
+// Edits and deletes are broadcast to the whole room, sender included, and
+// chat history may already contain them, so applying one must be idempotent
+
+const applyMessageEdit = (
+  message: SocketChatMessage,
+  { text, editedAt }: MessageEditedPayload
+): SocketChatMessage => {
+  if (message.deleted || message.editedAt === editedAt) return message;
+  return {
+    ...message,
+    text,
+    editedAt,
+    editHistory: [
+      ...(message.editHistory || []),
+      { text: message.text, writtenAt: message.editedAt ?? message.createdAt },
+    ],
+  };
 };
 
-type TypingUser = {
-  socketId: string;
-  name: string;
+const applyMessageDelete = (
+  message: SocketChatMessage,
+  { deletedAt, deletedBy, moderated }: MessageDeletedPayload
+): SocketChatMessage => {
+  if (message.deleted) return message;
+  return {
+    ...message,
+    text: "",
+    attachments: undefined,
+    reactions: undefined,
+    editHistory: undefined,
+    pinned: false,
+    deleted: true,
+    deletedAt,
+    deletedBy,
+    moderated,
+  };
 };
 
-export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
+/** Apply a change to one message and to any reply quoting it */
+const updateMessageAndQuotes = (
+  messages: ReceivedMessage[],
+  messageId: string,
+  update: (message: SocketChatMessage) => SocketChatMessage,
+  quoteText: string
+): ReceivedMessage[] =>
+  messages.map((m) => {
+    if (m.message.id === messageId) {
+      return { ...m, message: update(m.message) };
+    }
+    if (m.message.replyTo?.id === messageId) {
+      return {
+        ...m,
+        message: {
+          ...m.message,
+          replyTo: { ...m.message.replyTo, text: quoteText },
+        },
+      };
+    }
+    return m;
+  });
+
+export const useSocketChat = (
+  roomId?: string,
+  isChatOpen?: boolean,
+  activeConversation: string = EVERYONE_CONVERSATION
+) => {
   const { user } = useUser();
   const socket = getSocket();
 
@@ -57,12 +111,23 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
   const [pinnedMessage, setPinnedMessage] = useState<SocketChatMessage | null>(
     null
   );
-  const [unreadCount, setUnreadCount] = useState(0);
+  // Unread messages per conversation ID
+  const [unreadByConversation, setUnreadByConversation] = useState<
+    Record<string, number>
+  >({});
   const [unreadMessages, setUnreadMessages] = useState<ReceivedMessage[]>([]);
+  // Hosts can turn private messages off (except to and from hosts)
+  const [privateChatEnabled, setPrivateChatEnabledState] = useState(true);
 
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const lastReadTimestampRef = useRef<number>(Date.now());
 
+  // What the user is looking at, for listeners that outlive a render
+  const viewRef = useRef({ isChatOpen, activeConversation });
+  useEffect(() => {
+    viewRef.current = { isChatOpen, activeConversation };
+  }, [isChatOpen, activeConversation]);
+
   // ----------------------------
   // CONNECT + LISTENERS
   // ----------------------------
@@ -113,10 +178,16 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
         return [...prev, data];
       });
 
-      // Track unread messages if chat is closed and message is from someone else
-      if (!isChatOpen && data.message.sender.id !== user?.id) {
+      // Track unread messages unless their conversation is on screen
+      const conversationId = getConversationId(data.message, user?.id);
+      const { isChatOpen, activeConversation } = viewRef.current;
+      const isVisible = isChatOpen && activeConversation === conversationId;
+      if (!isVisible && data.message.sender.id !== user?.id) {
         setUnreadMessages((prev) => [...prev, data]);
-        setUnreadCount((prev) => prev + 1);
+        setUnreadByConversation((prev) => ({
+          ...prev,
+          [conversationId]: (prev[conversationId] || 0) + 1,
+        }));
       }
     };
 
@@ -212,6 +283,41 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
       });
     };
 
+    const handleMessageEdited = (data: MessageEditedPayload) => {
+      setMessages((prev) =>
+        updateMessageAndQuotes(
+          prev,
+          data.messageId,
+          (message) => applyMessageEdit(message, data),
+          data.text
+        )
+      );
+      setPinnedMessage((prev) =>
+        prev?.id === data.messageId ? applyMessageEdit(prev, data) : prev
+      );
+    };
+
+    const handleMessageDeleted = (data: MessageDeletedPayload) => {
+      setMessages((prev) =>
+        updateMessageAndQuotes(
+          prev,
+          data.messageId,
+          (message) => applyMessageDelete(message, data),
+          "Message deleted"
+        )
+      );
+      setUnreadMessages((prev) =>
+        prev.filter((m) => m.message.id !== data.messageId)
+      );
+      // A deleted message can't stay pinned
+      setPinnedMessage((prev) => (prev?.id === data.messageId ? null : prev));
+    };
+
+    const handlePrivateChatSetting = ({ enabled }: { enabled: boolean }) => {
+      console.log(`💬 Private chat ${enabled ? "enabled" : "restricted to hosts"}`);
+      setPrivateChatEnabledState(enabled);
+    };
+
     const handleMessageError = ({
       messageId,
       error,
@@ -242,6 +348,9 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
     socket.on("message-react-update", handleReactionUpdate);
     socket.on("pin-message-update", handlePinUpdate);
     socket.on("message-error", handleMessageError);
+    socket.on("message-edited", handleMessageEdited);
+    socket.on("message-deleted", handleMessageDeleted);
+    socket.on("private-chat-setting", handlePrivateChatSetting);
 
     // ----------------------------
     // CLEANUP
@@ -259,17 +368,25 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
       socket.off("message-react-update", handleReactionUpdate);
       socket.off("pin-message-update", handlePinUpdate);
       socket.off("message-error", handleMessageError);
+      socket.off("message-edited", handleMessageEdited);
+      socket.off("message-deleted", handleMessageDeleted);
+      socket.off("private-chat-setting", handlePrivateChatSetting);
 
       // NOTE: Do NOT emit leave-room here - MediasoupContext handles that
       // ❌ DO NOT socket.disconnect() (singleton!)
     };
-  }, [roomId, user]);
+  }, [roomId, user, socket]);
 
   // ----------------------------
   // SEND MESSAGE
   // ----------------------------
   const sendMessage = useCallback(
-    (text: string, replyTo?: SocketChatMessage) => {
+    (
+      text: string,
+      replyTo?: SocketChatMessage,
+      attachments?: ChatAttachment[],
+      recipient?: SocketChatMessage["recipient"]
+    ) => {
       if (!roomId || !socket.id || !user) return;
 
       const message: SocketChatMessage = {
@@ -293,9 +410,22 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
               senderName: replyTo.sender.name,
             }
           : undefined,
+        attachments: attachments?.length ? attachments : undefined,
+        recipient,
       };
 
-      socket.emit("send-message", { roomId, message });
+      if (recipient) {
+        // Private messages have their own event so the server never
+        // broadcasts one to the room by mistake
+        socket.emit("send-private-message", { roomId, message }, (response) => {
+          if (!response.error) return;
+          console.error("❌ Private message rejected:", response.error);
+          setMessages((prev) => prev.filter((m) => m.message.id !== message.id));
+          toast.error(response.error);
+        });
+      } else {
+        socket.emit("send-message", { roomId, message });
+      }
 
       // Optimistic update: add message immediately for sender
       setMessages((prev) => [...prev, { socketId: socket.id!, message }]);
@@ -308,6 +438,8 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
   // ----------------------------
   const pinMessage = useCallback(
     (messageOrId: SocketChatMessage | string, isPinned?: boolean) => {
+      if (!roomId) return;
+
       let messageId: string;
       let pinnedStatus: boolean;
 
@@ -343,6 +475,66 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
     [roomId, socket, user]
   );
 
+  // ----------------------------
+  // EDIT / DELETE MESSAGE
+  // ----------------------------
+  const editMessage = useCallback(
+    (messageId: string, text: string) => {
+      if (!roomId || !user || !text.trim()) return;
+
+      socket.emit(
+        "edit-message",
+        { roomId, messageId, text: text.trim(), userId: user.id },
+        (response) => {
+          if (response.error) {
+            console.error("❌ Failed to edit message:", response.error);
+            toast.error(response.error);
+          }
+        }
+      );
+    },
+    [roomId, socket, user]
+  );
+
+  // Hosts and co-hosts can delete anyone's message; the server checks
+  const deleteMessage = useCallback(
+    (messageId: string) => {
+      if (!roomId || !user) return;
+
+      socket.emit(
+        "delete-message",
+        {
+          roomId,
+          messageId,
+          userId: user.id,
+          userName:
+            user.fullName ||
+            user.username ||
+            user.primaryEmailAddress?.emailAddress ||
+            "User",
+        },
+        (response) => {
+          if (response.error) {
+            console.error("❌ Failed to delete message:", response.error);
+            toast.error(response.error);
+          }
+        }
+      );
+    },
+    [roomId, socket, user]
+  );
+
+  // ----------------------------
+  // PRIVATE CHAT SETTING (HOSTS)
+  // ----------------------------
+  const setPrivateChatEnabled = useCallback(
+    (enabled: boolean) => {
+      if (!roomId || !user) return;
+      socket.emit("set-private-chat", { roomId, userId: user.id, enabled });
+    },
+    [roomId, socket, user]
+  );
+
   // ----------------------------
   // TYPING
   // ----------------------------
@@ -365,19 +557,34 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
     }, 1500);
   }, [roomId, socket, user]);
 
-  // Mark messages as read when chat is opened
-  const markAsRead = useCallback(() => {
-    setUnreadCount(0);
-    setUnreadMessages([]);
-    lastReadTimestampRef.current = Date.now();
-  }, []);
+  // Mark one conversation's messages as read
+  const markAsRead = useCallback(
+    (conversationId: string = EVERYONE_CONVERSATION) => {
+      setUnreadByConversation((prev) => {
+        if (!prev[conversationId]) return prev;
+        const next = { ...prev };
+        delete next[conversationId];
+        return next;
+      });
+      setUnreadMessages((prev) =>
+        prev.filter((m) => getConversationId(m.message, user?.id) !== conversationId)
+      );
+      lastReadTimestampRef.current = Date.now();
+    },
+    [user?.id]
+  );
 
-  // Auto-mark as read when chat is opened
+  // Auto-mark as read when a conversation is on screen
   useEffect(() => {
     if (isChatOpen) {
-      markAsRead();
+      markAsRead(activeConversation);
     }
-  }, [isChatOpen, markAsRead]);
+  }, [isChatOpen, activeConversation, markAsRead]);
+
+  const unreadCount = Object.values(unreadByConversation).reduce(
+    (total, count) => total + count,
+    0
+  );
 
   return {
     connected,
@@ -389,8 +596,13 @@ export const useSocketChat = (roomId?: string, isChatOpen?: boolean) => {
     pinnedMessage,
     pinMessage,
     reactToMessage,
+    editMessage,
+    deleteMessage,
     unreadCount,
+    unreadByConversation,
     unreadMessages,
+    privateChatEnabled,
+    setPrivateChatEnabled,
     markAsRead,
   };
 };
@@ -0,0 +1,19 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  subscribeToSettings,
+} from "@/lib/userSettings";
+
+/**
+ * Live view of the persisted user settings. Re-renders whenever any section
+ * changes, in this tab or another one.
+ */
+export const useUserSettings = () =>
+  useSyncExternalStore(
+    subscribeToSettings,
+    getSettings,
+    () => DEFAULT_SETTINGS
+  );
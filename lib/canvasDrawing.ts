@@ -0,0 +1,150 @@
+/**
+ * Canvas Drawing
+ *
+ * Shared helpers for painting meeting tiles onto a canvas: participant video
+ * frames and the coloured-initials avatar shown when a camera is off.
+ * Used by the Picture-in-Picture window and by local recording.
+ */
+
+export interface CanvasParticipant {
+  id: string;
+  name: string;
+}
+
+export type VideoFit = "fill" | "cover" | "contain";
+
+const AVATAR_COLORS = [
+  "#FF6B6B", "#4ECDC4", "#556270", "#C44DFF",
+  "#45B7D1", "#FFA931", "#6BCB77", "#F7B801"
+];
+
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, sans-serif";
+
+export const getColorForUser = (userId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = userId.charCodeAt(i) + ((hash << 5) - hash);
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length];
+};
+
+export const getInitials = (name: string): string => {
+  return name
+    .split(" ")
+    .map(n => n.charAt(0))
+    .join("")
+    .toUpperCase()
+    .slice(0, 2);
+};
+
+/**
+ * Find the <video> a MediasoupTile renders for a participant
+ * @param peerId - Participant ID, or `${id}-screen` for a screen share
+ */
+export const findTileVideo = (peerId: string): HTMLVideoElement | null => {
+  const videoEls = Array.from(document.querySelectorAll("video")) as HTMLVideoElement[];
+  return videoEls.find(v => v.dataset.peerId === peerId) || null;
+};
+
+/** Whether a video element is currently showing a live video track */
+export const hasLiveVideo = (videoEl: HTMLVideoElement | null): boolean => {
+  const stream = videoEl?.srcObject as MediaStream | null | undefined;
+  if (!stream) return false;
+
+  const videoTracks = stream.getVideoTracks();
+  return videoTracks.length > 0 && videoTracks[0].readyState === "live";
+};
+
+/**
+ * Draw the avatar placeholder: dark background, coloured circle with initials
+ * and (for large tiles) the participant's name underneath
+ */
+export const drawAvatar = (
+  ctx: CanvasRenderingContext2D,
+  participant: CanvasParticipant,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  isSmall = false
+) => {
+  // Background
+  ctx.fillStyle = "#1f1f1f";
+  ctx.fillRect(x, y, width, height);
+
+  // Avatar circle
+  const circleRadius = isSmall ? 25 : Math.min(width, height) * 0.25;
+  const centerX = x + width / 2;
+  const centerY = y + height / 2 - (isSmall ? 0 : 20);
+
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, circleRadius, 0, Math.PI * 2);
+  ctx.closePath();
+  ctx.fillStyle = getColorForUser(participant.id);
+  ctx.fill();
+
+  // Initials
+  ctx.fillStyle = "white";
+  ctx.font = `${isSmall ? 16 : 32}px ${FONT_FAMILY}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(getInitials(participant.name), centerX, centerY);
+
+  // Name label (only for main content)
+  if (!isSmall) {
+    ctx.font = `14px ${FONT_FAMILY}`;
+    ctx.fillText(participant.name, centerX, centerY + circleRadius + 25);
+  }
+};
+
+/**
+ * Draw the current frame of a video element into a rectangle
+ * @param fit - "fill" stretches, "cover" crops like object-cover,
+ *   "contain" letterboxes like object-contain
+ * @param mirror - Flip horizontally (self view)
+ */
+export const drawVideoFrame = (
+  ctx: CanvasRenderingContext2D,
+  videoEl: HTMLVideoElement,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  mirror = false,
+  fit: VideoFit = "fill"
+) => {
+  const videoWidth = videoEl.videoWidth || width;
+  const videoHeight = videoEl.videoHeight || height;
+
+  let drawX = 0;
+  let drawY = 0;
+  let drawWidth = width;
+  let drawHeight = height;
+  if (fit !== "fill") {
+    const scale =
+      fit === "cover"
+        ? Math.max(width / videoWidth, height / videoHeight)
+        : Math.min(width / videoWidth, height / videoHeight);
+    drawWidth = videoWidth * scale;
+    drawHeight = videoHeight * scale;
+    drawX = (width - drawWidth) / 2;
+    drawY = (height - drawHeight) / 2;
+  }
+
+  ctx.save();
+
+  // Clip so "cover" never paints outside its tile
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+
+  if (mirror) {
+    ctx.translate(x + width, y);
+    ctx.scale(-1, 1);
+    ctx.drawImage(videoEl, width - drawX - drawWidth, drawY, drawWidth, drawHeight);
+  } else {
+    ctx.drawImage(videoEl, x + drawX, y + drawY, drawWidth, drawHeight);
+  }
+
+  ctx.restore();
+};
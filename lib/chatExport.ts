@@ -0,0 +1,287 @@
+/**
+ * Chat Export
+ *
+ * Turns a room's chat history into a downloadable transcript - Markdown,
+ * plain text, JSON or CSV - with timestamps, replies, reactions and
+ * attachment links. Only the room-wide conversation is exported; private
+ * messages stay between the two people who exchanged them.
+ */
+
+import type { SocketChatMessage } from "./socketEvents";
+import { toCsv } from "./csv";
+
+export type ChatExportFormat = "markdown" | "text" | "json" | "csv";
+
+export const CHAT_EXPORT_FORMATS: {
+  format: ChatExportFormat;
+  label: string;
+  extension: string;
+  mime: string;
+}[] = [
+  { format: "markdown", label: "Markdown", extension: "md", mime: "text/markdown" },
+  { format: "text", label: "Plain text", extension: "txt", mime: "text/plain" },
+  { format: "json", label: "JSON", extension: "json", mime: "application/json" },
+  { format: "csv", label: "CSV (spreadsheet)", extension: "csv", mime: "text/csv" },
+];
+
+export interface ChatExportOptions {
+  /** Meeting title for the transcript header and file name */
+  title: string;
+  roomId: string;
+  /** Prefix for relative attachment URLs, e.g. window.location.origin */
+  origin?: string;
+  exportedAt?: Date;
+}
+
+interface TranscriptEntry {
+  id: string;
+  time: string;
+  sender: string;
+  text: string;
+  edited: boolean;
+  deleted: boolean;
+  pinned: boolean;
+  replyTo?: { sender: string; text: string };
+  reactions: { emoji: string; count: number; names: string[] }[];
+  attachments: { name: string; type: string; size: number; url: string }[];
+}
+
+// ----------------------------
+// TRANSCRIPT ENTRIES
+// ----------------------------
+
+/** Room-wide messages only, oldest first */
+export const getExportableMessages = (
+  messages: SocketChatMessage[]
+): SocketChatMessage[] =>
+  messages
+    .filter((m) => !m.recipient)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+const toEntries = (
+  messages: SocketChatMessage[],
+  origin = ""
+): TranscriptEntry[] => {
+  // Reactions only carry user IDs; name whoever we've seen in the chat
+  const names = new Map<string, string>();
+  messages.forEach((m) => names.set(m.sender.id, m.sender.name));
+
+  return messages.map((m) => ({
+    id: m.id,
+    time: new Date(m.createdAt).toISOString(),
+    sender: m.sender.name,
+    text: m.deleted
+      ? m.moderated
+        ? "[Message removed by a host]"
+        : "[Message deleted]"
+      : m.text,
+    edited: !!m.editedAt,
+    deleted: !!m.deleted,
+    pinned: m.pinned,
+    replyTo: m.replyTo && { sender: m.replyTo.senderName, text: m.replyTo.text },
+    reactions: Object.entries(m.reactions || {}).map(([emoji, userIds]) => ({
+      emoji,
+      count: userIds.length,
+      names: userIds.map((id) => names.get(id)).filter((n): n is string => !!n),
+    })),
+    attachments: (m.attachments || [])
+      .filter((a) => a.url)
+      .map((a) => ({
+        name: a.name,
+        type: a.type,
+        size: a.size,
+        url: a.url!.startsWith("/") ? `${origin}${a.url}` : a.url!,
+      })),
+  }));
+};
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatReactions = (entry: TranscriptEntry) =>
+  entry.reactions
+    .map(({ emoji, count, names }) =>
+      names.length ? `${emoji} ${count} (${names.join(", ")})` : `${emoji} ${count}`
+    )
+    .join("  ");
+
+// ----------------------------
+// FORMATS
+// ----------------------------
+
+const toMarkdown = (entries: TranscriptEntry[], options: ChatExportOptions) => {
+  const lines = [
+    `# ${options.title} - chat transcript`,
+    "",
+    `Room: \`${options.roomId}\`  `,
+    `Exported: ${(options.exportedAt ?? new Date()).toLocaleString()}  `,
+    `Messages: ${entries.length}`,
+    "",
+  ];
+
+  entries.forEach((entry) => {
+    const flags = [entry.pinned && "📌 pinned", entry.edited && "edited"]
+      .filter(Boolean)
+      .join(", ");
+    lines.push(
+      `**${entry.sender}** · ${formatTime(entry.time)}${flags ? ` · _${flags}_` : ""}`,
+      ""
+    );
+    if (entry.replyTo) {
+      lines.push(`> **${entry.replyTo.sender}:** ${entry.replyTo.text.replace(/\n/g, " ")}`, "");
+    }
+    if (entry.text) {
+      lines.push(entry.deleted ? `_${entry.text}_` : entry.text.replace(/\n/g, "  \n"), "");
+    }
+    entry.attachments.forEach((a) => lines.push(`- 📎 [${a.name}](${a.url})`));
+    if (entry.attachments.length) lines.push("");
+    if (entry.reactions.length) lines.push(formatReactions(entry), "");
+    lines.push("---", "");
+  });
+
+  return lines.join("\n");
+};
+
+const toText = (entries: TranscriptEntry[], options: ChatExportOptions) => {
+  const lines = [
+    `${options.title} - chat transcript`,
+    `Room: ${options.roomId}`,
+    `Exported: ${(options.exportedAt ?? new Date()).toLocaleString()}`,
+    `Messages: ${entries.length}`,
+    "",
+  ];
+
+  entries.forEach((entry) => {
+    const flags = [entry.pinned && "pinned", entry.edited && "edited"].filter(Boolean);
+    lines.push(
+      `[${formatTime(entry.time)}] ${entry.sender}${flags.length ? ` (${flags.join(", ")})` : ""}:`
+    );
+    if (entry.replyTo) {
+      lines.push(`  > ${entry.replyTo.sender}: ${entry.replyTo.text.replace(/\n/g, " ")}`);
+    }
+    if (entry.text) {
+      entry.text.split("\n").forEach((line) => lines.push(`  ${line}`));
+    }
+    entry.attachments.forEach((a) => lines.push(`  Attachment: ${a.name} - ${a.url}`));
+    if (entry.reactions.length) lines.push(`  Reactions: ${formatReactions(entry)}`);
+    lines.push("");
+  });
+
+  return lines.join("\n");
+};
+
+const toJson = (entries: TranscriptEntry[], options: ChatExportOptions) =>
+  JSON.stringify(
+    {
+      title: options.title,
+      roomId: options.roomId,
+      exportedAt: (options.exportedAt ?? new Date()).toISOString(),
+      messages: entries,
+    },
+    null,
+    2
+  );
+
+const toCsvTranscript = (entries: TranscriptEntry[]) =>
+  toCsv([
+    [
+      "Time",
+      "Sender",
+      "Message",
+      "Reply to",
+      "Reactions",
+      "Attachments",
+      "Pinned",
+      "Edited",
+      "Deleted",
+    ],
+    ...entries.map((entry) => [
+      entry.time,
+      entry.sender,
+      entry.text,
+      entry.replyTo ? `${entry.replyTo.sender}: ${entry.replyTo.text}` : "",
+      formatReactions(entry),
+      entry.attachments.map((a) => `${a.name} (${a.url})`).join("\n"),
+      entry.pinned,
+      entry.edited,
+      entry.deleted,
+    ]),
+  ]);
+
+// ----------------------------
+// PUBLIC API
+// ----------------------------
+
+/**
+ * Render a chat transcript
+ * @param messages - Chat history as held by useSocketChat
+ * @returns The file contents
+ */
+export function formatChatTranscript(
+  messages: SocketChatMessage[],
+  format: ChatExportFormat,
+  options: ChatExportOptions
+): string {
+  const entries = toEntries(getExportableMessages(messages), options.origin);
+
+  switch (format) {
+    case "markdown":
+      return toMarkdown(entries, options);
+    case "text":
+      return toText(entries, options);
+    case "json":
+      return toJson(entries, options);
+    case "csv":
+      return toCsvTranscript(entries);
+  }
+}
+
+/** e.g. "sunday-service-chat-2026-10-18.md" */
+export const getTranscriptFileName = (
+  title: string,
+  format: ChatExportFormat,
+  date = new Date()
+) => {
+  const slug =
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 60) || "meeting";
+  const { extension } = CHAT_EXPORT_FORMATS.find((f) => f.format === format)!;
+  return `${slug}-chat-${date.toISOString().slice(0, 10)}.${extension}`;
+};
+
+/**
+ * Render a transcript and save it through the browser's download prompt
+ */
+export function downloadChatTranscript(
+  messages: SocketChatMessage[],
+  format: ChatExportFormat,
+  options: Omit<ChatExportOptions, "origin">
+) {
+  const exportedAt = options.exportedAt ?? new Date();
+  const contents = formatChatTranscript(messages, format, {
+    ...options,
+    origin: window.location.origin,
+    exportedAt,
+  });
+  const { mime } = CHAT_EXPORT_FORMATS.find((f) => f.format === format)!;
+
+  const url = URL.createObjectURL(
+    new Blob([contents], { type: `${mime};charset=utf-8` })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getTranscriptFileName(options.title, format, exportedAt);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,90 @@
+/**
+ * Chat Search
+ *
+ * Filtering and highlighting for in-meeting chat search: free text (message,
+ * sender name, attachment names), a sender, has-attachment and pinned-only.
+ * Pure functions, shared by the search panel and the message list.
+ */
+
+import type { SocketChatMessage } from "./socketEvents";
+
+export interface ChatSearchFilters {
+  query: string;
+  /** Only messages from this user ID */
+  senderId: string | null;
+  hasAttachment: boolean;
+  pinnedOnly: boolean;
+}
+
+export const EMPTY_CHAT_SEARCH: ChatSearchFilters = {
+  query: "",
+  senderId: null,
+  hasAttachment: false,
+  pinnedOnly: false,
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Whether any filter is set, i.e. whether there is anything to search for */
+export const isChatSearchActive = (filters: ChatSearchFilters): boolean =>
+  !!filters.query.trim() ||
+  !!filters.senderId ||
+  filters.hasAttachment ||
+  filters.pinnedOnly;
+
+/**
+ * Check one message against every filter
+ * @returns False for deleted messages, which have nothing left to find
+ */
+export const matchesChatSearch = (
+  message: SocketChatMessage,
+  filters: ChatSearchFilters
+): boolean => {
+  if (message.deleted) return false;
+  if (filters.senderId && message.sender.id !== filters.senderId) return false;
+  if (filters.hasAttachment && !message.attachments?.length) return false;
+  if (filters.pinnedOnly && !message.pinned) return false;
+
+  const query = filters.query.trim().toLowerCase();
+  if (!query) return true;
+
+  return [
+    message.text,
+    message.sender.name,
+    ...(message.attachments || []).map((a) => a.name),
+  ].some((value) => value.toLowerCase().includes(query));
+};
+
+/**
+ * Split text around every case-insensitive occurrence of the query
+ * @returns Segments to render, with matches flagged for <mark>
+ */
+export const splitHighlights = (
+  text: string,
+  query: string
+): HighlightSegment[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+
+  const haystack = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    const index = haystack.indexOf(needle, position);
+    if (index === -1) break;
+    if (index > position) {
+      segments.push({ text: text.slice(position, index), match: false });
+    }
+    segments.push({ text: text.slice(index, index + needle.length), match: true });
+    position = index + needle.length;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+
+  return segments;
+};
@@ -0,0 +1,118 @@
+/**
+ * Chat Transcripts
+ *
+ * The signaling server only keeps a room's chat while the room is live, so
+ * the host's browser sends new and changed room-wide messages here as the
+ * meeting goes on (see useChatTranscriptSync). The merged transcript is what
+ * the Previous meetings page exports. Only the meeting's owner - or, for a
+ * personal room, the room's user - can save or read it. Server-only.
+ */
+
+import type { SocketChatMessage } from "./socketEvents";
+import { createJsonFileCollection } from "./jsonFileStore";
+import { getMeetingStorage } from "./meetingStorage";
+
+export interface ChatTranscriptRecord {
+  roomId: string;
+  messages: SocketChatMessage[];
+  savedBy: string;
+  updatedAt: string;
+}
+
+export const MAX_TRANSCRIPT_MESSAGES = 5000;
+
+const transcripts = createJsonFileCollection<ChatTranscriptRecord>(
+  "chat-transcripts.json"
+);
+
+/**
+ * Whether a user owns a room's transcript
+ * @returns True for the meeting's owner and for a personal room's user
+ */
+export async function canManageTranscript(
+  roomId: string,
+  userId: string
+): Promise<boolean> {
+  if (roomId === userId) return true;
+  const meeting = await getMeetingStorage().get(roomId);
+  return meeting?.createdBy === userId;
+}
+
+/**
+ * Validate messages from a request body, keeping only what a transcript
+ * needs: room-wide messages without any upload state from the composer
+ * @returns The cleaned messages, or null when the body isn't a message list
+ */
+export function parseTranscriptMessages(
+  value: unknown
+): SocketChatMessage[] | null {
+  if (!Array.isArray(value) || value.length > MAX_TRANSCRIPT_MESSAGES) {
+    return null;
+  }
+
+  const isMessage = (m: unknown): m is SocketChatMessage => {
+    const message = m as SocketChatMessage;
+    return (
+      !!message &&
+      typeof message.id === "string" &&
+      typeof message.text === "string" &&
+      typeof message.createdAt === "number" &&
+      typeof message.sender?.id === "string" &&
+      typeof message.sender?.name === "string"
+    );
+  };
+  if (!value.every(isMessage)) return null;
+
+  return value
+    .filter((m) => !m.recipient)
+    .map((m) => ({
+      ...m,
+      attachments: m.attachments
+        ?.filter((a) => a.url)
+        .map(({ id, name, type, mime, size, url }) => ({
+          id,
+          name,
+          type,
+          mime,
+          size,
+          url,
+        })),
+    }));
+}
+
+export async function getChatTranscript(
+  roomId: string
+): Promise<ChatTranscriptRecord | null> {
+  const records = await transcripts.readAll();
+  return records.find((t) => t.roomId === roomId) ?? null;
+}
+
+/**
+ * Add new and changed messages to a room's saved transcript. Messages are
+ * matched by ID, so an edit, deletion or reaction replaces the saved copy.
+ * Only the newest MAX_TRANSCRIPT_MESSAGES are kept.
+ */
+export function mergeChatTranscript(
+  roomId: string,
+  messages: SocketChatMessage[],
+  savedBy: string
+): Promise<ChatTranscriptRecord> {
+  return transcripts.update((records) => {
+    const existing = records.find((t) => t.roomId === roomId);
+    const byId = new Map((existing?.messages ?? []).map((m) => [m.id, m]));
+    messages.forEach((m) => byId.set(m.id, m));
+
+    const record: ChatTranscriptRecord = {
+      roomId,
+      messages: Array.from(byId.values())
+        .sort((a, b) => a.createdAt - b.createdAt)
+        .slice(-MAX_TRANSCRIPT_MESSAGES),
+      savedBy,
+      updatedAt: new Date().toISOString(),
+    };
+    return {
+      records: [...records.filter((t) => t.roomId !== roomId), record],
+      result: record,
+    };
+  });
+}
@@ -0,0 +1,262 @@
+/**
+ * Chunked Upload Client
+ *
+ * Browser side of /api/upload/sessions: sends a chat attachment or a meeting
+ * recording in chunks with
+ * XMLHttpRequest (fetch can't report upload progress), retries a chunk with
+ * backoff when the network drops, waits for the browser to come back online,
+ * and resumes an existing session by asking which chunks already arrived.
+ */
+
+import type { ChatAttachment } from "./socketEvents";
+
+/** What the server returns once the file is stored (see lib/uploads) */
+export interface UploadedFile {
+  id: string;
+  url: string;
+  name: string;
+  mime: string;
+  type: ChatAttachment["type"];
+  size: number;
+  roomId: string;
+  uploadedBy: string;
+  createdAt: string;
+}
+
+interface UploadSessionInfo {
+  id: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  receivedChunks: number[];
+}
+
+export interface ChunkedUploadOptions {
+  roomId: string;
+  type: ChatAttachment["type"];
+  /** "recording" files a meeting recording on the Recordings page */
+  kind?: "chat" | "recording";
+  /** Length of a recording */
+  durationMs?: number;
+  signal: AbortSignal;
+  /** Session to resume, from an earlier attempt's onSession */
+  sessionId?: string;
+  onSession?: (sessionId: string) => void;
+  /** Percentage of the file the server has received, 0-100 */
+  onProgress?: (percent: number) => void;
+}
+
+/**
+ * An upload that stopped. Retryable errors (network loss, server hiccups)
+ * can be resumed by calling uploadFileInChunks again with the same session.
+ */
+export class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const MAX_RETRY_DELAY_MS = 15000;
+
+/** Work out the ChatAttachment type from a File's MIME type */
+export const getAttachmentType = (mime: string): ChatAttachment["type"] => {
+  if (mime.startsWith("image/")) return "image";
+  if (mime.startsWith("video/")) return "video";
+  if (mime.startsWith("audio/")) return "audio";
+  return "file";
+};
+
+// 408/429 and 5xx are worth another go; other 4xx will fail the same way again
+const isRetryableStatus = (status: number) =>
+  status === 408 || status === 429 || status >= 500;
+
+const throwIfAborted = (signal: AbortSignal) => {
+  if (signal.aborted) throw new DOMException("Upload cancelled", "AbortError");
+};
+
+/**
+ * Wait before retrying: exponential backoff, and no retries at all while the
+ * browser knows it is offline
+ */
+const waitBeforeRetry = async (attempt: number, signal: AbortSignal) => {
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    console.log("📴 Upload paused until the connection comes back");
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        window.removeEventListener("online", done);
+        signal.removeEventListener("abort", done);
+        resolve();
+      };
+      window.addEventListener("online", done);
+      signal.addEventListener("abort", done);
+    });
+    throwIfAborted(signal);
+  }
+
+  const delay = Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  throwIfAborted(signal);
+};
+
+const readError = async (response: Response) => {
+  const data = await response.json().catch(() => ({}));
+  return data.error || `Upload failed (${response.status})`;
+};
+
+/** PUT one chunk, reporting bytes sent so far */
+const sendChunk = (
+  url: string,
+  chunk: Blob,
+  signal: AbortSignal,
+  onBytes: (loaded: number) => void
+) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.upload.onprogress = (event) => onBytes(event.loaded);
+    xhr.onload = () => {
+      signal.removeEventListener("abort", abort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Chunk upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).error || message;
+      } catch {
+        // Not JSON - keep the generic message
+      }
+      reject(new UploadError(message, isRetryableStatus(xhr.status)));
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener("abort", abort);
+      reject(new UploadError("Network connection lost", true));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener("abort", abort);
+      reject(new DOMException("Upload cancelled", "AbortError"));
+    };
+
+    signal.addEventListener("abort", abort);
+    xhr.send(chunk);
+  });
+
+/** Open a new session, or pick up an existing one if it still exists */
+const openSession = async (
+  file: File,
+  options: ChunkedUploadOptions
+): Promise<UploadSessionInfo> => {
+  if (options.sessionId) {
+    const response = await fetch(`/api/upload/sessions/${options.sessionId}`, {
+      signal: options.signal,
+    });
+    if (response.ok) {
+      const { session } = await response.json();
+      console.log(`🔁 Resuming upload (${session.receivedChunks.length}/${session.chunkCount} chunks)`);
+      return session;
+    }
+    // Expired or already cleaned up - start over below
+  }
+
+  const response = await fetch("/api/upload/sessions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      roomId: options.roomId,
+      name: file.name,
+      mime: file.type,
+      type: options.type,
+      kind: options.kind,
+      durationMs: options.durationMs,
+      size: file.size,
+    }),
+    signal: options.signal,
+  });
+  if (!response.ok) {
+    throw new UploadError(await readError(response), isRetryableStatus(response.status));
+  }
+  const { session } = await response.json();
+  return session;
+};
+
+/**
+ * Upload a file in resumable chunks
+ * @returns The stored file's metadata
+ * @throws UploadError when the upload stops (check `retryable`), or an
+ *   AbortError when options.signal is aborted
+ */
+export async function uploadFileInChunks(
+  file: File,
+  options: ChunkedUploadOptions
+): Promise<UploadedFile> {
+  const { signal, onProgress } = options;
+
+  let session: UploadSessionInfo;
+  try {
+    session = await openSession(file, options);
+  } catch (error) {
+    if (error instanceof TypeError) {
+      throw new UploadError("Network connection lost", true);
+    }
+    throw error;
+  }
+  options.onSession?.(session.id);
+
+  const chunkLength = (index: number) =>
+    Math.min(session.chunkSize, file.size - index * session.chunkSize);
+
+  const received = new Set(session.receivedChunks);
+  let confirmedBytes = Array.from(received).reduce(
+    (total, index) => total + chunkLength(index),
+    0
+  );
+  const report = (inFlight: number) =>
+    onProgress?.(Math.min(100, ((confirmedBytes + inFlight) / file.size) * 100));
+  report(0);
+
+  for (let index = 0; index < session.chunkCount; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * session.chunkSize;
+    const chunk = file.slice(start, start + chunkLength(index));
+
+    for (let attempt = 0; ; attempt++) {
+      throwIfAborted(signal);
+      try {
+        await sendChunk(
+          `/api/upload/sessions/${session.id}/chunks/${index}`,
+          chunk,
+          signal,
+          report
+        );
+        break;
+      } catch (error) {
+        const retryable = error instanceof UploadError && error.retryable;
+        if (!retryable || attempt + 1 >= MAX_CHUNK_ATTEMPTS) throw error;
+        console.warn(`⚠️ Chunk ${index} failed, retrying (attempt ${attempt + 2}):`, error);
+        report(0);
+        await waitBeforeRetry(attempt, signal);
+      }
+    }
+
+    confirmedBytes += chunk.size;
+    report(0);
+  }
+
+  const response = await fetch(`/api/upload/sessions/${session.id}/complete`, {
+    method: "POST",
+    signal,
+  }).catch((error) => {
+    if (signal.aborted) throw error;
+    throw new UploadError("Network connection lost", true);
+  });
+  if (!response.ok) {
+    throw new UploadError(await readError(response), isRetryableStatus(response.status));
+  }
+  return response.json();
+}
@@ -0,0 +1,21 @@
+/**
+ * CSV
+ *
+ * Spreadsheet-safe CSV for exports: quoted where needed, formula-looking
+ * cells defused, CRLF line endings and a BOM so Excel reads UTF-8.
+ */
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const csvCell = (value: CsvValue) => {
+  // Text starting with = + - @ would run as a spreadsheet formula
+  const text = String(value ?? "").replace(/^[=+\-@]/, "'$&");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render rows, header first
+ * @returns The file contents
+ */
+export const toCsv = (rows: CsvValue[][]): string =>
+  "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
@@ -0,0 +1,236 @@
+/**
+ * Giving Ledger
+ *
+ * One entry per confirmed M-Pesa payment - offerings, tithes, partnership
+ * and missions - recorded when the transaction settles as SUCCESS (see the
+ * M-Pesa callback and status routes). Entries keep the meeting's title as it
+ * was when the gift was made, so receipts don't change if a meeting is
+ * renamed later. Kept in data/giving-ledger.json. Server-only.
+ */
+
+import { createJsonFileCollection } from "./jsonFileStore";
+import { getMeetingStorage } from "./meetingStorage";
+import {
+  ACCOUNT_TYPES,
+  type AccountType,
+  type MpesaTransaction,
+} from "./mpesaTransactions";
+import { getVerifiedEmails, type UserWithEmails } from "./userEmails";
+
+export interface GivingEntry {
+  /** The M-Pesa transaction's ID */
+  id: string;
+  checkoutRequestId: string;
+  userId: string;
+  userName: string;
+  roomId?: string;
+  meetingTitle?: string;
+  /** The giver agreed to be named in the meeting's giving tally */
+  showGiverName?: boolean;
+  accountType: AccountType;
+  /** Whole shillings */
+  amount: number;
+  /** Masked, e.g. 2547***678 */
+  phoneNumber: string;
+  mpesaReceiptNumber?: string;
+  givenAt: string;
+  recordedAt: string;
+}
+
+export interface GivingFilter {
+  userId?: string;
+  accountType?: AccountType;
+  /** First day to include, YYYY-MM-DD in Kenyan time */
+  from?: string;
+  /** Last day to include, YYYY-MM-DD in Kenyan time */
+  to?: string;
+}
+
+export interface GivingTotals {
+  total: number;
+  count: number;
+  byAccountType: Record<AccountType, { total: number; count: number }>;
+}
+
+/** A gift whose giver agreed to be named; others only count towards totals */
+export interface NamedGift {
+  id: string;
+  userName: string;
+  accountType: AccountType;
+  amount: number;
+  givenAt: string;
+}
+
+/** What a meeting's host sees of the giving in their meeting */
+export interface MeetingGivingTally extends GivingTotals {
+  roomId: string;
+  namedGifts: NamedGift[];
+}
+
+const ledger = createJsonFileCollection<GivingEntry>("giving-ledger.json");
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isGivingDate = (value: unknown): value is string =>
+  typeof value === "string" &&
+  DATE_PATTERN.test(value) &&
+  !Number.isNaN(new Date(`${value}T00:00:00+03:00`).getTime());
+
+const maskPhoneNumber = (phoneNumber: string) =>
+  phoneNumber.length > 7
+    ? `${phoneNumber.slice(0, 4)}***${phoneNumber.slice(-3)}`
+    : phoneNumber;
+
+async function getMeetingTitle(transaction: MpesaTransaction) {
+  const { roomId, userId } = transaction;
+  if (!roomId) return undefined;
+  const meeting = await getMeetingStorage().get(roomId);
+  if (meeting) return meeting.description || "Untitled meeting";
+  return roomId === userId ? "Personal room" : undefined;
+}
+
+/**
+ * Add a settled payment to the ledger. Recording the same transaction again
+ * only fills in what was missing, e.g. a receipt number from a late callback.
+ * @returns The ledger entry, or null when the transaction isn't a confirmed payment
+ */
+export async function recordGift(
+  transaction: MpesaTransaction
+): Promise<GivingEntry | null> {
+  if (transaction.status !== "SUCCESS") return null;
+
+  const meetingTitle = await getMeetingTitle(transaction);
+  const entry: GivingEntry = {
+    id: transaction.id,
+    checkoutRequestId: transaction.checkoutRequestId,
+    userId: transaction.userId,
+    userName: transaction.userName,
+    roomId: transaction.roomId,
+    meetingTitle,
+    showGiverName: transaction.showGiverName,
+    accountType: transaction.accountReference,
+    amount: transaction.amount,
+    phoneNumber: maskPhoneNumber(transaction.phoneNumber),
+    mpesaReceiptNumber: transaction.mpesaReceiptNumber,
+    givenAt: transaction.transactionDate ?? transaction.updatedAt,
+    recordedAt: new Date().toISOString(),
+  };
+
+  return ledger.update((records) => {
+    const existing = records.find((e) => e.id === entry.id);
+    if (!existing) {
+      console.log(
+        `🙏 Recorded ${entry.accountType} of KES ${entry.amount} from ${entry.userId}`
+      );
+      return { records: [...records, entry], result: entry };
+    }
+
+    const updated: GivingEntry = {
+      ...existing,
+      mpesaReceiptNumber:
+        existing.mpesaReceiptNumber ?? entry.mpesaReceiptNumber,
+      givenAt: transaction.transactionDate ?? existing.givenAt,
+    };
+    return {
+      records: records.map((e) => (e.id === entry.id ? updated : e)),
+      result: updated,
+    };
+  });
+}
+
+/** Ledger entries matching the filter, newest first */
+export async function listGiving(
+  filter: GivingFilter = {}
+): Promise<GivingEntry[]> {
+  const from = filter.from
+    ? new Date(`${filter.from}T00:00:00+03:00`).getTime()
+    : -Infinity;
+  // The whole of the last day counts
+  const to = filter.to
+    ? new Date(`${filter.to}T00:00:00+03:00`).getTime() + 24 * 60 * 60 * 1000
+    : Infinity;
+
+  const records = await ledger.readAll();
+  return records
+    .filter((entry) => {
+      const givenAt = new Date(entry.givenAt).getTime();
+      return (
+        (!filter.userId || entry.userId === filter.userId) &&
+        (!filter.accountType || entry.accountType === filter.accountType) &&
+        givenAt >= from &&
+        givenAt < to
+      );
+    })
+    .sort((a, b) => b.givenAt.localeCompare(a.givenAt));
+}
+
+export async function getGivingEntry(id: string): Promise<GivingEntry | null> {
+  const records = await ledger.readAll();
+  return records.find((e) => e.id === id) ?? null;
+}
+
+export function summarizeGiving(entries: GivingEntry[]): GivingTotals {
+  const byAccountType = Object.fromEntries(
+    ACCOUNT_TYPES.map((type) => [type, { total: 0, count: 0 }])
+  ) as GivingTotals["byAccountType"];
+
+  for (const entry of entries) {
+    byAccountType[entry.accountType].total += entry.amount;
+    byAccountType[entry.accountType].count += 1;
+  }
+
+  return {
+    total: entries.reduce((sum, e) => sum + e.amount, 0),
+    count: entries.length,
+    byAccountType,
+  };
+}
+
+/**
+ * Total up a meeting's giving for its host. Amounts are only itemised for
+ * givers who opted in to being named.
+ * @param since - Only count gifts from then on, e.g. for a personal room
+ *   that is reused from one meeting to the next
+ */
+export async function getMeetingGivingTally(
+  roomId: string,
+  since?: string
+): Promise<MeetingGivingTally> {
+  const sinceMs = since ? new Date(since).getTime() : -Infinity;
+  const entries = (await ledger.readAll()).filter(
+    (entry) =>
+      entry.roomId === roomId && new Date(entry.givenAt).getTime() >= sinceMs
+  );
+
+  return {
+    roomId,
+    ...summarizeGiving(entries),
+    namedGifts: entries
+      .filter((entry) => entry.showGiverName)
+      .sort((a, b) => b.givenAt.localeCompare(a.givenAt))
+      .map(({ id, userName, accountType, amount, givenAt }) => ({
+        id,
+        userName,
+        accountType,
+        amount,
+        givenAt,
+      })),
+  };
+}
+
+/**
+ * Whether a user may see everyone's giving. Treasurers are listed in
+ * GIVING_TREASURERS as comma-separated Clerk user IDs or email addresses.
+ * Only verified addresses count: anyone can add an unverified one to their
+ * account.
+ */
+export function isTreasurer(user: UserWithEmails): boolean {
+  const treasurers = (process.env.GIVING_TREASURERS || "")
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+  const emails = getVerifiedEmails(user);
+  return treasurers.some(
+    (t) => t === user.id.toLowerCase() || emails.includes(t)
+  );
+}
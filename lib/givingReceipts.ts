@@ -0,0 +1,100 @@
+/**
+ * Giving Receipts
+ *
+ * Renders giving ledger entries as downloadable PDF receipts and CSV
+ * statements for the My giving and treasury pages. Server-only.
+ */
+
+import { accountTypeLabels } from "@/constants";
+import { toCsv } from "./csv";
+import type { GivingEntry, GivingTotals } from "./givingLedger";
+import { ACCOUNT_TYPES } from "./mpesaTransactions";
+import { createTextPdf, type PdfLine } from "./pdf";
+import { formatCurrency } from "./utils";
+
+const ORGANIZATION_NAME = process.env.GIVING_ORGANIZATION_NAME || "KANI MEET";
+
+// Receipts are for Kenyan givers, so dates are shown in Kenyan time
+const formatGivenAt = (iso: string) =>
+  new Date(iso).toLocaleString("en-KE", {
+    timeZone: "Africa/Nairobi",
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+export const getReceiptFileName = (
+  entry: GivingEntry,
+  format: "pdf" | "csv"
+) => `receipt-${entry.mpesaReceiptNumber || entry.id.slice(0, 8)}.${format}`;
+
+export function renderReceiptPdf(entry: GivingEntry): Buffer {
+  const lines: PdfLine[] = [
+    { text: ORGANIZATION_NAME, size: 20, bold: true },
+    { text: "Giving receipt", size: 13, color: "grey", spaceBefore: 2 },
+    { rule: true, spaceBefore: 8 },
+    { text: "Amount", value: formatCurrency(entry.amount), size: 14, bold: true },
+    { text: "Given to", value: accountTypeLabels[entry.accountType], spaceBefore: 6 },
+    { text: "Given by", value: entry.userName },
+    { text: "Date", value: formatGivenAt(entry.givenAt) },
+    { text: "M-Pesa receipt", value: entry.mpesaReceiptNumber || "Pending" },
+    { text: "Paid from", value: entry.phoneNumber },
+  ];
+  if (entry.meetingTitle) {
+    lines.push({ text: "Meeting", value: entry.meetingTitle });
+  }
+  lines.push(
+    { text: "Reference", value: entry.id },
+    { rule: true, spaceBefore: 8 },
+    {
+      text: "Thank you for your generosity. This receipt was generated from the giving ledger.",
+      size: 9,
+      color: "grey",
+    }
+  );
+
+  return createTextPdf(lines, `${ORGANIZATION_NAME} giving receipt`);
+}
+
+/** One row per entry, for a single receipt or a whole statement */
+export function renderGivingCsv(entries: GivingEntry[]): string {
+  return toCsv([
+    [
+      "Date",
+      "Account",
+      "Amount (KES)",
+      "M-Pesa receipt",
+      "Given by",
+      "Phone",
+      "Meeting",
+      "Reference",
+    ],
+    ...entries.map((entry) => [
+      entry.givenAt,
+      accountTypeLabels[entry.accountType],
+      entry.amount,
+      entry.mpesaReceiptNumber,
+      entry.userName,
+      entry.phoneNumber,
+      entry.meetingTitle,
+      entry.id,
+    ]),
+  ]);
+}
+
+/** Per-account totals followed by the entries they were added up from */
+export function renderTotalsCsv(
+  totals: GivingTotals,
+  entries: GivingEntry[]
+): string {
+  const summary = toCsv([
+    ["Account", "Gifts", "Total (KES)"],
+    ...ACCOUNT_TYPES.map((type) => [
+      accountTypeLabels[type],
+      totals.byAccountType[type].count,
+      totals.byAccountType[type].total,
+    ]),
+    ["All accounts", totals.count, totals.total],
+  ]);
+  // Both parts carry a byte order mark; only the file's first one belongs
+  return `${summary}\r\n\r\n${renderGivingCsv(entries).slice(1)}`;
+}
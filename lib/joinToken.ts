@@ -0,0 +1,246 @@
+/**
+ * Join Tokens
+ *
+ * Short-lived HMAC-signed tokens proving that the Next.js server checked a
+ * user's permissions for a room. The client forwards the token with
+ * "join-mediasoup-room" (or "end-meeting-for-all") and the SFU verifies it
+ * with the same JOIN_TOKEN_SECRET, so it no longer has to trust the client's
+ * isCreator flag. The same signing covers M-Pesa payments: a payment-status
+ * token lets the payer's socket subscribe to one payment, a payment-notice
+ * carries its outcome from our callback route to the SFU, and a
+ * giving-update tells the SFU that a meeting's giving tally has changed.
+ * Every token carries a purpose so one kind can't be replayed as another.
+ * Format: base64url(JSON claims) + "." + base64url(HMAC-SHA256). Server-only.
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+import type { PaymentStatusResponse } from "./mpesaTransactions";
+
+export type MeetingRole = "host" | "participant";
+
+export type RoomTokenPurpose = "join" | "end-meeting" | "giving-update";
+
+export type PaymentTokenPurpose = "payment-status" | "payment-notice";
+
+interface SignedTokenClaims {
+  purpose: RoomTokenPurpose | PaymentTokenPurpose;
+  userId: string;
+  /** Issued-at and expiry, in seconds since the epoch */
+  iat: number;
+  exp: number;
+}
+
+interface RoomTokenClaims extends SignedTokenClaims {
+  purpose: RoomTokenPurpose;
+  roomId: string;
+}
+
+export interface JoinTokenClaims extends RoomTokenClaims {
+  purpose: "join";
+  role: MeetingRole;
+  canProduce: boolean;
+  canConsume: boolean;
+}
+
+/** Lets the owner ask the SFU to close the room for everyone */
+export interface EndMeetingTokenClaims extends RoomTokenClaims {
+  purpose: "end-meeting";
+}
+
+/**
+ * Posted by our server when a gift made in the room is recorded, so the SFU
+ * can tell the room's hosts to refresh their giving tally. userId is the giver.
+ */
+export interface GivingUpdateClaims extends RoomTokenClaims {
+  purpose: "giving-update";
+}
+
+/** Lets the payer's socket subscribe to "payment-status" for one payment */
+export interface PaymentStatusTokenClaims extends SignedTokenClaims {
+  purpose: "payment-status";
+  checkoutRequestId: string;
+}
+
+/** A payment's outcome, posted by our server to the SFU to relay */
+export interface PaymentNoticeClaims extends SignedTokenClaims {
+  purpose: "payment-notice";
+  checkoutRequestId: string;
+  payment: PaymentStatusResponse;
+}
+
+export const JOIN_TOKEN_TTL_SECONDS = 120;
+// Long enough for a payment whose callback is very late
+export const PAYMENT_STATUS_TOKEN_TTL_SECONDS = 60 * 60;
+
+const DEV_SECRET = "kani-dev-join-token-secret";
+
+const getSecret = () => {
+  const secret = process.env.JOIN_TOKEN_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("JOIN_TOKEN_SECRET is not configured");
+  }
+  return DEV_SECRET;
+};
+
+const sign = (payload: string) =>
+  createHmac("sha256", getSecret()).update(payload).digest("base64url");
+
+const signToken = <T extends SignedTokenClaims>(
+  claims: Omit<T, "iat" | "exp">,
+  ttlSeconds: number
+): { token: string; expiresAt: string } => {
+  const iat = Math.floor(Date.now() / 1000);
+  const exp = iat + ttlSeconds;
+  const payload = Buffer.from(
+    JSON.stringify({ ...claims, iat, exp })
+  ).toString("base64url");
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    expiresAt: new Date(exp * 1000).toISOString(),
+  };
+};
+
+const verifyToken = <T extends SignedTokenClaims>(
+  token: string,
+  purpose: T["purpose"]
+): T | null => {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims: T = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    );
+    if (claims.purpose !== purpose) return null;
+    if (claims.exp < Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Issue a join token for a permission check that just succeeded
+ * @param claims - Room, user and permissions to embed
+ * @param ttlSeconds - Lifetime of the token
+ * @returns The token and its expiry as an ISO string
+ */
+export function signJoinToken(
+  claims: Omit<JoinTokenClaims, "purpose" | "iat" | "exp">,
+  ttlSeconds = JOIN_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } {
+  return signToken<JoinTokenClaims>({ ...claims, purpose: "join" }, ttlSeconds);
+}
+
+/**
+ * Verify a join token's signature, purpose and expiry
+ * @returns The claims, or null when the token is malformed, forged or expired
+ */
+export function verifyJoinToken(token: string): JoinTokenClaims | null {
+  return verifyToken<JoinTokenClaims>(token, "join");
+}
+
+/**
+ * Issue an end-meeting token for the room's owner
+ * @param claims - Room and the user ending it
+ * @param ttlSeconds - Lifetime of the token
+ */
+export function signEndMeetingToken(
+  claims: Omit<EndMeetingTokenClaims, "purpose" | "iat" | "exp">,
+  ttlSeconds = JOIN_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } {
+  return signToken<EndMeetingTokenClaims>(
+    { ...claims, purpose: "end-meeting" },
+    ttlSeconds
+  );
+}
+
+/**
+ * Verify an end-meeting token's signature, purpose and expiry
+ * @returns The claims, or null when the token is malformed, forged or expired
+ */
+export function verifyEndMeetingToken(
+  token: string
+): EndMeetingTokenClaims | null {
+  return verifyToken<EndMeetingTokenClaims>(token, "end-meeting");
+}
+
+/**
+ * Issue a payment-status token for the payer of a payment just started
+ * @param claims - The payment and its payer
+ * @param ttlSeconds - Lifetime of the token
+ */
+export function signPaymentStatusToken(
+  claims: Omit<PaymentStatusTokenClaims, "purpose" | "iat" | "exp">,
+  ttlSeconds = PAYMENT_STATUS_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } {
+  return signToken<PaymentStatusTokenClaims>(
+    { ...claims, purpose: "payment-status" },
+    ttlSeconds
+  );
+}
+
+/**
+ * Verify a payment-status token's signature, purpose and expiry
+ * @returns The claims, or null when the token is malformed, forged or expired
+ */
+export function verifyPaymentStatusToken(
+  token: string
+): PaymentStatusTokenClaims | null {
+  return verifyToken<PaymentStatusTokenClaims>(token, "payment-status");
+}
+
+/**
+ * Sign a payment's outcome for the SFU to relay to the payer
+ * @param claims - The payment, its payer and its status
+ * @param ttlSeconds - Lifetime of the notice
+ */
+export function signPaymentNotice(
+  claims: Omit<PaymentNoticeClaims, "purpose" | "iat" | "exp">,
+  ttlSeconds = JOIN_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } {
+  return signToken<PaymentNoticeClaims>(
+    { ...claims, purpose: "payment-notice" },
+    ttlSeconds
+  );
+}
+
+/**
+ * Verify a payment notice's signature, purpose and expiry
+ * @returns The claims, or null when the notice is malformed, forged or expired
+ */
+export function verifyPaymentNotice(token: string): PaymentNoticeClaims | null {
+  return verifyToken<PaymentNoticeClaims>(token, "payment-notice");
+}
+
+/**
+ * Sign a giving-update for the SFU to relay to a room's hosts
+ * @param claims - The room and the giver
+ * @param ttlSeconds - Lifetime of the notice
+ */
+export function signGivingUpdate(
+  claims: Omit<GivingUpdateClaims, "purpose" | "iat" | "exp">,
+  ttlSeconds = JOIN_TOKEN_TTL_SECONDS
+): { token: string; expiresAt: string } {
+  return signToken<GivingUpdateClaims>(
+    { ...claims, purpose: "giving-update" },
+    ttlSeconds
+  );
+}
+
+/**
+ * Verify a giving-update's signature, purpose and expiry
+ * @returns The claims, or null when the notice is malformed, forged or expired
+ */
+export function verifyGivingUpdate(token: string): GivingUpdateClaims | null {
+  return verifyToken<GivingUpdateClaims>(token, "giving-update");
+}
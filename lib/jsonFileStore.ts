@@ -0,0 +1,68 @@
+/**
+ * JSON File Store
+ *
+ * Minimal persistence for local development and single-instance deployments:
+ * one JSON file per collection under DATA_DIR (default ./data). Writes go to a
+ * temp file that is renamed into place, and are queued so concurrent requests
+ * never interleave. Server-only - never import this from client components.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+export interface JsonFileCollection<T> {
+  /** Read every record */
+  readAll(): Promise<T[]>;
+  /**
+   * Read-modify-write under the collection's write lock
+   * @param mutate - Receives the current records and returns the new list
+   */
+  update<R>(mutate: (records: T[]) => { records: T[]; result: R }): Promise<R>;
+}
+
+export const getDataDir = () =>
+  process.env.DATA_DIR || path.join(process.cwd(), "data");
+
+/**
+ * Open (or lazily create) a JSON collection file
+ * @param fileName - File name inside the data directory, e.g. "meetings.json"
+ */
+export function createJsonFileCollection<T>(
+  fileName: string
+): JsonFileCollection<T> {
+  const filePath = path.join(getDataDir(), fileName);
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readAll = async (): Promise<T[]> => {
+    try {
+      const raw = await readFile(filePath, "utf8");
+      const parsed = JSON.parse(raw);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  };
+
+  const writeAll = async (records: T[]) => {
+    await mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await writeFile(tempPath, JSON.stringify(records, null, 2));
+    await rename(tempPath, filePath);
+  };
+
+  const update = <R>(
+    mutate: (records: T[]) => { records: T[]; result: R }
+  ): Promise<R> => {
+    const run = queue.then(async () => {
+      const { records, result } = mutate(await readAll());
+      await writeAll(records);
+      return result;
+    });
+    // Keep the queue alive even when one write fails
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  return { readAll, update };
+}
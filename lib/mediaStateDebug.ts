@@ -4,6 +4,12 @@
  * Use these functions in browser console to debug media state issues
  */
 
+import {
+  DEFAULT_SETTINGS,
+  getSettings,
+  updateSettings,
+} from "./userSettings";
+
 /**
  * Check if media state is synchronized
  * Run in browser console: validateMediaState()
@@ -19,20 +25,9 @@ export function validateMediaState() {
   console.log("🔍 Media State Validation");
   console.log("=".repeat(50));
 
-  // Check localStorage
-  const storedPref = localStorage.getItem("meeting-join-preference");
-  console.log("📦 localStorage preference:", storedPref);
-
-  if (storedPref) {
-    try {
-      const parsed = JSON.parse(storedPref);
-      console.log("   ✅ Valid JSON:", parsed);
-    } catch (e) {
-      console.error("   ❌ Invalid JSON in localStorage");
-    }
-  } else {
-    console.warn("   ⚠️ No preference saved");
-  }
+  // Check saved settings
+  const settings = getSettings();
+  console.log(`📦 Join preference (settings v${settings.version}):`, settings.join);
 
   console.log("");
   console.log("💡 Tips:");
@@ -42,7 +37,7 @@ export function validateMediaState() {
   console.log("   - Compare isAudioMuted with button appearance");
   console.log("");
   console.log("🐛 Debug commands:");
-  console.log("   localStorage.clear()           - Clear saved preferences");
+  console.log("   clearMediaPreferences()        - Reset saved join preference");
   console.log("   validateMediaState()           - Run this check again");
 }
 
@@ -51,8 +46,8 @@ export function validateMediaState() {
  * Run in browser console: clearMediaPreferences()
  */
 export function clearMediaPreferences() {
-  localStorage.removeItem("meeting-join-preference");
-  console.log("🗑️ Cleared meeting-join-preference");
+  updateSettings("join", DEFAULT_SETTINGS.join);
+  console.log("🗑️ Reset join preference to defaults");
   console.log("🔄 Please refresh the page to reset state");
 }
 
@@ -61,7 +56,7 @@ export function clearMediaPreferences() {
  * Run in browser console: setMediaPreferences({ audio: false, video: false })
  */
 export function setMediaPreferences(prefs: { audio: boolean; video: boolean }) {
-  localStorage.setItem("meeting-join-preference", JSON.stringify(prefs));
+  updateSettings("join", prefs);
   console.log("💾 Set preferences:", prefs);
   console.log("🔄 Please refresh the page to apply");
 }
@@ -71,15 +66,9 @@ export function setMediaPreferences(prefs: { audio: boolean; video: boolean }) {
  * Run in browser console: getMediaPreferences()
  */
 export function getMediaPreferences() {
-  const stored = localStorage.getItem("meeting-join-preference");
-  if (stored) {
-    const parsed = JSON.parse(stored);
-    console.log("📋 Current preferences:", parsed);
-    return parsed;
-  } else {
-    console.log("📋 No preferences saved (will use defaults)");
-    return null;
-  }
+  const preference = getSettings().join;
+  console.log("📋 Current preferences:", preference);
+  return preference;
 }
 
 // Make functions available globally for console access
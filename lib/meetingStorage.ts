@@ -0,0 +1,200 @@
+/**
+ * Meeting Storage
+ *
+ * Persistence for meeting records behind a small adapter interface so the
+ * API routes don't care where meetings live. The default "file" adapter keeps
+ * everything in data/meetings.json, which is enough for local development;
+ * a database adapter only has to implement MeetingStorageAdapter and be
+ * registered in `adapters` below. Server-only.
+ */
+
+import { createJsonFileCollection } from "./jsonFileStore";
+
+export interface MeetingRecord {
+  id: string;
+  description: string;
+  startsAt: string;
+  createdBy: string;
+  /** Clerk user IDs or email addresses allowed in when the meeting is locked */
+  invitees?: string[];
+  /** Locked meetings only admit the creator and invitees */
+  locked?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  endedAt?: string;
+  cancelledAt?: string;
+}
+
+export type MeetingPatch = Partial<
+  Pick<
+    MeetingRecord,
+    | "description"
+    | "startsAt"
+    | "invitees"
+    | "locked"
+    | "endedAt"
+    | "cancelledAt"
+  >
+>;
+
+export interface MeetingListFilter {
+  createdBy?: string;
+  includeCancelled?: boolean;
+}
+
+export interface MeetingStorageAdapter {
+  list(filter?: MeetingListFilter): Promise<MeetingRecord[]>;
+  get(id: string): Promise<MeetingRecord | null>;
+  create(record: MeetingRecord): Promise<MeetingRecord>;
+  /** @returns The updated record, or null when no meeting has that ID */
+  update(id: string, patch: MeetingPatch): Promise<MeetingRecord | null>;
+}
+
+export class MeetingExistsError extends Error {
+  constructor(id: string) {
+    super(`Meeting ${id} already exists`);
+    this.name = "MeetingExistsError";
+  }
+}
+
+const MAX_INVITEES = 200;
+
+/**
+ * Validate an invite list from a request body
+ * @returns Trimmed, de-duplicated entries (emails lower-cased), or null when invalid
+ */
+export function parseInvitees(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_INVITEES) return null;
+  if (!value.every((v) => typeof v === "string")) return null;
+
+  const entries = (value as string[])
+    .map((v) => v.trim())
+    .filter(Boolean)
+    .map((v) => (v.includes("@") ? v.toLowerCase() : v));
+  return [...new Set(entries)];
+}
+
+// ----------------------------
+// FILE ADAPTER
+// ----------------------------
+
+/**
+ * JSON-file adapter for local use
+ * @param fileName - File inside the data directory
+ */
+export function createFileMeetingStorage(
+  fileName = "meetings.json"
+): MeetingStorageAdapter {
+  const collection = createJsonFileCollection<MeetingRecord>(fileName);
+
+  return {
+    async list(filter = {}) {
+      const records = await collection.readAll();
+      return records
+        .filter((m) => !filter.createdBy || m.createdBy === filter.createdBy)
+        .filter((m) => filter.includeCancelled || !m.cancelledAt)
+        .sort((a, b) => a.startsAt.localeCompare(b.startsAt));
+    },
+
+    async get(id) {
+      const records = await collection.readAll();
+      return records.find((m) => m.id === id) ?? null;
+    },
+
+    create(record) {
+      return collection.update((records) => {
+        if (records.some((m) => m.id === record.id)) {
+          throw new MeetingExistsError(record.id);
+        }
+        return { records: [...records, record], result: record };
+      });
+    },
+
+    update(id, patch) {
+      return collection.update((records) => {
+        const existing = records.find((m) => m.id === id);
+        if (!existing) return { records, result: null };
+
+        const updated: MeetingRecord = {
+          ...existing,
+          ...patch,
+          updatedAt: new Date().toISOString(),
+        };
+        return {
+          records: records.map((m) => (m.id === id ? updated : m)),
+          result: updated,
+        };
+      });
+    },
+  };
+}
+
+// ----------------------------
+// ADAPTER SELECTION
+// ----------------------------
+
+const adapters: Record<string, () => MeetingStorageAdapter> = {
+  file: () => createFileMeetingStorage(),
+};
+
+let storage: MeetingStorageAdapter | null = null;
+
+/**
+ * Get the configured storage adapter (MEETINGS_STORAGE, default "file")
+ */
+export function getMeetingStorage(): MeetingStorageAdapter {
+  if (storage) return storage;
+
+  const name = process.env.MEETINGS_STORAGE || "file";
+  const factory = adapters[name];
+  if (!factory) {
+    throw new Error(`Unknown MEETINGS_STORAGE adapter: ${name}`);
+  }
+
+  storage = factory();
+  console.log(`🗄️ Meeting storage: ${name}`);
+  return storage;
+}
+
+// ----------------------------
+// ACCESS
+// ----------------------------
+
+export interface RoomAccess {
+  meeting: MeetingRecord | null;
+  isOwner: boolean;
+  isInvited: boolean;
+  /** Why the user can't be in the room, suitable for showing them */
+  reason?: string;
+}
+
+/**
+ * Whether a user may be in a room: a cancelled or ended meeting admits
+ * nobody, and a locked one only its creator and invitees. Personal rooms
+ * use the owner's user ID and have no stored meeting.
+ * @param emails - The user's verified email addresses (see getVerifiedEmails),
+ *   for invites
+ */
+export async function getRoomAccess(
+  roomId: string,
+  user: { id: string; emails: string[] }
+): Promise<RoomAccess> {
+  const meeting = await getMeetingStorage().get(roomId);
+
+  const isOwner = meeting ? meeting.createdBy === user.id : roomId === user.id;
+  const isInvited =
+    !!meeting?.invitees?.some(
+      (invitee) => invitee === user.id || user.emails.includes(invitee)
+    );
+
+  let reason: string | undefined;
+  if (meeting?.cancelledAt) {
+    reason = "This meeting was cancelled";
+  } else if (meeting?.endedAt) {
+    reason = "This meeting has ended";
+  } else if (meeting?.locked && !isOwner && !isInvited) {
+    reason = "This meeting is locked to invited participants";
+  }
+
+  return { meeting, isOwner, isInvited, reason };
+}
@@ -1,6 +1,14 @@
 /**
  * M-Pesa API Integration Library
  * Handles authentication and STK Push requests
+ *
+ * MPESA_ENVIRONMENT picks the Daraja API: "production", "sandbox" (default)
+ * or "mock" for the local mock server in scripts/mock-daraja.mjs (listening
+ * on MPESA_MOCK_URL, default http://localhost:8089). The mock accepts any
+ * credentials, so only the callback URL needs setting up to try payments
+ * end to end. Outside mock mode MPESA_CALLBACK_SECRET is required, since the
+ * callback route is public. MPESA_MIN_AMOUNT and MPESA_MAX_AMOUNT bound what
+ * one STK Push may ask for, in whole shillings. Server-only.
  */
 
 interface MpesaAuthResponse {
@@ -8,14 +16,14 @@ interface MpesaAuthResponse {
   expires_in: string;
 }
 
-interface StkPushRequest {
+export interface StkPushRequest {
   phoneNumber: string;
   amount: number;
   accountReference: string;
   transactionDesc: string;
 }
 
-interface StkPushResponse {
+export interface StkPushResponse {
   MerchantRequestID: string;
   CheckoutRequestID: string;
   ResponseCode: string;
@@ -23,13 +31,107 @@ interface StkPushResponse {
   CustomerMessage: string;
 }
 
+export interface StkQueryResponse {
+  ResponseCode: string;
+  ResponseDescription: string;
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  /** "0" when paid; anything else is a failure code such as "1032" (cancelled) */
+  ResultCode: string;
+  ResultDesc: string;
+}
+
+interface MpesaConfig {
+  environment: string;
+  baseUrl: string;
+  consumerKey?: string;
+  consumerSecret?: string;
+  shortcode?: string;
+  passkey?: string;
+  callbackUrl?: string;
+}
+
+export interface AmountLimits {
+  min: number;
+  max: number;
+}
+
+/** What a phone number check found wrong, for telling the payer */
+export type PhoneNumberProblem = "format" | "network";
+
+// M-Pesa's own per-transaction ceiling
+const DEFAULT_MAX_AMOUNT = 250000;
+
+// Safaricom's mobile ranges after the country code: 70x-72x, 740-743, 745,
+// 746, 748, 757-759, 768, 769, 79x and 110-115
+const SAFARICOM_SUBSCRIBER = /^(?:7(?:[0-2]\d|4[0-35-68]|5[7-9]|6[89]|9\d)|11[0-5])\d{6}$/;
+
+const DARAJA_URLS: Record<string, string> = {
+  production: "https://api.safaricom.co.ke",
+  sandbox: "https://sandbox.safaricom.co.ke",
+};
+
+/**
+ * Read the M-Pesa settings for the selected environment
+ * @throws When MPESA_ENVIRONMENT is not a known environment
+ */
+export function getMpesaConfig(): MpesaConfig {
+  const environment = process.env.MPESA_ENVIRONMENT || "sandbox";
+
+  if (environment === "mock") {
+    const appUrl = process.env.NEXT_PUBLIC_BASE_URL || "http://localhost:3000";
+    return {
+      environment,
+      baseUrl: (process.env.MPESA_MOCK_URL || "http://localhost:8089").replace(/\/$/, ""),
+      consumerKey: process.env.MPESA_CONSUMER_KEY || "mock-key",
+      consumerSecret: process.env.MPESA_CONSUMER_SECRET || "mock-secret",
+      shortcode: process.env.MPESA_SHORTCODE || "174379",
+      passkey: process.env.MPESA_PASSKEY || "mock-passkey",
+      callbackUrl:
+        process.env.MPESA_CALLBACK_URL ||
+        `${appUrl.replace(/\/$/, "")}/api/mpesa/callback`,
+    };
+  }
+
+  const baseUrl = DARAJA_URLS[environment];
+  if (!baseUrl) {
+    throw new Error(`Unknown MPESA_ENVIRONMENT "${environment}"`);
+  }
+
+  return {
+    environment,
+    baseUrl,
+    consumerKey: process.env.MPESA_CONSUMER_KEY,
+    consumerSecret: process.env.MPESA_CONSUMER_SECRET,
+    shortcode: process.env.MPESA_SHORTCODE,
+    passkey: process.env.MPESA_PASSKEY,
+    callbackUrl: process.env.MPESA_CALLBACK_URL,
+  };
+}
+
+/**
+ * The callback URL sent with each STK Push. Safaricom doesn't sign
+ * callbacks, so MPESA_CALLBACK_SECRET rides along as a query parameter for
+ * the callback route to check. Only the mock may go without it.
+ * @throws When the secret is missing outside mock mode
+ */
+function getCallbackUrl(config: MpesaConfig): string | undefined {
+  const secret = process.env.MPESA_CALLBACK_SECRET;
+  if (!secret && config.environment !== "mock") {
+    throw new Error("MPESA_CALLBACK_SECRET must be set outside mock mode");
+  }
+  if (!config.callbackUrl || !secret) return config.callbackUrl;
+
+  const url = new URL(config.callbackUrl);
+  url.searchParams.set("token", secret);
+  return url.toString();
+}
+
 /**
  * Get M-Pesa OAuth token
  */
 export async function getMpesaToken(): Promise<string> {
-  const consumerKey = process.env.MPESA_CONSUMER_KEY;
-  const consumerSecret = process.env.MPESA_CONSUMER_SECRET;
-  const environment = process.env.MPESA_ENVIRONMENT || "sandbox";
+  const { consumerKey, consumerSecret, baseUrl } = getMpesaConfig();
 
   if (!consumerKey || !consumerSecret) {
     throw new Error("M-Pesa credentials not configured");
@@ -39,10 +141,7 @@ export async function getMpesaToken(): Promise<string> {
     "base64"
   );
 
-  const url =
-    environment === "production"
-      ? "https://api.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials"
-      : "https://sandbox.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials";
+  const url = `${baseUrl}/oauth/v1/generate?grant_type=client_credentials`;
 
   try {
     const response = await fetch(url, {
@@ -71,8 +170,7 @@ export function generateMpesaPassword(): {
   password: string;
   timestamp: string;
 } {
-  const shortcode = process.env.MPESA_SHORTCODE;
-  const passkey = process.env.MPESA_PASSKEY;
+  const { shortcode, passkey } = getMpesaConfig();
 
   if (!shortcode || !passkey) {
     throw new Error("M-Pesa shortcode or passkey not configured");
@@ -90,23 +188,45 @@ export function generateMpesaPassword(): {
 }
 
 /**
- * Format phone number to M-Pesa format (254...)
+ * Normalise a Kenyan mobile number to the 254XXXXXXXXX form M-Pesa expects.
+ * Accepts 07.../01..., 7.../1..., 254... and +254..., with spaces, dashes,
+ * dots or brackets between digits.
+ * @returns The MSISDN, or null when it isn't a Kenyan mobile number
  */
-export function formatPhoneNumber(phone: string): string {
-  // Remove any spaces, dashes, or plus signs
-  let cleaned = phone.replace(/[\s\-+]/g, "");
+export function formatPhoneNumber(phone: string): string | null {
+  const cleaned = phone.trim().replace(/[\s\-.()]/g, "");
+  const match = cleaned.match(/^(?:\+?254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+}
 
-  // If starts with 0, replace with 254
-  if (cleaned.startsWith("0")) {
-    cleaned = "254" + cleaned.slice(1);
+/**
+ * Check a phone number can receive an STK Push
+ * @returns The MSISDN, or why it can't be used
+ */
+export function validatePhoneNumber(
+  phone: string
+): { phoneNumber: string } | { problem: PhoneNumberProblem } {
+  const phoneNumber = formatPhoneNumber(phone);
+  if (!phoneNumber) return { problem: "format" };
+  if (!SAFARICOM_SUBSCRIBER.test(phoneNumber.slice(3))) {
+    return { problem: "network" };
   }
+  return { phoneNumber };
+}
 
-  // If doesn't start with 254, add it
-  if (!cleaned.startsWith("254")) {
-    cleaned = "254" + cleaned;
+/**
+ * The smallest and largest amount one STK Push may ask for
+ * @throws When MPESA_MIN_AMOUNT or MPESA_MAX_AMOUNT is invalid
+ */
+export function getAmountLimits(): AmountLimits {
+  const min = Number(process.env.MPESA_MIN_AMOUNT || 1);
+  const max = Number(process.env.MPESA_MAX_AMOUNT || DEFAULT_MAX_AMOUNT);
+  if (!Number.isInteger(min) || !Number.isInteger(max) || min < 1 || max < min) {
+    throw new Error(
+      "MPESA_MIN_AMOUNT and MPESA_MAX_AMOUNT must be whole shillings, with 1 <= min <= max"
+    );
   }
-
-  return cleaned;
+  return { min, max };
 }
 
 /**
@@ -117,20 +237,20 @@ export async function initiateStkPush(
 ): Promise<StkPushResponse> {
   const token = await getMpesaToken();
   const { password, timestamp } = generateMpesaPassword();
-  const environment = process.env.MPESA_ENVIRONMENT || "sandbox";
-  const shortcode = process.env.MPESA_SHORTCODE;
-  const callbackUrl = process.env.MPESA_CALLBACK_URL;
+  const config = getMpesaConfig();
+  const { shortcode } = config;
+  const callbackUrl = getCallbackUrl(config);
 
   if (!shortcode || !callbackUrl) {
     throw new Error("M-Pesa configuration incomplete");
   }
 
   const formattedPhone = formatPhoneNumber(request.phoneNumber);
+  if (!formattedPhone) {
+    throw new Error(`Invalid M-Pesa phone number: ${request.phoneNumber}`);
+  }
 
-  const url =
-    environment === "production"
-      ? "https://api.safaricom.co.ke/mpesa/stkpush/v1/processrequest"
-      : "https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest";
+  const url = `${config.baseUrl}/mpesa/stkpush/v1/processrequest`;
 
   const payload = {
     BusinessShortCode: shortcode,
@@ -157,7 +277,7 @@ export async function initiateStkPush(
     });
 
     if (!response.ok) {
-      const errorData = await response.json();
+      const errorData = await response.json().catch(() => ({}));
       throw new Error(
         `STK Push failed: ${errorData.errorMessage || response.statusText}`
       );
@@ -171,19 +291,33 @@ export async function initiateStkPush(
   }
 }
 
+/**
+ * Whether Daraja confirms a payment as paid. Callbacks can't be told apart
+ * from a forged request to our public URL, so a reported success only
+ * counts once this agrees; any error counts as unconfirmed.
+ */
+export async function isStkPushPaid(checkoutRequestID: string): Promise<boolean> {
+  try {
+    const result = await queryStkPushStatus(checkoutRequestID);
+    return result.ResponseCode === "0" && Number(result.ResultCode) === 0;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Query STK Push transaction status
+ * @throws While the customer hasn't answered yet - Daraja reports
+ *   "The transaction is being processed" as an error
  */
-export async function queryStkPushStatus(checkoutRequestID: string) {
+export async function queryStkPushStatus(
+  checkoutRequestID: string
+): Promise<StkQueryResponse> {
   const token = await getMpesaToken();
   const { password, timestamp } = generateMpesaPassword();
-  const environment = process.env.MPESA_ENVIRONMENT || "sandbox";
-  const shortcode = process.env.MPESA_SHORTCODE;
+  const { shortcode, baseUrl } = getMpesaConfig();
 
-  const url =
-    environment === "production"
-      ? "https://api.safaricom.co.ke/mpesa/stkpushquery/v1/query"
-      : "https://sandbox.safaricom.co.ke/mpesa/stkpushquery/v1/query";
+  const url = `${baseUrl}/mpesa/stkpushquery/v1/query`;
 
   const payload = {
     BusinessShortCode: shortcode,
@@ -203,7 +337,10 @@ export async function queryStkPushStatus(checkoutRequestID: string) {
     });
 
     if (!response.ok) {
-      throw new Error(`Query failed: ${response.statusText}`);
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(
+        `Query failed: ${errorData.errorMessage || response.statusText}`
+      );
     }
 
     return await response.json();
@@ -0,0 +1,278 @@
+/**
+ * M-Pesa Transactions
+ *
+ * Every STK Push started from the app is recorded here as PENDING, then
+ * settled by Safaricom's callback (or, if the callback never arrives, by
+ * querying Daraja from the status route). Records are kept in
+ * data/mpesa-transactions.json. Server-only.
+ */
+
+import { randomUUID } from "crypto";
+
+import { createJsonFileCollection } from "./jsonFileStore";
+
+export const ACCOUNT_TYPES = [
+  "OFFERING",
+  "TITHE",
+  "PARTNERSHIP",
+  "MISSIONS",
+] as const;
+export type AccountType = (typeof ACCOUNT_TYPES)[number];
+
+export type TransactionStatus = "PENDING" | "SUCCESS" | "FAILED";
+
+export interface MpesaTransaction {
+  id: string;
+  checkoutRequestId: string;
+  merchantRequestId: string;
+  userId: string;
+  userName: string;
+  /** 2547XXXXXXXX */
+  phoneNumber: string;
+  /** Whole shillings */
+  amount: number;
+  accountReference: AccountType;
+  /** Meeting the payment was made from, if any */
+  roomId?: string;
+  /** The payer agreed to be named to the meeting's host */
+  showGiverName?: boolean;
+  status: TransactionStatus;
+  /** Daraja result code: 0 is paid, 1032 cancelled, 1037 timed out, ... */
+  resultCode?: number;
+  resultDesc?: string;
+  mpesaReceiptNumber?: string;
+  /** When M-Pesa completed the payment */
+  transactionDate?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** What GET /api/mpesa/status/:id reports to the payer */
+export interface PaymentStatusResponse {
+  status: TransactionStatus | "NOT_FOUND";
+  message?: string;
+  data?: {
+    id: string;
+    checkoutRequestId: string;
+    amount: number;
+    accountReference: AccountType;
+    mpesaReceiptNumber?: string;
+    transactionDate?: string;
+    createdAt: string;
+  };
+}
+
+/** The `Body.stkCallback` part of Safaricom's callback */
+export interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: {
+    Item: { Name: string; Value?: string | number }[];
+  };
+}
+
+const transactions = createJsonFileCollection<MpesaTransaction>(
+  "mpesa-transactions.json"
+);
+
+export const isAccountType = (value: unknown): value is AccountType =>
+  ACCOUNT_TYPES.includes(value as AccountType);
+
+const getCallbackItem = (callback: StkCallback, name: string) =>
+  callback.CallbackMetadata?.Item.find((i) => i.Name === name)?.Value;
+
+/**
+ * Validate Safaricom's callback body
+ * @returns The stkCallback, or null when the body isn't one
+ */
+export function parseStkCallback(body: unknown): StkCallback | null {
+  const callback = (body as { Body?: { stkCallback?: StkCallback } })?.Body
+    ?.stkCallback;
+  if (
+    !callback ||
+    typeof callback.MerchantRequestID !== "string" ||
+    typeof callback.CheckoutRequestID !== "string" ||
+    typeof callback.ResultCode !== "number" ||
+    typeof callback.ResultDesc !== "string"
+  ) {
+    return null;
+  }
+
+  const items = callback.CallbackMetadata?.Item;
+  if (
+    items !== undefined &&
+    (!Array.isArray(items) || !items.every((i) => typeof i?.Name === "string"))
+  ) {
+    return null;
+  }
+  // Only a successful payment carries metadata, and it must have a receipt
+  if (callback.ResultCode === 0 && !getCallbackItem(callback, "MpesaReceiptNumber")) {
+    return null;
+  }
+
+  return callback;
+}
+
+// Daraja dates are numbers like 20191219102115, in Kenyan time (UTC+3)
+const parseDarajaDate = (value: string | number | undefined) => {
+  const match = String(value ?? "").match(
+    /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/
+  );
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  return new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}+03:00`).toISOString();
+};
+
+export function createMpesaTransaction(
+  fields: Pick<
+    MpesaTransaction,
+    | "checkoutRequestId"
+    | "merchantRequestId"
+    | "userId"
+    | "userName"
+    | "phoneNumber"
+    | "amount"
+    | "accountReference"
+    | "roomId"
+    | "showGiverName"
+  >
+): Promise<MpesaTransaction> {
+  const now = new Date().toISOString();
+  const record: MpesaTransaction = {
+    id: randomUUID(),
+    ...fields,
+    status: "PENDING",
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return transactions.update((records) => ({
+    records: [...records, record],
+    result: record,
+  }));
+}
+
+export async function getMpesaTransaction(
+  checkoutRequestId: string
+): Promise<MpesaTransaction | null> {
+  const records = await transactions.readAll();
+  return records.find((t) => t.checkoutRequestId === checkoutRequestId) ?? null;
+}
+
+/**
+ * Settle a pending transaction. Settled transactions never change again,
+ * so a repeated callback or a late query result is ignored - except that a
+ * payment settled by a status query (which has no receipt number) picks up
+ * the receipt from a callback that arrives afterwards.
+ * @returns The transaction as stored, or null when there is no such transaction
+ */
+export function settleMpesaTransaction(
+  checkoutRequestId: string,
+  patch: Pick<MpesaTransaction, "status" | "resultCode" | "resultDesc"> &
+    Partial<Pick<MpesaTransaction, "mpesaReceiptNumber" | "transactionDate">>
+): Promise<MpesaTransaction | null> {
+  return transactions.update((records) => {
+    const existing = records.find(
+      (t) => t.checkoutRequestId === checkoutRequestId
+    );
+    if (!existing) return { records, result: null };
+
+    const isLateReceipt =
+      existing.status === "SUCCESS" &&
+      !existing.mpesaReceiptNumber &&
+      patch.status === "SUCCESS" &&
+      !!patch.mpesaReceiptNumber;
+    if (existing.status !== "PENDING" && !isLateReceipt) {
+      return { records, result: existing };
+    }
+
+    const updated: MpesaTransaction = {
+      ...existing,
+      ...(isLateReceipt
+        ? {
+            mpesaReceiptNumber: patch.mpesaReceiptNumber,
+            transactionDate: patch.transactionDate ?? existing.transactionDate,
+          }
+        : patch),
+      updatedAt: new Date().toISOString(),
+    };
+    return {
+      records: records.map((t) =>
+        t.checkoutRequestId === checkoutRequestId ? updated : t
+      ),
+      result: updated,
+    };
+  });
+}
+
+/**
+ * Apply Safaricom's callback to the transaction it belongs to. A payment for
+ * a different amount than was requested is settled as FAILED, so a later
+ * status query can't credit it either.
+ * @returns The settled transaction, or null when the callback doesn't match
+ *   a transaction we started
+ */
+export async function applyStkCallback(
+  callback: StkCallback
+): Promise<MpesaTransaction | null> {
+  const transaction = await getMpesaTransaction(callback.CheckoutRequestID);
+  if (
+    !transaction ||
+    transaction.merchantRequestId !== callback.MerchantRequestID
+  ) {
+    return null;
+  }
+
+  if (callback.ResultCode !== 0) {
+    return settleMpesaTransaction(transaction.checkoutRequestId, {
+      status: "FAILED",
+      resultCode: callback.ResultCode,
+      resultDesc: callback.ResultDesc,
+    });
+  }
+
+  // Never credit a payment for a different amount than was requested
+  const paid = Number(getCallbackItem(callback, "Amount"));
+  if (paid !== transaction.amount) {
+    console.warn(
+      `⚠️ M-Pesa callback amount ${paid} doesn't match ${transaction.amount} for ${transaction.checkoutRequestId}`
+    );
+    return settleMpesaTransaction(transaction.checkoutRequestId, {
+      status: "FAILED",
+      resultCode: callback.ResultCode,
+      resultDesc: `Amount paid (KES ${paid}) doesn't match the KES ${transaction.amount} requested`,
+    });
+  }
+
+  return settleMpesaTransaction(transaction.checkoutRequestId, {
+    status: "SUCCESS",
+    resultCode: 0,
+    resultDesc: callback.ResultDesc,
+    mpesaReceiptNumber: String(getCallbackItem(callback, "MpesaReceiptNumber")),
+    transactionDate: parseDarajaDate(getCallbackItem(callback, "TransactionDate")),
+  });
+}
+
+/** Shape a transaction for its payer */
+export function toPaymentStatus(
+  transaction: MpesaTransaction
+): PaymentStatusResponse {
+  return {
+    status: transaction.status,
+    message:
+      transaction.status === "FAILED"
+        ? transaction.resultDesc || "Payment failed"
+        : undefined,
+    data: {
+      id: transaction.id,
+      checkoutRequestId: transaction.checkoutRequestId,
+      amount: transaction.amount,
+      accountReference: transaction.accountReference,
+      mpesaReceiptNumber: transaction.mpesaReceiptNumber,
+      transactionDate: transaction.transactionDate,
+      createdAt: transaction.createdAt,
+    },
+  };
+}
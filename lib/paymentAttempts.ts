@@ -0,0 +1,125 @@
+/**
+ * Payment Attempts
+ *
+ * Makes STK Pushes idempotent. The payment modal sends an Idempotency-Key
+ * with each payment attempt and reuses it when it retries, so a double tap,
+ * a retried request or a second tab can never push (and charge) twice. The
+ * key is reserved before Daraja is called and remembers the STK Push it
+ * produced; a replay gets that payment back instead of a new one. Keys are
+ * scoped to the user and forgotten after a day. Kept in
+ * data/mpesa-payment-attempts.json. Server-only.
+ */
+
+import { createJsonFileCollection } from "./jsonFileStore";
+
+export interface PaymentAttempt {
+  key: string;
+  userId: string;
+  /** What was asked for, so a key can't be reused for a different payment */
+  fingerprint: string;
+  /** Set once Daraja accepted the STK Push */
+  checkoutRequestId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PaymentAttemptReservation =
+  /** First use of the key; go ahead and push */
+  | { outcome: "reserved" }
+  /** Another request with this key is talking to Daraja right now */
+  | { outcome: "in-progress" }
+  /** Already pushed; report this payment instead */
+  | { outcome: "sent"; checkoutRequestId: string }
+  /** The key was used for a different payment */
+  | { outcome: "mismatch" };
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+const ATTEMPT_TTL_MS = 24 * 60 * 60 * 1000;
+// A reservation this old without a push died with its request
+const STALE_RESERVATION_MS = 2 * 60 * 1000;
+
+const attempts = createJsonFileCollection<PaymentAttempt>(
+  "mpesa-payment-attempts.json"
+);
+
+export const isIdempotencyKey = (value: unknown): value is string =>
+  typeof value === "string" && IDEMPOTENCY_KEY_PATTERN.test(value);
+
+const isSameAttempt = (attempt: PaymentAttempt, userId: string, key: string) =>
+  attempt.userId === userId && attempt.key === key;
+
+/**
+ * Claim an idempotency key before sending an STK Push
+ * @param fingerprint - The payment's details; a replay must match them
+ */
+export function reservePaymentAttempt(
+  userId: string,
+  key: string,
+  fingerprint: string
+): Promise<PaymentAttemptReservation> {
+  return attempts.update<PaymentAttemptReservation>((records) => {
+    const now = Date.now();
+    const live = records.filter(
+      (a) =>
+        now - new Date(a.createdAt).getTime() < ATTEMPT_TTL_MS &&
+        (a.checkoutRequestId ||
+          now - new Date(a.updatedAt).getTime() < STALE_RESERVATION_MS)
+    );
+
+    const existing = live.find((a) => isSameAttempt(a, userId, key));
+    if (existing && existing.fingerprint !== fingerprint) {
+      return { records: live, result: { outcome: "mismatch" } };
+    }
+    if (existing?.checkoutRequestId) {
+      return {
+        records: live,
+        result: { outcome: "sent", checkoutRequestId: existing.checkoutRequestId },
+      };
+    }
+    if (existing) {
+      return { records: live, result: { outcome: "in-progress" } };
+    }
+
+    const timestamp = new Date(now).toISOString();
+    return {
+      records: [
+        ...live,
+        { key, userId, fingerprint, createdAt: timestamp, updatedAt: timestamp },
+      ],
+      result: { outcome: "reserved" },
+    };
+  });
+}
+
+/** Remember the STK Push a reserved key produced */
+export function completePaymentAttempt(
+  userId: string,
+  key: string,
+  checkoutRequestId: string
+): Promise<void> {
+  return attempts.update((records) => ({
+    records: records.map((a) =>
+      isSameAttempt(a, userId, key)
+        ? { ...a, checkoutRequestId, updatedAt: new Date().toISOString() }
+        : a
+    ),
+    result: undefined,
+  }));
+}
+
+/**
+ * Give a key back when its STK Push wasn't sent, so the payer can retry.
+ * Safaricom refuses a second push while one is waiting on the phone, so a
+ * push that did go out despite an error can't be doubled by the retry.
+ */
+export function releasePaymentAttempt(
+  userId: string,
+  key: string
+): Promise<void> {
+  return attempts.update((records) => ({
+    records: records.filter(
+      (a) => !isSameAttempt(a, userId, key) || !!a.checkoutRequestId
+    ),
+    result: undefined,
+  }));
+}
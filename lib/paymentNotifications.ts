@@ -0,0 +1,89 @@
+/**
+ * Payment Notifications
+ *
+ * M-Pesa calls back into this app, but the payer's browser is connected to
+ * the signaling server. When a payment settles we post a signed
+ * payment-notice (see lib/joinToken) to the signaling server's
+ * /api/payments/status; it verifies the notice and emits "payment-status" to
+ * every socket subscribed to that payment. A gift made from a meeting also
+ * posts a giving-update to /api/rooms/giving-update, which the signaling
+ * server relays to the room's hosts as "giving-updated" so their tally
+ * refreshes. Delivery is best effort - the payment modal and the tally both
+ * poll as a fallback. Server-only.
+ */
+
+import type { GivingEntry } from "./givingLedger";
+import { signGivingUpdate, signPaymentNotice } from "./joinToken";
+import { toPaymentStatus, type MpesaTransaction } from "./mpesaTransactions";
+
+const NOTIFY_TIMEOUT_MS = 5000;
+
+// SIGNALING_SERVER_URL lets the server reach it on a private address
+const getSignalingUrl = () =>
+  (
+    process.env.SIGNALING_SERVER_URL ||
+    process.env.NEXT_PUBLIC_SOCKET_URL ||
+    "http://localhost:8080"
+  ).replace(/\/$/, "");
+
+/** @returns Whether the signaling server accepted the notice */
+async function postNotice(path: string, token: string, subject: string) {
+  try {
+    const response = await fetch(`${getSignalingUrl()}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ notice: token }),
+      signal: AbortSignal.timeout(NOTIFY_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.warn(
+        `⚠️ Signaling server refused ${path} (${response.status}) for ${subject}`
+      );
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn(`⚠️ Couldn't post ${path} for ${subject}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Tell the payer's sockets how a payment ended
+ * @returns Whether the signaling server accepted the notice
+ */
+export async function notifyPaymentStatus(
+  transaction: MpesaTransaction
+): Promise<boolean> {
+  const { token } = signPaymentNotice({
+    userId: transaction.userId,
+    checkoutRequestId: transaction.checkoutRequestId,
+    payment: toPaymentStatus(transaction),
+  });
+
+  const delivered = await postNotice(
+    "/api/payments/status",
+    token,
+    transaction.checkoutRequestId
+  );
+  if (delivered) {
+    console.log("📣 Payment status pushed:", transaction.checkoutRequestId);
+  }
+  return delivered;
+}
+
+/**
+ * Tell a meeting's hosts that its giving tally changed. The notice carries
+ * no amounts; hosts fetch the tally themselves.
+ * @returns Whether the signaling server accepted the notice, or false for a
+ *   gift that wasn't made from a meeting
+ */
+export async function notifyGivingUpdate(gift: GivingEntry): Promise<boolean> {
+  if (!gift.roomId) return false;
+
+  const { token } = signGivingUpdate({
+    roomId: gift.roomId,
+    userId: gift.userId,
+  });
+  return postNotice("/api/rooms/giving-update", token, gift.roomId);
+}
@@ -0,0 +1,115 @@
+/**
+ * PDF
+ *
+ * Just enough PDF to print a one-page document of text lines - receipts and
+ * the like - without pulling in a PDF library. Uses the built-in Helvetica
+ * fonts, so text is limited to Latin-1; anything else prints as "?".
+ * Server-only.
+ */
+
+export type PdfLine =
+  | {
+      text: string;
+      /** Printed in a second column, e.g. a label's value */
+      value?: string;
+      size?: number;
+      bold?: boolean;
+      /** Extra points of space above the line */
+      spaceBefore?: number;
+      color?: "black" | "grey";
+    }
+  | { rule: true; spaceBefore?: number };
+
+// A4 in points
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 56;
+const VALUE_COLUMN = 220;
+const DEFAULT_SIZE = 11;
+
+const COLORS = { black: "0 0 0", grey: "0.45 0.45 0.45" };
+
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/gu, "?")
+    .replace(/[\\()]/g, "\\$&");
+
+const showText = (
+  x: number,
+  y: number,
+  text: string,
+  size: number,
+  bold: boolean,
+  color: keyof typeof COLORS
+) =>
+  `BT ${COLORS[color]} rg /${bold ? "F2" : "F1"} ${size} Tf ${x} ${y} Td (${escapeText(text)}) Tj ET`;
+
+/** Lay the lines out top to bottom as page content operators */
+const renderContent = (lines: PdfLine[]) => {
+  const operators: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    y -= line.spaceBefore ?? 0;
+
+    if ("rule" in line) {
+      y -= 8;
+      operators.push(
+        `0.8 0.8 0.8 RG 0.75 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S`
+      );
+      y -= 8;
+      continue;
+    }
+
+    const size = line.size ?? DEFAULT_SIZE;
+    y -= size * 1.4;
+    if (y < MARGIN) break;
+
+    const color = line.color ?? "black";
+    operators.push(showText(MARGIN, y, line.text, size, !!line.bold, color));
+    if (line.value !== undefined) {
+      operators.push(
+        showText(VALUE_COLUMN, y, line.value, size, !!line.bold, "black")
+      );
+    }
+  }
+
+  return operators.join("\n");
+};
+
+/**
+ * Render a one-page PDF; lines that don't fit are dropped
+ * @param title - Document title shown by PDF viewers
+ */
+export function createTextPdf(lines: PdfLine[], title = "Document"): Buffer {
+  const content = renderContent(lines);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      "/Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents 6 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    `<< /Title (${escapeText(title)}) /Producer (KANI MEET) >>`,
+  ];
+
+  // Byte offsets for the cross-reference table; latin1 keeps one byte per char
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  pdf +=
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
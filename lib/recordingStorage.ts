@@ -0,0 +1,176 @@
+/**
+ * Recording Storage
+ *
+ * Metadata for meeting recordings made in the browser and uploaded in chunks
+ * through /api/upload/sessions. The media itself lives in file storage
+ * (lib/fileStorage); this file only tracks who recorded what, in which room,
+ * and where it is. A recording can be seen and deleted by whoever made it
+ * and by the meeting's owner, but only renamed by whoever made it.
+ * Server-only.
+ */
+
+import { randomUUID } from "crypto";
+
+import { createJsonFileCollection } from "./jsonFileStore";
+import { getMeetingStorage } from "./meetingStorage";
+import type { UploadRecord } from "./uploads";
+
+export interface RecordingRecord {
+  id: string;
+  roomId: string;
+  /** Display name, editable by the owner */
+  title: string;
+  url: string;
+  /** File storage key */
+  key: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  durationMs: number;
+  createdBy: string;
+  createdByName?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface RecordingListFilter {
+  /** Recordings made by this user... */
+  createdBy?: string;
+  /** ...or made in any of these rooms */
+  roomIds?: string[];
+}
+
+const recordings = createJsonFileCollection<RecordingRecord>("recordings.json");
+
+// Records saved before titles existed fall back to their file name
+const withTitle = (record: RecordingRecord): RecordingRecord => ({
+  ...record,
+  title: record.title || record.filename,
+});
+
+/**
+ * Whether a user may see (play, download) a recording
+ * @returns True for whoever made it, for the meeting's owner and, for a
+ *   personal room, for the room's user
+ */
+export async function canViewRecording(
+  recording: Pick<RecordingRecord, "createdBy" | "roomId">,
+  userId: string
+): Promise<boolean> {
+  if (recording.createdBy === userId || recording.roomId === userId) {
+    return true;
+  }
+  const meeting = await getMeetingStorage().get(recording.roomId);
+  return meeting?.createdBy === userId;
+}
+
+/**
+ * Whether a user may delete a recording: whoever made it, and the meeting's
+ * owner, since it is filed in their meeting's library
+ */
+export const canDeleteRecording = canViewRecording;
+
+/**
+ * List recordings, newest first
+ * @param filter - Recordings matching either condition are returned
+ */
+export async function listRecordings(
+  filter: RecordingListFilter = {}
+): Promise<RecordingRecord[]> {
+  const all = await recordings.readAll();
+  const roomIds = new Set(filter.roomIds ?? []);
+
+  return all
+    .filter(
+      (r) =>
+        (!filter.createdBy && !filter.roomIds) ||
+        r.createdBy === filter.createdBy ||
+        roomIds.has(r.roomId)
+    )
+    .map(withTitle)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get one recording
+ * @returns The record, or null when no recording has that ID
+ */
+export async function getRecording(
+  id: string
+): Promise<RecordingRecord | null> {
+  const all = await recordings.readAll();
+  const recording = all.find((r) => r.id === id);
+  return recording ? withTitle(recording) : null;
+}
+
+/**
+ * Store metadata for a freshly uploaded recording
+ */
+export function createRecording(
+  record: RecordingRecord
+): Promise<RecordingRecord> {
+  return recordings.update((records) => ({
+    records: [...records, record],
+    result: record,
+  }));
+}
+
+/**
+ * Create the metadata record for a stored recording upload, titled after
+ * the meeting it was made in
+ */
+export async function createRecordingFromUpload(
+  upload: UploadRecord,
+  details: { durationMs: number; createdByName?: string }
+): Promise<RecordingRecord> {
+  const meeting = await getMeetingStorage().get(upload.roomId);
+  const meetingTitle =
+    meeting?.description ||
+    (upload.roomId === upload.uploadedBy ? "Personal Room" : "Meeting");
+
+  return createRecording({
+    id: randomUUID(),
+    roomId: upload.roomId,
+    title: `${meetingTitle} – ${new Date(upload.createdAt).toLocaleDateString("en-GB")}`,
+    url: upload.url,
+    key: upload.key,
+    filename: upload.name,
+    mimeType: upload.mime,
+    size: upload.size,
+    durationMs: details.durationMs,
+    createdBy: upload.uploadedBy,
+    createdByName: details.createdByName,
+    createdAt: upload.createdAt,
+  });
+}
+
+/**
+ * Rename a recording
+ * @returns The updated record, or null when no recording has that ID
+ */
+export function renameRecording(
+  id: string,
+  title: string
+): Promise<RecordingRecord | null> {
+  return recordings.update((records) => {
+    const existing = records.find((r) => r.id === id);
+    if (!existing) return { records, result: null };
+
+    const updated = { ...existing, title, updatedAt: new Date().toISOString() };
+    return {
+      records: records.map((r) => (r.id === id ? updated : r)),
+      result: updated,
+    };
+  });
+}
+
+/**
+ * Remove a recording's metadata (the caller deletes the media)
+ * @returns The removed record, or null when no recording has that ID
+ */
+export function deleteRecording(id: string): Promise<RecordingRecord | null> {
+  return recordings.update((records) => ({
+    records: records.filter((r) => r.id !== id),
+    result: records.find((r) => r.id === id) ?? null,
+  }));
+}
@@ -0,0 +1,100 @@
+/**
+ * Camera Simulcast Ladder
+ *
+ * The camera producer sends one encoding per ladder layer (lowest first) and
+ * every viewer asks the SFU for the smallest layer that still fills its tile.
+ * Override the default ladder with NEXT_PUBLIC_SIMULCAST_LADDER, a JSON array
+ * of { scaleResolutionDownBy, maxBitrate, maxFramerate? } objects.
+ */
+
+import type { types } from "mediasoup-client";
+
+export interface SimulcastLayer {
+  scaleResolutionDownBy: number;
+  maxBitrate: number;
+  maxFramerate?: number;
+}
+
+// Matches the ideal height requested from getUserMedia for the camera
+export const CAMERA_CAPTURE_HEIGHT = 720;
+
+export const DEFAULT_SIMULCAST_LADDER: SimulcastLayer[] = [
+  { scaleResolutionDownBy: 4, maxBitrate: 150_000, maxFramerate: 15 },
+  { scaleResolutionDownBy: 2, maxBitrate: 500_000 },
+  { scaleResolutionDownBy: 1, maxBitrate: 1_500_000 },
+];
+
+const isValidLayer = (layer: unknown): layer is SimulcastLayer => {
+  if (!layer || typeof layer !== "object") return false;
+  const { scaleResolutionDownBy, maxBitrate, maxFramerate } =
+    layer as SimulcastLayer;
+  return (
+    typeof scaleResolutionDownBy === "number" &&
+    scaleResolutionDownBy >= 1 &&
+    typeof maxBitrate === "number" &&
+    maxBitrate > 0 &&
+    (maxFramerate === undefined ||
+      (typeof maxFramerate === "number" && maxFramerate > 0))
+  );
+};
+
+/**
+ * Get the configured ladder, ordered from lowest to highest resolution
+ * @returns The env override when it is valid, otherwise the default ladder
+ */
+export function getSimulcastLadder(): SimulcastLayer[] {
+  const raw = process.env.NEXT_PUBLIC_SIMULCAST_LADDER;
+  if (!raw) return DEFAULT_SIMULCAST_LADDER;
+
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isValidLayer)) {
+      return [...parsed].sort(
+        (a, b) => b.scaleResolutionDownBy - a.scaleResolutionDownBy
+      );
+    }
+    console.warn("Ignoring invalid NEXT_PUBLIC_SIMULCAST_LADDER:", raw);
+  } catch (error) {
+    console.error("Failed to parse NEXT_PUBLIC_SIMULCAST_LADDER:", error);
+  }
+
+  return DEFAULT_SIMULCAST_LADDER;
+}
+
+/**
+ * Build the RTP encodings for the camera producer
+ */
+export function getSimulcastEncodings(
+  ladder: SimulcastLayer[] = getSimulcastLadder()
+): types.RtpEncodingParameters[] {
+  return ladder.map((layer, index) => ({
+    rid: `r${index}`,
+    scaleResolutionDownBy: layer.scaleResolutionDownBy,
+    maxBitrate: layer.maxBitrate,
+    ...(layer.maxFramerate !== undefined && {
+      maxFramerate: layer.maxFramerate,
+    }),
+    scalabilityMode: "L1T3",
+  }));
+}
+
+/**
+ * Pick the lowest spatial layer whose height covers the rendered tile
+ * @param renderedHeight - Tile height in CSS pixels
+ * @param pixelRatio - Device pixel ratio of the viewer's screen
+ * @returns Spatial layer index into the ladder
+ */
+export function pickSpatialLayer(
+  renderedHeight: number,
+  pixelRatio: number = 1,
+  ladder: SimulcastLayer[] = getSimulcastLadder()
+): number {
+  const neededHeight = renderedHeight * pixelRatio;
+
+  const index = ladder.findIndex(
+    (layer) =>
+      CAMERA_CAPTURE_HEIGHT / layer.scaleResolutionDownBy >= neededHeight
+  );
+
+  return index === -1 ? ladder.length - 1 : index;
+}
@@ -1,8 +1,9 @@
-import { io, Socket } from "socket.io-client";
+import { io } from "socket.io-client";
+import type { AppSocket } from "@/lib/socketEvents";
 
-let socket: Socket | null = null;
+let socket: AppSocket | null = null;
 
-export const getSocket = () => {
+export const getSocket = (): AppSocket => {
   if (!socket) {
     const serverUrl =
       process.env.NEXT_PUBLIC_SOCKET_URL || "http://localhost:8080";
@@ -43,11 +44,12 @@ export const getSocket = () => {
       console.error("   4. Check firewall/network settings");
     });
 
-    socket.on("reconnect_attempt", (attemptNumber) => {
+    // Reconnection events are emitted by the underlying Manager, not the socket
+    socket.io.on("reconnect_attempt", (attemptNumber) => {
       console.log(`🔄 Reconnection attempt ${attemptNumber}...`);
     });
 
-    socket.on("reconnect_failed", () => {
+    socket.io.on("reconnect_failed", () => {
       console.error("❌ Reconnection failed after all attempts");
     });
   }
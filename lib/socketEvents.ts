@@ -0,0 +1,467 @@
+/**
+ * Socket Event Contract
+ *
+ * Single source of truth for every event exchanged with the signaling server.
+ * `getSocket()` is parameterised with these maps, so an event name typo or a
+ * payload field that drifts from the backend is a compile error.
+ */
+
+import type { Socket } from "socket.io-client";
+import type { types } from "mediasoup-client";
+import type {
+  AccountType,
+  PaymentStatusResponse,
+} from "@/lib/mpesaTransactions";
+
+// ----------------------------
+// SHARED PAYLOADS
+// ----------------------------
+
+export interface Participant {
+  id: string;
+  name: string;
+  imageUrl?: string;
+  isAudioMuted: boolean;
+  isVideoPaused: boolean;
+  isHost: boolean;
+  isCoHost?: boolean;
+  audioLocked?: boolean; // Cannot unmute when true
+  screenShareLocked?: boolean; // Cannot screen share when true
+}
+
+export type ParticipantRole = "HOST" | "COHOST" | "PARTICIPANT";
+
+export type HostMediaPermission = "audio" | "video" | "screenshare";
+
+/** Every acknowledgement may carry an error instead of its payload */
+export type AckResponse<T = object> = Partial<T> & { error?: string };
+
+export type Ack<T = object> = (response: AckResponse<T>) => void;
+
+export interface PersistedMediaState {
+  isAudioMuted: boolean;
+  isVideoPaused: boolean;
+  audioLocked?: boolean;
+}
+
+export type ExistingProducer = string | { id?: string; producerId?: string };
+
+export interface JoinRoomResponse {
+  existingProducers: ExistingProducer[];
+  isHost: boolean;
+  isCoHost: boolean;
+  mediaState: PersistedMediaState | null;
+}
+
+export interface ConsumeResponse {
+  id: string;
+  producerId: string;
+  kind: types.MediaKind;
+  rtpParameters: types.RtpParameters;
+  appData?: types.AppData;
+  isScreenShare?: boolean;
+  // The server identifies the producing peer under several historical names
+  userId?: string;
+  producerUserId?: string;
+  peerId?: string;
+  producerSocketId?: string;
+  from?: string;
+}
+
+type RoomPayload = { roomId: string };
+type HostActionPayload = RoomPayload & { userId: string };
+type RoleChangePayload = RoomPayload & { participantId: string };
+type ScreenSharePayload = RoomPayload & { userId: string; producerId: string };
+type ByPayload = { by: string };
+
+/** Someone recording the meeting locally in their browser */
+export interface RecordingUser {
+  userId: string;
+  userName: string;
+}
+
+export interface MessageEditedPayload {
+  messageId: string;
+  text: string;
+  editedAt: number;
+}
+
+export interface MessageDeletedPayload {
+  messageId: string;
+  deletedAt: number;
+  deletedBy: { id: string; name: string };
+  /** Removed by a host or co-host rather than its sender */
+  moderated: boolean;
+}
+
+export interface MeetingEndedPayload {
+  roomId: string;
+  endedBy: string;
+  endedByName?: string;
+  endedAt: string;
+}
+
+/** A host's call to give, shown to everyone in the room until it's ended */
+export interface GivingMoment {
+  startedAt: string;
+  startedBy: string;
+  startedByName?: string;
+  /** What the host is asking people to give to, if anything in particular */
+  accountType?: AccountType;
+  message?: string;
+}
+
+// ----------------------------
+// CHAT MESSAGES
+// ----------------------------
+
+export type ChatAttachment = {
+  id: string;
+  name: string;
+  type: "image" | "video" | "audio" | "file";
+  mime: string;
+  size: number;
+  previewUrl?: string;
+  url?: string;
+  uploading?: boolean;
+  /** Upload progress, 0-100 */
+  progress?: number;
+  /** Why the upload stopped; the composer offers a retry */
+  error?: string;
+  file?: File;
+};
+
+export type SocketChatMessage = {
+  id: string;
+  text: string;
+  createdAt: number;
+  pinned: boolean;
+  sender: {
+    id: string;
+    name: string;
+    avatarUrl?: string;
+  };
+  attachments?: ChatAttachment[];
+  /** Set on private messages: the only other person who can see it */
+  recipient?: {
+    id: string;
+    name: string;
+  };
+  replyTo?: {
+    id: string;
+    text: string;
+    senderName: string;
+  };
+  reactions?: Record<string, string[]>; // emoji -> userIds
+  editedAt?: number;
+  /** Earlier versions of the text and when each was written, oldest first */
+  editHistory?: { text: string; writtenAt: number }[];
+  /** Soft-deleted: text and attachments are gone, a placeholder stays */
+  deleted?: boolean;
+  deletedAt?: number;
+  deletedBy?: { id: string; name: string };
+  /** Deleted by a host or co-host rather than the sender */
+  moderated?: boolean;
+};
+
+export type ReceivedMessage = {
+  socketId: string;
+  message: SocketChatMessage;
+};
+
+// ----------------------------
+// SERVER → CLIENT
+// ----------------------------
+
+/**
+ * How an M-Pesa payment settled. Our callback route posts it to the
+ * signaling server as a signed payment-notice (lib/paymentNotifications),
+ * which relays it to the sockets subscribed to that payment.
+ */
+export type PaymentStatusPayload = PaymentStatusResponse & {
+  checkoutRequestId: string;
+};
+
+export interface ServerToClientEvents {
+  // Participants
+  "participant-list-update": (participants: Participant[]) => void;
+  "socket-user-mapping": (data: { socketId: string; userId: string }) => void;
+  "participant-left": (data: { peerId?: string; userId?: string }) => void;
+  "participant-state-changed": (data: {
+    userId: string;
+    isAudioMuted?: boolean;
+    isVideoPaused?: boolean;
+  }) => void;
+  "participant-updated": (data: {
+    participantId: string;
+    updates: Partial<Participant>;
+  }) => void;
+
+  // Roles
+  "cohost-granted": (data: ByPayload) => void;
+  "cohost-revoked": (data: ByPayload) => void;
+  "host-granted": (data: ByPayload) => void;
+  "host-revoked": (data: ByPayload) => void;
+  "role-changed": (data: { role: ParticipantRole; reason?: string }) => void;
+
+  // Host media controls
+  "force-mute": (data: { audio: boolean; by: string; locked?: boolean }) => void;
+  "allow-unmute": (data: { by: string; locked?: boolean }) => void;
+  "force-video-pause": (data: { video: boolean; by: string }) => void;
+  "allow-video-enable": (data: ByPayload) => void;
+  "allow-unpause": (data: ByPayload) => void;
+  "disable-all-cameras": (data: ByPayload) => void;
+  "enable-all-cameras": (data: ByPayload) => void;
+  "screenshare-control": (data: { enabled: boolean; by: string }) => void;
+  "host-stop-screenshare": (data: ByPayload) => void;
+  "screenshare-global-update": (data: { enabled: boolean; by?: string }) => void;
+  "screenshare-denied": (data: { reason?: string }) => void;
+  "kicked-from-room": (data: { by: string; reason: string }) => void;
+  "meeting-ended": (data: MeetingEndedPayload) => void;
+
+  // Recording
+  "recording-state-changed": (
+    data: RecordingUser & { recording: boolean }
+  ) => void;
+
+  // Mediasoup
+  "new-producer": (data: {
+    producerId: string;
+    peerId?: string;
+    kind?: types.MediaKind;
+    userId?: string;
+  }) => void;
+  "producer-closed": (data: { producerId: string }) => void;
+
+  // Reactions
+  "receive-video-reaction": (data: {
+    emoji: string;
+    sessionId: string | null;
+    userId: string;
+    userName: string;
+  }) => void;
+
+  // Chat
+  "chat-history": (history: ReceivedMessage[]) => void;
+  "receive-message": (data: ReceivedMessage) => void;
+  "typing-start": (data: { socketId: string; name: string }) => void;
+  "typing-stop": (data: { socketId: string }) => void;
+  "pin-message": (message: SocketChatMessage) => void;
+  "pin-message-update": (data: { messageId: string; pinned: boolean }) => void;
+  "message-react": (data: {
+    messageId: string;
+    emoji: string;
+    userId: string;
+  }) => void;
+  "message-react-update": (data: {
+    messageId: string;
+    userId: string;
+    emoji: string;
+    action: "added" | "removed" | "updated";
+  }) => void;
+  "message-error": (data: { messageId: string; error: string }) => void;
+  "message-edited": (data: MessageEditedPayload) => void;
+  "message-deleted": (data: MessageDeletedPayload) => void;
+  /** Sent on join and whenever a host changes it */
+  "private-chat-setting": (data: { enabled: boolean; by?: string }) => void;
+
+  // Payments
+  "payment-status": (data: PaymentStatusPayload) => void;
+  /** Sent on join and whenever a host starts or ends a giving moment */
+  "giving-moment": (data: { moment: GivingMoment | null; by?: string }) => void;
+  /**
+   * To the room's hosts only, relayed from our giving-update notice. Carries
+   * no amounts - hosts refetch GET /api/meetings/:id/giving.
+   */
+  "giving-updated": (data: RoomPayload) => void;
+}
+
+// ----------------------------
+// CLIENT → SERVER
+// ----------------------------
+
+export interface ClientToServerEvents {
+  // Identity
+  "set-user-id": (userId: string) => void;
+  "get-socket-id-for-user": (
+    data: { userId: string },
+    ack: Ack<{ socketId: string }>
+  ) => void;
+
+  // Mediasoup signaling
+  "get-rtp-capabilities": (
+    data: RoomPayload,
+    ack: Ack<{ rtpCapabilities: types.RtpCapabilities }>
+  ) => void;
+  "join-mediasoup-room": (
+    data: RoomPayload & {
+      rtpCapabilities: types.RtpCapabilities;
+      userId: string;
+      userName?: string;
+      userImageUrl?: string;
+      isCreator: boolean;
+      /** Signed by getMeetingPermissions; the SFU should trust it over isCreator */
+      joinToken?: string;
+    },
+    ack: Ack<JoinRoomResponse>
+  ) => void;
+  "create-webrtc-transport": (
+    data: RoomPayload & { direction: "send" | "recv" },
+    ack: Ack<{ params: types.TransportOptions }>
+  ) => void;
+  "connect-transport": (
+    data: RoomPayload & {
+      transportId: string;
+      dtlsParameters: types.DtlsParameters;
+    },
+    ack: Ack
+  ) => void;
+  produce: (
+    data: RoomPayload & {
+      transportId: string;
+      kind: types.MediaKind;
+      rtpParameters: types.RtpParameters;
+      appData?: types.AppData;
+    },
+    ack: Ack<{ id: string }>
+  ) => void;
+  consume: (
+    data: RoomPayload & {
+      producerId: string;
+      rtpCapabilities: types.RtpCapabilities;
+    },
+    ack: Ack<ConsumeResponse>
+  ) => void;
+  "resume-consumer": (data: RoomPayload & { consumerId: string }) => void;
+  "pause-consumer": (data: RoomPayload & { consumerId: string }) => void;
+  "set-consumer-preferred-layers": (
+    data: RoomPayload & {
+      consumerId: string;
+      spatialLayer: number;
+      temporalLayer?: number;
+    }
+  ) => void;
+  "restart-ice": (
+    data: RoomPayload & { transportId: string },
+    ack: Ack<{ iceParameters: types.IceParameters }>
+  ) => void;
+
+  // Local media state
+  "update-my-state": (
+    data: RoomPayload & {
+      userId: string;
+      isAudioMuted?: boolean;
+      isVideoPaused?: boolean;
+    }
+  ) => void;
+  "screen-share-started": (data: ScreenSharePayload) => void;
+  "screen-share-stopped": (data: ScreenSharePayload) => void;
+
+  // Roles
+  "make-host": (data: RoleChangePayload) => void;
+  "remove-host": (data: RoleChangePayload) => void;
+  "make-cohost": (data: RoleChangePayload) => void;
+  "remove-cohost": (data: RoleChangePayload) => void;
+
+  // Host controls
+  "toggle-remote-audio": (
+    data: HostActionPayload & {
+      targetUserId: string;
+      force: "mute" | "unmute";
+    }
+  ) => void;
+  "toggle-remote-video": (
+    data: HostActionPayload & {
+      targetUserId: string;
+      force: "pause" | "unpause";
+    }
+  ) => void;
+  "remove-participant": (
+    data: HostActionPayload & { targetUserId: string }
+  ) => void;
+  /** endToken comes from the endMeeting server action */
+  "end-meeting-for-all": (
+    data: HostActionPayload & { endToken: string },
+    ack: Ack
+  ) => void;
+  "mute-all-participants": (data: HostActionPayload) => void;
+  "unmute-all-participants": (data: HostActionPayload) => void;
+  "disable-all-cameras": (data: HostActionPayload) => void;
+  "enable-all-cameras": (data: HostActionPayload) => void;
+  "disable-all-screen-sharing": (data: HostActionPayload) => void;
+  "enable-all-screen-sharing": (data: HostActionPayload) => void;
+  "host-bulk-action": (data: {
+    type: HostMediaPermission;
+    grant: boolean;
+  }) => void;
+  "host-control-participant": (data: {
+    userId: string;
+    type: HostMediaPermission;
+    disable: boolean;
+  }) => void;
+
+  // Recording
+  "recording-state": (
+    data: RoomPayload & RecordingUser & { recording: boolean }
+  ) => void;
+
+  // Reactions
+  "video-reaction": (
+    data: RoomPayload & {
+      emoji: string;
+      sessionId: string | null;
+      userId?: string;
+      userName: string;
+    }
+  ) => void;
+
+  // Chat
+  "join-room": (roomId: string) => void;
+  "leave-room": (roomId: string) => void;
+  "request-chat-history": (data: RoomPayload) => void;
+  "send-message": (data: RoomPayload & { message: SocketChatMessage }) => void;
+  /**
+   * Delivered only to the sender and message.recipient. While private chat
+   * is disabled, only messages to or from a host/co-host are allowed.
+   */
+  "send-private-message": (
+    data: RoomPayload & { message: SocketChatMessage },
+    ack: Ack
+  ) => void;
+  "set-private-chat": (data: HostActionPayload & { enabled: boolean }) => void;
+  "pin-message": (
+    data: RoomPayload & { messageId: string; pinned: boolean }
+  ) => void;
+  "message-react": (
+    data: RoomPayload & { messageId: string; emoji: string; userId: string }
+  ) => void;
+  /** Only the sender may edit */
+  "edit-message": (
+    data: RoomPayload & { messageId: string; text: string; userId: string },
+    ack: Ack
+  ) => void;
+  /** The sender, or a host/co-host moderating, may delete */
+  "delete-message": (
+    data: RoomPayload & { messageId: string; userId: string; userName: string },
+    ack: Ack
+  ) => void;
+  "typing-start": (data: RoomPayload & { name: string }) => void;
+  "typing-stop": (data: RoomPayload) => void;
+
+  // Payments
+  /** statusToken comes from POST /api/mpesa/initiate */
+  "subscribe-payment-status": (
+    data: { checkoutRequestId: string; statusToken: string },
+    ack: Ack
+  ) => void;
+  "unsubscribe-payment-status": (data: { checkoutRequestId: string }) => void;
+  /** Hosts and co-hosts only; the server fills in startedAt and startedBy */
+  "start-giving-moment": (
+    data: HostActionPayload &
+      Pick<GivingMoment, "accountType" | "message" | "startedByName">,
+    ack: Ack<{ moment: GivingMoment }>
+  ) => void;
+  "end-giving-moment": (data: HostActionPayload, ack: Ack) => void;
+}
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
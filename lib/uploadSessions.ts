@@ -0,0 +1,328 @@
+/**
+ * Upload Sessions
+ *
+ * Resumable, chunked uploads for large chat attachments and for meeting
+ * recordings, which are far bigger than one request body may be. The
+ * client opens a session with the file's name, size, type and kind, PUTs
+ * fixed-size chunks in any
+ * order (re-sending one is harmless), and asks for completion once every
+ * chunk is in; the server then validates the file from its first chunk, as a
+ * single-shot /api/upload would be, and has file storage join the chunks into
+ * the final file without it ever being held in memory. Chunks are staged in
+ * file storage so any instance can take the next one, and a client that lost
+ * its connection asks the session which chunks arrived and carries on.
+ * Server-only.
+ */
+
+import { randomUUID } from "crypto";
+
+import { getFileStorage } from "./fileStorage";
+import { createJsonFileCollection } from "./jsonFileStore";
+import {
+  UploadRejectedError,
+  getUploadLimit,
+  sniffFileType,
+  storeUploadFromParts,
+  validateUpload,
+  type UploadKind,
+  type UploadRecord,
+  type UploadType,
+} from "./uploads";
+import { formatFileSize } from "./utils";
+
+/**
+ * 5 MB - the smallest part S3 accepts in a multipart upload, which is how the
+ * S3 driver joins the chunks
+ */
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Abandoned sessions (closed tab, never resumed) are swept after a day
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A completion that hasn't finished by now has died and may be retried
+const COMPLETION_TIMEOUT_MS = 15 * 60 * 1000;
+
+export interface UploadSession {
+  id: string;
+  uploadedBy: string;
+  roomId: string;
+  name: string;
+  mime: string;
+  type: UploadType;
+  kind: UploadKind;
+  /** Length of a recording, for its metadata record */
+  durationMs?: number;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  /** Indexes of the chunks stored so far */
+  receivedChunks: number[];
+  /** Set while a request is joining the chunks, so only one does */
+  completingSince?: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+const sessions = createJsonFileCollection<UploadSession>("upload-sessions.json");
+
+const chunkKey = (sessionId: string, index: number) =>
+  `chunks/${sessionId}/${index}`;
+
+const deleteChunks = (session: UploadSession) =>
+  Promise.all(
+    session.receivedChunks.map((index) =>
+      getFileStorage().delete(chunkKey(session.id, index))
+    )
+  );
+
+const chunkKeys = (session: UploadSession) =>
+  Array.from({ length: session.chunkCount }, (_, index) => chunkKey(session.id, index));
+
+/** Bytes a given chunk must hold: chunkSize for all but the last */
+const expectedChunkLength = (session: UploadSession, index: number) =>
+  index === session.chunkCount - 1
+    ? session.size - session.chunkSize * (session.chunkCount - 1)
+    : session.chunkSize;
+
+// Drop expired sessions and their staged chunks; run whenever a session opens
+const sweepExpiredSessions = async () => {
+  const now = new Date().toISOString();
+  const expired = await sessions.update((records) => ({
+    records: records.filter((s) => s.expiresAt > now),
+    result: records.filter((s) => s.expiresAt <= now),
+  }));
+  await Promise.all(expired.map(deleteChunks)).catch((error) => {
+    console.warn("⚠️ Failed to clean up expired upload chunks:", error);
+  });
+};
+
+/**
+ * Open a session for a file the client is about to send in chunks
+ * @throws UploadRejectedError when the file is empty or over its type's cap,
+ *   or is a recording that isn't a video
+ */
+export async function createUploadSession(input: {
+  uploadedBy: string;
+  roomId: string;
+  name: string;
+  mime: string;
+  type: UploadType;
+  kind: UploadKind;
+  durationMs?: number;
+  size: number;
+}): Promise<UploadSession> {
+  const limit = getUploadLimit(input.kind, input.type);
+  if (!Number.isInteger(input.size) || input.size <= 0) {
+    throw new UploadRejectedError("File is empty", 400);
+  }
+  if (input.kind === "recording" && input.type !== "video") {
+    throw new UploadRejectedError("Recordings must be video files", 415);
+  }
+  if (input.size > limit) {
+    throw new UploadRejectedError(
+      `${input.type} uploads are limited to ${formatFileSize(limit)}`,
+      413
+    );
+  }
+
+  await sweepExpiredSessions();
+
+  const now = Date.now();
+  const session: UploadSession = {
+    ...input,
+    id: randomUUID(),
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    chunkCount: Math.ceil(input.size / UPLOAD_CHUNK_SIZE),
+    receivedChunks: [],
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+  };
+
+  await sessions.update((records) => ({
+    records: [...records, session],
+    result: session,
+  }));
+  console.log(`📤 Upload session opened (${session.chunkCount} chunks):`, session.id);
+  return session;
+}
+
+/**
+ * Get a session belonging to a user
+ * @returns The session, or null when it doesn't exist, has expired or is
+ *   someone else's
+ */
+export async function getUploadSession(
+  id: string,
+  userId: string
+): Promise<UploadSession | null> {
+  const all = await sessions.readAll();
+  const session = all.find((s) => s.id === id);
+  if (!session || session.uploadedBy !== userId) return null;
+  if (session.expiresAt <= new Date().toISOString()) return null;
+  return session;
+}
+
+/**
+ * Store one chunk
+ * @returns The session with the chunk marked as received
+ * @throws UploadRejectedError for an out-of-range index or a chunk of the
+ *   wrong length
+ */
+export async function putUploadChunk(
+  session: UploadSession,
+  index: number,
+  body: Buffer
+): Promise<UploadSession> {
+  if (!Number.isInteger(index) || index < 0 || index >= session.chunkCount) {
+    throw new UploadRejectedError("Chunk index out of range", 400);
+  }
+  if (session.completingSince) {
+    throw new UploadRejectedError("Upload is already being completed", 409);
+  }
+  const expected = expectedChunkLength(session, index);
+  if (body.length !== expected) {
+    throw new UploadRejectedError(
+      `Chunk ${index} should be ${expected} bytes, got ${body.length}`,
+      400
+    );
+  }
+
+  // The first chunk holds the magic bytes: turn away a disallowed or
+  // mislabelled file now rather than after the whole thing has been sent
+  if (index === 0) {
+    const sniffed = sniffFileType(body, session.mime);
+    if (!sniffed || sniffed.type !== session.type) {
+      await discardUploadSession(session);
+      throw new UploadRejectedError(
+        sniffed
+          ? `File content is ${sniffed.type}, not ${session.type}`
+          : "This file type isn't allowed",
+        415
+      );
+    }
+  }
+
+  await getFileStorage().put(chunkKey(session.id, index), body, "application/octet-stream");
+
+  const updated = await sessions.update((records) => {
+    const existing = records.find((s) => s.id === session.id);
+    if (!existing) return { records, result: null };
+
+    const next = {
+      ...existing,
+      receivedChunks: Array.from(new Set([...existing.receivedChunks, index])).sort(
+        (a, b) => a - b
+      ),
+    };
+    return {
+      records: records.map((s) => (s.id === session.id ? next : s)),
+      result: next,
+    };
+  });
+
+  // Cancelled while this chunk was in flight
+  if (!updated) {
+    await getFileStorage().delete(chunkKey(session.id, index));
+    throw new UploadRejectedError("Upload was cancelled", 410);
+  }
+  return updated;
+}
+
+// Mark a session as completing, unless another request already is
+const claimCompletion = async (session: UploadSession) => {
+  const now = Date.now();
+  const claimed = await sessions.update<UploadSession | "cancelled" | "busy">((records) => {
+    const existing = records.find((s) => s.id === session.id);
+    if (!existing) return { records, result: "cancelled" };
+    if (
+      existing.completingSince &&
+      now - Date.parse(existing.completingSince) < COMPLETION_TIMEOUT_MS
+    ) {
+      return { records, result: "busy" };
+    }
+
+    const next = { ...existing, completingSince: new Date(now).toISOString() };
+    return {
+      records: records.map((s) => (s.id === session.id ? next : s)),
+      result: next,
+    };
+  });
+
+  if (claimed === "cancelled") {
+    throw new UploadRejectedError("Upload was cancelled", 410);
+  }
+  if (claimed === "busy") {
+    throw new UploadRejectedError("Upload is already being completed", 409);
+  }
+  return claimed;
+};
+
+// Let a failed completion be retried
+const releaseCompletion = (session: UploadSession) =>
+  sessions.update((records) => ({
+    records: records.map((s) =>
+      s.id === session.id ? { ...s, completingSince: undefined } : s
+    ),
+    result: undefined,
+  }));
+
+/**
+ * Join a fully received session's chunks into a stored upload
+ * @throws UploadRejectedError when chunks are missing, when another request
+ *   is already completing the session, or when the file fails validation
+ *   (which also discards the session)
+ */
+export async function completeUploadSession(
+  session: UploadSession
+): Promise<UploadRecord> {
+  if (session.receivedChunks.length !== session.chunkCount) {
+    throw new UploadRejectedError(
+      `Missing ${session.chunkCount - session.receivedChunks.length} chunk(s)`,
+      409
+    );
+  }
+
+  const claimed = await claimCompletion(session);
+  try {
+    // The first chunk has the magic bytes; the session knows the total size
+    const first = await getFileStorage().get(chunkKey(claimed.id, 0));
+    if (!first) {
+      throw new UploadRejectedError("Chunk 0 is missing", 409);
+    }
+    const head = Buffer.from(await new Response(first.body).arrayBuffer());
+
+    const sniffed = validateUpload(head, {
+      declaredMime: claimed.mime,
+      declaredType: claimed.type,
+      kind: claimed.kind,
+      size: claimed.size,
+    });
+    const upload = await storeUploadFromParts(chunkKeys(claimed), claimed.size, sniffed, {
+      name: claimed.name,
+      kind: claimed.kind,
+      uploadedBy: claimed.uploadedBy,
+      roomId: claimed.roomId,
+    });
+    await discardUploadSession(claimed);
+    return upload;
+  } catch (error) {
+    // A rejected file will never pass; a storage failure is worth retrying
+    if (error instanceof UploadRejectedError) {
+      await discardUploadSession(claimed);
+    } else {
+      await releaseCompletion(claimed);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancel a session: forget it and delete whatever chunks it staged
+ */
+export async function discardUploadSession(session: UploadSession): Promise<void> {
+  const removed = await sessions.update((records) => ({
+    records: records.filter((s) => s.id !== session.id),
+    result: records.find((s) => s.id === session.id) ?? session,
+  }));
+  await deleteChunks(removed);
+}
@@ -0,0 +1,371 @@
+/**
+ * Upload Validation
+ *
+ * Everything /api/upload checks before a file is stored: per-type size caps
+ * matching ChatAttachment["type"], magic-byte sniffing (the client's
+ * Content-Type and file name are never trusted), and server-generated storage
+ * keys so an upload can't choose or overwrite its own path. Uploads are
+ * recorded with their uploader and room, which /api/files uses to decide who
+ * may download them. Server-only.
+ */
+
+import { randomUUID } from "crypto";
+
+import type { ChatAttachment } from "./socketEvents";
+import { getFileStorage, getFileUrl } from "./fileStorage";
+import { createJsonFileCollection } from "./jsonFileStore";
+import { canViewRecording } from "./recordingStorage";
+import { formatFileSize } from "./utils";
+
+export type UploadType = ChatAttachment["type"];
+
+/** "recording" uploads are meeting recordings from useMeetingRecorder */
+export type UploadKind = "chat" | "recording";
+
+const MB = 1024 * 1024;
+
+export const UPLOAD_LIMITS: Record<UploadType, number> = {
+  image: 10 * MB,
+  video: 200 * MB,
+  audio: 50 * MB,
+  file: 25 * MB,
+};
+
+// Recordings of a whole service are far bigger than any chat attachment
+export const RECORDING_LIMIT = 1024 * MB;
+
+/** Room in a multipart body for the boundaries and the other form fields */
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+export const UPLOAD_TYPES = Object.keys(UPLOAD_LIMITS) as UploadType[];
+
+export const isUploadType = (value: unknown): value is UploadType =>
+  UPLOAD_TYPES.includes(value as UploadType);
+
+/** Meeting IDs are UUIDs and personal rooms are Clerk user IDs */
+export const isValidRoomId = (value: unknown): value is string =>
+  typeof value === "string" && /^[\w-]{1,128}$/.test(value);
+
+/** Size cap for an upload, before its content has been sniffed */
+export const getUploadLimit = (kind: UploadKind, type: UploadType) =>
+  kind === "recording" ? RECORDING_LIMIT : UPLOAD_LIMITS[type];
+
+/** A file the upload routes refuse, with the HTTP status to answer with */
+export class UploadRejectedError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "UploadRejectedError";
+  }
+}
+
+export interface SniffedType {
+  mime: string;
+  type: UploadType;
+  extension: string;
+}
+
+export interface UploadRecord {
+  id: string;
+  key: string;
+  url: string;
+  /** Sanitised client file name, for display and downloads only */
+  name: string;
+  mime: string;
+  type: UploadType;
+  kind: UploadKind;
+  size: number;
+  uploadedBy: string;
+  roomId: string;
+  createdAt: string;
+}
+
+// ----------------------------
+// MAGIC BYTES
+// ----------------------------
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+// Plain text has no signature: accept it only when it decodes as UTF-8 with no
+// control characters other than whitespace
+const looksLikeText = (buffer: Buffer) => {
+  const sample = buffer.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  const text = new TextDecoder("utf-8", { fatal: false }).decode(sample);
+  if (text.includes("�")) return false;
+  return !/[\x01-\x08\x0B\x0C\x0E-\x1F\x7F]/.test(text);
+};
+
+const TEXT_TYPES: Record<string, SniffedType> = {
+  "text/plain": { mime: "text/plain", type: "file", extension: "txt" },
+  "text/csv": { mime: "text/csv", type: "file", extension: "csv" },
+  "text/markdown": { mime: "text/markdown", type: "file", extension: "md" },
+};
+
+/**
+ * Identify a file from its first bytes
+ * @param buffer - File contents (only the first few KB are inspected)
+ * @param declaredMime - Client-supplied type, used only to tell text formats apart
+ * @returns The detected type, or null when the format isn't allowed
+ */
+export function sniffFileType(
+  buffer: Buffer,
+  declaredMime = ""
+): SniffedType | null {
+  // Images
+  if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+    return { mime: "image/jpeg", type: "image", extension: "jpg" };
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return { mime: "image/png", type: "image", extension: "png" };
+  }
+  if (startsWith(buffer, ascii("GIF87a")) || startsWith(buffer, ascii("GIF89a"))) {
+    return { mime: "image/gif", type: "image", extension: "gif" };
+  }
+  if (startsWith(buffer, ascii("RIFF")) && startsWith(buffer, ascii("WEBP"), 8)) {
+    return { mime: "image/webp", type: "image", extension: "webp" };
+  }
+
+  // Video / audio containers
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) {
+    // Matroska/WebM; audio-only WebM is indistinguishable without parsing
+    const isAudio = declaredMime.startsWith("audio/");
+    return isAudio
+      ? { mime: "audio/webm", type: "audio", extension: "weba" }
+      : { mime: "video/webm", type: "video", extension: "webm" };
+  }
+  if (startsWith(buffer, ascii("ftyp"), 4)) {
+    const brand = buffer.subarray(8, 12).toString("ascii");
+    if (brand === "M4A " || brand === "M4B ") {
+      return { mime: "audio/mp4", type: "audio", extension: "m4a" };
+    }
+    if (brand === "qt  ") {
+      return { mime: "video/quicktime", type: "video", extension: "mov" };
+    }
+    return { mime: "video/mp4", type: "video", extension: "mp4" };
+  }
+  if (startsWith(buffer, ascii("OggS"))) {
+    return { mime: "audio/ogg", type: "audio", extension: "ogg" };
+  }
+  if (startsWith(buffer, ascii("RIFF")) && startsWith(buffer, ascii("WAVE"), 8)) {
+    return { mime: "audio/wav", type: "audio", extension: "wav" };
+  }
+  if (
+    startsWith(buffer, ascii("ID3")) ||
+    (buffer.length > 1 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)
+  ) {
+    return { mime: "audio/mpeg", type: "audio", extension: "mp3" };
+  }
+
+  // Documents
+  if (startsWith(buffer, ascii("%PDF-"))) {
+    return { mime: "application/pdf", type: "file", extension: "pdf" };
+  }
+  if (startsWith(buffer, [0x50, 0x4b, 0x03, 0x04])) {
+    // Office documents are zip archives; the declared type only picks the extension
+    const office: Record<string, string> = {
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation": "pptx",
+    };
+    const extension = office[declaredMime];
+    return extension
+      ? { mime: declaredMime, type: "file", extension }
+      : { mime: "application/zip", type: "file", extension: "zip" };
+  }
+
+  const textType = TEXT_TYPES[declaredMime.split(";")[0]];
+  if (textType && looksLikeText(buffer)) return textType;
+
+  return null;
+}
+
+/**
+ * Check a complete file before it is stored
+ * @param buffer - The file, or at least its first chunk when `size` is given
+ * @param declaredType - The client's ChatAttachment type, if it sent one
+ * @param size - Size of the whole file; defaults to the buffer's length
+ * @returns What the file really is
+ * @throws UploadRejectedError when the type isn't allowed, doesn't match the
+ *   declared type, or the file is over its size cap
+ */
+export function validateUpload(
+  buffer: Buffer,
+  options: {
+    declaredMime: string;
+    declaredType?: UploadType;
+    kind: UploadKind;
+    size?: number;
+  }
+): SniffedType {
+  const { declaredMime, declaredType, kind, size = buffer.length } = options;
+
+  const sniffed = sniffFileType(buffer, declaredMime);
+  if (!sniffed) {
+    throw new UploadRejectedError("This file type isn't allowed", 415);
+  }
+  if (declaredType && declaredType !== sniffed.type) {
+    throw new UploadRejectedError(
+      `File content is ${sniffed.type}, not ${declaredType}`,
+      415
+    );
+  }
+  if (kind === "recording" && sniffed.type !== "video") {
+    throw new UploadRejectedError("Recordings must be video files", 415);
+  }
+
+  const limit = getUploadLimit(kind, sniffed.type);
+  if (size > limit) {
+    throw new UploadRejectedError(
+      `${sniffed.type} uploads are limited to ${formatFileSize(limit)}`,
+      413
+    );
+  }
+
+  return sniffed;
+}
+
+// ----------------------------
+// STORAGE KEYS
+// ----------------------------
+
+/**
+ * Generate a storage key the client has no control over
+ * @returns e.g. "image/2026/10/3f0c…e1.png"
+ */
+export function createStorageKey(sniffed: SniffedType, now = new Date()) {
+  const year = now.getUTCFullYear();
+  const month = String(now.getUTCMonth() + 1).padStart(2, "0");
+  return `${sniffed.type}/${year}/${month}/${randomUUID()}.${sniffed.extension}`;
+}
+
+/**
+ * Make a client file name safe to show and to offer as a download name
+ */
+export function sanitizeFileName(name: string, fallbackExtension: string) {
+  const base = name
+    .split(/[\\/]/)
+    .pop()!
+    .normalize("NFKC")
+    .replace(/[^\p{L}\p{N} ._()-]/gu, "_")
+    .replace(/^\.+/, "")
+    .trim()
+    .slice(0, 120);
+  return base || `upload.${fallbackExtension}`;
+}
+
+// ----------------------------
+// METADATA
+// ----------------------------
+
+const uploads = createJsonFileCollection<UploadRecord>("uploads.json");
+
+/**
+ * Record who uploaded a file and in which room
+ */
+export function createUploadRecord(record: UploadRecord): Promise<UploadRecord> {
+  return uploads.update((records) => ({
+    records: [...records, record],
+    result: record,
+  }));
+}
+
+type UploadMeta = { name: string; kind: UploadKind; uploadedBy: string; roomId: string };
+
+const recordStoredUpload = async (
+  key: string,
+  size: number,
+  sniffed: SniffedType,
+  meta: UploadMeta,
+  createdAt: Date
+) => {
+  const upload = await createUploadRecord({
+    id: randomUUID(),
+    key,
+    url: getFileUrl(key),
+    name: sanitizeFileName(meta.name, sniffed.extension),
+    mime: sniffed.mime,
+    type: sniffed.type,
+    kind: meta.kind,
+    size,
+    uploadedBy: meta.uploadedBy,
+    roomId: meta.roomId,
+    createdAt: createdAt.toISOString(),
+  });
+  console.log(`📎 Upload stored (${upload.type}, ${formatFileSize(upload.size)}):`, key);
+  return upload;
+};
+
+/**
+ * Put a validated file in file storage and record who uploaded it where
+ */
+export async function storeUpload(
+  buffer: Buffer,
+  sniffed: SniffedType,
+  meta: UploadMeta
+): Promise<UploadRecord> {
+  const createdAt = new Date();
+  const key = createStorageKey(sniffed, createdAt);
+  await getFileStorage().put(key, buffer, sniffed.mime);
+  return recordStoredUpload(key, buffer.length, sniffed, meta, createdAt);
+}
+
+/**
+ * Join already-stored parts of a validated file into one stored upload and
+ * record who uploaded it where
+ * @param partKeys - Storage keys of the parts, in order
+ */
+export async function storeUploadFromParts(
+  partKeys: string[],
+  size: number,
+  sniffed: SniffedType,
+  meta: UploadMeta
+): Promise<UploadRecord> {
+  const createdAt = new Date();
+  const key = createStorageKey(sniffed, createdAt);
+  await getFileStorage().compose(key, partKeys, sniffed.mime);
+  return recordStoredUpload(key, size, sniffed, meta, createdAt);
+}
+
+/**
+ * Look an upload up by its storage key
+ * @returns The record, or null when nothing was uploaded under that key
+ */
+export async function getUploadByKey(key: string): Promise<UploadRecord | null> {
+  const all = await uploads.readAll();
+  return all.find((u) => u.key === key) ?? null;
+}
+
+/**
+ * Remove an upload's metadata (the caller deletes the stored file)
+ * @returns The removed record, or null when nothing was uploaded under that key
+ */
+export function deleteUploadByKey(key: string): Promise<UploadRecord | null> {
+  return uploads.update((records) => ({
+    records: records.filter((u) => u.key !== key),
+    result: records.find((u) => u.key === key) ?? null,
+  }));
+}
+
+/**
+ * Whether a user may download an upload
+ * @returns Recordings follow canViewRecording; chat attachments are shared
+ *   with the whole room, so any signed-in user holding the (unguessable)
+ *   key may fetch them
+ */
+export async function canViewUpload(
+  upload: UploadRecord,
+  userId: string
+): Promise<boolean> {
+  if (upload.uploadedBy === userId) return true;
+  if (upload.kind === "recording") {
+    return canViewRecording(
+      { createdBy: upload.uploadedBy, roomId: upload.roomId },
+      userId
+    );
+  }
+  return true;
+}
@@ -0,0 +1,25 @@
+/**
+ * User Emails
+ *
+ * Email addresses decide who is an invitee or a treasurer, and anyone can
+ * add an address to their Clerk account without proving they own it. Access
+ * checks only ever look at verified addresses. Server-only.
+ */
+
+/** The parts of a Clerk user that access checks look at */
+export interface UserWithEmails {
+  id: string;
+  emailAddresses: {
+    emailAddress: string;
+    verification: { status: string | null } | null;
+  }[];
+}
+
+/**
+ * A user's verified email addresses, lower-cased
+ */
+export function getVerifiedEmails(user: UserWithEmails): string[] {
+  return user.emailAddresses
+    .filter((e) => e.verification?.status === "verified")
+    .map((e) => e.emailAddress.toLowerCase());
+}
@@ -0,0 +1,404 @@
+/**
+ * User Settings Store
+ *
+ * One versioned document in localStorage holding every per-user preference:
+ * join defaults, preferred devices, layout, self-view, audio processing,
+ * reactions and chat notifications. Older documents (and the loose keys used
+ * before this store existed) are migrated forward on first read.
+ * Read it with getSettings()/useUserSettings() and write it with updateSettings().
+ */
+
+export const SETTINGS_VERSION = 1;
+
+const STORAGE_KEY = "kani-user-settings";
+
+// Keys written before the settings store existed (version 0)
+const LEGACY_KEYS = {
+  joinPreference: "meeting-join-preference",
+  devices: "meeting-preferred-devices",
+  galleryPageSize: "gallery-page-size",
+  createdMeetings: "created-meetings",
+} as const;
+
+export type LayoutMode = "gallery" | "speaker";
+
+/** Tiles per gallery page the layout menu offers */
+export const GALLERY_PAGE_SIZES = [9, 16, 25, 49] as const;
+export type GalleryPageSize = (typeof GALLERY_PAGE_SIZES)[number];
+
+export type SkinTone =
+  | "default"
+  | "light"
+  | "medium-light"
+  | "medium"
+  | "medium-dark"
+  | "dark";
+
+export interface JoinPreference {
+  audio: boolean;
+  video: boolean;
+}
+
+/** Empty or missing IDs mean "use the system default device" */
+export interface PreferredDevices {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+}
+
+export interface CreatedMeeting {
+  id: string;
+  createdBy: string;
+  createdAt: string;
+  description: string;
+}
+
+export interface UserSettings {
+  version: number;
+  join: JoinPreference;
+  devices: PreferredDevices;
+  layout: {
+    defaultLayout: LayoutMode;
+    galleryPageSize: GalleryPageSize;
+  };
+  video: {
+    mirrorSelfView: boolean;
+  };
+  audio: {
+    noiseSuppression: boolean;
+  };
+  reactions: {
+    skinTone: SkinTone;
+  };
+  chat: {
+    notificationPopups: boolean;
+    notificationSound: boolean;
+  };
+  // Meetings created on this browser, used to recognise the creator on join
+  createdMeetings: CreatedMeeting[];
+}
+
+/** Sections that hold plain preference objects (everything but lists) */
+export type SettingsSection = Exclude<
+  keyof UserSettings,
+  "version" | "createdMeetings"
+>;
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  version: SETTINGS_VERSION,
+  join: { audio: true, video: false },
+  devices: {},
+  layout: { defaultLayout: "gallery", galleryPageSize: 16 },
+  video: { mirrorSelfView: true },
+  audio: { noiseSuppression: true },
+  reactions: { skinTone: "default" },
+  chat: { notificationPopups: true, notificationSound: false },
+  createdMeetings: [],
+};
+
+// ----------------------------
+// MIGRATIONS
+// ----------------------------
+
+type StoredSettings = Record<string, unknown> & { version?: number };
+
+const readLegacyJson = (key: string): unknown => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * migrations[n] upgrades a version-n document to version n + 1.
+ * Add a new entry (and bump SETTINGS_VERSION) whenever the shape changes.
+ */
+const migrations: Record<number, (settings: StoredSettings) => StoredSettings> =
+  {
+    // 0 → 1: fold the loose localStorage keys into one document
+    0: (settings) => {
+      const join = readLegacyJson(LEGACY_KEYS.joinPreference);
+      const devices = readLegacyJson(LEGACY_KEYS.devices);
+      const createdMeetings = readLegacyJson(LEGACY_KEYS.createdMeetings);
+      const pageSize = Number(localStorage.getItem(LEGACY_KEYS.galleryPageSize));
+
+      return {
+        ...settings,
+        ...(join !== undefined && { join }),
+        ...(devices !== undefined && { devices }),
+        ...(Array.isArray(createdMeetings) && { createdMeetings }),
+        ...(pageSize > 0 && { layout: { galleryPageSize: pageSize } }),
+        version: 1,
+      };
+    },
+  };
+
+const LEGACY_CLEANUP_VERSION = 1;
+
+const migrate = (stored: StoredSettings): StoredSettings => {
+  let settings = stored;
+  let version = typeof settings.version === "number" ? settings.version : 0;
+
+  while (version < SETTINGS_VERSION) {
+    const step = migrations[version];
+    if (!step) break;
+    settings = step(settings);
+    version += 1;
+    console.log(`🔄 Migrated user settings to v${version}`);
+  }
+
+  if (version >= LEGACY_CLEANUP_VERSION) {
+    Object.values(LEGACY_KEYS).forEach((key) => localStorage.removeItem(key));
+  }
+
+  return settings;
+};
+
+// ----------------------------
+// VALIDATION
+// ----------------------------
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const pickBoolean = (value: unknown, fallback: boolean) =>
+  typeof value === "boolean" ? value : fallback;
+
+const pickOneOf = <T extends string | number>(
+  value: unknown,
+  allowed: readonly T[],
+  fallback: T
+): T => (allowed.includes(value as T) ? (value as T) : fallback);
+
+const pickDeviceId = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
+
+/** Coerce whatever was stored into a complete, well-typed document */
+const sanitize = (stored: StoredSettings): UserSettings => {
+  const section = (key: string) =>
+    isObject(stored[key]) ? (stored[key] as Record<string, unknown>) : {};
+  const d = DEFAULT_SETTINGS;
+
+  const join = section("join");
+  const devices = section("devices");
+  const layout = section("layout");
+  const video = section("video");
+  const audio = section("audio");
+  const reactions = section("reactions");
+  const chat = section("chat");
+
+  return {
+    version: SETTINGS_VERSION,
+    join: {
+      audio: pickBoolean(join.audio, d.join.audio),
+      video: pickBoolean(join.video, d.join.video),
+    },
+    devices: {
+      audioInputId: pickDeviceId(devices.audioInputId),
+      videoInputId: pickDeviceId(devices.videoInputId),
+      audioOutputId: pickDeviceId(devices.audioOutputId),
+    },
+    layout: {
+      defaultLayout: pickOneOf<LayoutMode>(
+        layout.defaultLayout,
+        ["gallery", "speaker"],
+        d.layout.defaultLayout
+      ),
+      galleryPageSize: pickOneOf<GalleryPageSize>(
+        layout.galleryPageSize,
+        GALLERY_PAGE_SIZES,
+        d.layout.galleryPageSize
+      ),
+    },
+    video: {
+      mirrorSelfView: pickBoolean(
+        video.mirrorSelfView,
+        d.video.mirrorSelfView
+      ),
+    },
+    audio: {
+      noiseSuppression: pickBoolean(
+        audio.noiseSuppression,
+        d.audio.noiseSuppression
+      ),
+    },
+    reactions: {
+      skinTone: pickOneOf<SkinTone>(
+        reactions.skinTone,
+        ["default", "light", "medium-light", "medium", "medium-dark", "dark"],
+        d.reactions.skinTone
+      ),
+    },
+    chat: {
+      notificationPopups: pickBoolean(
+        chat.notificationPopups,
+        d.chat.notificationPopups
+      ),
+      notificationSound: pickBoolean(
+        chat.notificationSound,
+        d.chat.notificationSound
+      ),
+    },
+    createdMeetings: Array.isArray(stored.createdMeetings)
+      ? (stored.createdMeetings as CreatedMeeting[]).filter(
+          (m) => isObject(m) && typeof m.id === "string"
+        )
+      : [],
+  };
+};
+
+// ----------------------------
+// STORE
+// ----------------------------
+
+let cache: UserSettings | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const write = (settings: UserSettings) => {
+  cache = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save user settings to localStorage:", error);
+  }
+};
+
+const persist = (settings: UserSettings) => {
+  write(settings);
+  notify();
+};
+
+/**
+ * Get the current settings, loading and migrating them on first use
+ * @returns A complete UserSettings document (defaults during SSR)
+ */
+export function getSettings(): UserSettings {
+  if (typeof window === "undefined") return DEFAULT_SETTINGS;
+  if (cache) return cache;
+
+  let stored: StoredSettings = {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) stored = JSON.parse(raw);
+  } catch (error) {
+    console.error("Failed to parse user settings from localStorage:", error);
+  }
+
+  const needsMigration = stored.version !== SETTINGS_VERSION;
+  const settings = sanitize(needsMigration ? migrate(stored) : stored);
+
+  // First reads happen during render, so don't notify subscribers here
+  if (needsMigration) {
+    write(settings);
+  } else {
+    cache = settings;
+  }
+  return settings;
+}
+
+/**
+ * Update one section of the settings
+ * @param section - Section to update, e.g. "devices"
+ * @param patch - Fields to change; the rest of the section is kept
+ */
+export function updateSettings<K extends SettingsSection>(
+  section: K,
+  patch: Partial<UserSettings[K]>
+): void {
+  if (typeof window === "undefined") return;
+
+  const current = getSettings();
+  persist({
+    ...current,
+    [section]: { ...current[section], ...patch },
+  });
+  console.log(`💾 Saved ${section} settings:`, patch);
+}
+
+/**
+ * Reset every preference to its default (created meetings are kept)
+ */
+export function resetSettings(): void {
+  if (typeof window === "undefined") return;
+
+  persist({
+    ...DEFAULT_SETTINGS,
+    createdMeetings: getSettings().createdMeetings,
+  });
+  console.log("🗑️ Reset user settings");
+}
+
+/**
+ * Remember that the current user created a meeting on this browser
+ * @param meeting - Meeting ID, creator and description
+ */
+export function recordCreatedMeeting(meeting: CreatedMeeting): void {
+  if (typeof window === "undefined") return;
+
+  const current = getSettings();
+  persist({
+    ...current,
+    createdMeetings: [
+      ...current.createdMeetings.filter((m) => m.id !== meeting.id),
+      meeting,
+    ],
+  });
+}
+
+/**
+ * Look up a meeting created on this browser
+ * @param meetingId - Meeting ID
+ * @returns The stored record, or undefined when another browser/user created it
+ */
+export function getCreatedMeeting(
+  meetingId: string
+): CreatedMeeting | undefined {
+  return getSettings().createdMeetings.find((m) => m.id === meetingId);
+}
+
+/**
+ * Subscribe to settings changes, including writes from other tabs
+ * @returns Unsubscribe function
+ */
+export function subscribeToSettings(listener: () => void): () => void {
+  listeners.add(listener);
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_KEY) return;
+    cache = null;
+    listener();
+  };
+  window.addEventListener("storage", handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+}
+
+// ----------------------------
+// REACTION SKIN TONES
+// ----------------------------
+
+const SKIN_TONE_MODIFIERS: Record<SkinTone, string> = {
+  default: "",
+  light: "\u{1F3FB}",
+  "medium-light": "\u{1F3FC}",
+  medium: "\u{1F3FD}",
+  "medium-dark": "\u{1F3FE}",
+  dark: "\u{1F3FF}",
+};
+
+// Reaction emojis that accept a Fitzpatrick modifier
+const TONEABLE_EMOJIS = new Set(["👍", "👏", "👋", "🙌", "✋", "🙏", "💪"]);
+
+/**
+ * Apply the preferred skin tone to a reaction emoji when it supports one
+ */
+export function withSkinTone(emoji: string, tone: SkinTone): string {
+  return TONEABLE_EMOJIS.has(emoji) ? emoji + SKIN_TONE_MODIFIERS[tone] : emoji;
+}
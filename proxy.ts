@@ -5,6 +5,8 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 const isPublicRoute = createRouteMatcher([
     "/sign-in(.*)",
     "/sign-up(.*)",
+    // Safaricom calls this server-to-server, without a session
+    "/api/mpesa/callback",
 ]);
 
 export default clerkMiddleware(async (auth, req) =>{
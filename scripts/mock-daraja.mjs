@@ -0,0 +1,231 @@
+/**
+ * Mock Daraja Server
+ *
+ * A stand-in for Safaricom's Daraja API for trying payments locally:
+ *
+ *   npm run mock:mpesa
+ *   MPESA_ENVIRONMENT=mock npm run dev
+ *
+ * Implements OAuth, STK Push and STK Push query. A few seconds after each
+ * STK Push it POSTs the result to the request's CallBackURL, like Safaricom
+ * does. The amount picks the outcome:
+ *
+ *   1032 - cancelled by the customer
+ *   1037 - customer couldn't be reached (timeout)
+ *   2001 - wrong PIN
+ *   9999 - paid, but the callback is never sent (exercises the status query)
+ *   anything else - paid
+ *
+ * Settings: MPESA_MOCK_PORT (8089), MPESA_MOCK_DELAY_MS (4000).
+ */
+
+import { createServer } from "http";
+import { randomBytes, randomUUID } from "crypto";
+
+const PORT = Number(process.env.MPESA_MOCK_PORT || 8089);
+const CALLBACK_DELAY_MS = Number(process.env.MPESA_MOCK_DELAY_MS || 4000);
+
+const FAILURES = {
+  1032: "Request cancelled by user",
+  1037: "DS timeout user cannot be reached",
+  2001: "The initiator information is invalid.",
+};
+const SILENT_AMOUNT = 9999;
+
+/** CheckoutRequestID -> { request, merchantRequestId, result } */
+const pushes = new Map();
+const tokens = new Set();
+
+// ----------------------------
+// HELPERS
+// ----------------------------
+
+const send = (res, status, body) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, errorCode, errorMessage) =>
+  send(res, status, { requestId: randomUUID(), errorCode, errorMessage });
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+
+// Daraja timestamps are yyyyMMddHHmmss in Kenyan time
+const darajaTimestamp = () =>
+  new Date(Date.now() + 3 * 60 * 60 * 1000)
+    .toISOString()
+    .replace(/[^0-9]/g, "")
+    .slice(0, 14);
+
+const receiptNumber = () =>
+  `MK${randomBytes(4).toString("hex").toUpperCase()}`;
+
+const isAuthorized = (req) => {
+  const token = (req.headers.authorization || "").replace(/^Bearer /, "");
+  return tokens.has(token);
+};
+
+// ----------------------------
+// STK PUSH OUTCOME
+// ----------------------------
+
+const settle = (checkoutRequestId) => {
+  const push = pushes.get(checkoutRequestId);
+  const { Amount, PhoneNumber } = push.request;
+  const failure = FAILURES[Amount];
+
+  push.result = failure
+    ? { ResultCode: Number(Amount), ResultDesc: failure }
+    : {
+        ResultCode: 0,
+        ResultDesc: "The service request is processed successfully.",
+        CallbackMetadata: {
+          Item: [
+            { Name: "Amount", Value: Amount },
+            { Name: "MpesaReceiptNumber", Value: receiptNumber() },
+            { Name: "Balance" },
+            { Name: "TransactionDate", Value: Number(darajaTimestamp()) },
+            { Name: "PhoneNumber", Value: Number(PhoneNumber) },
+          ],
+        },
+      };
+  return push;
+};
+
+const sendCallback = async (checkoutRequestId) => {
+  const push = settle(checkoutRequestId);
+  if (push.request.Amount === SILENT_AMOUNT) {
+    console.log(`🤫 ${checkoutRequestId}: paid, callback withheld`);
+    return;
+  }
+
+  const body = {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ...push.result,
+      },
+    },
+  };
+
+  try {
+    const response = await fetch(push.request.CallBackURL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    console.log(
+      `📨 ${checkoutRequestId}: callback ${push.result.ResultCode} -> ${response.status}`
+    );
+  } catch (error) {
+    console.error(`❌ ${checkoutRequestId}: callback failed:`, error.message);
+  }
+};
+
+// ----------------------------
+// ROUTES
+// ----------------------------
+
+const handleOAuth = (req, res) => {
+  if (!/^Basic .+/.test(req.headers.authorization || "")) {
+    return sendError(res, 400, "400.008.01", "Invalid Authentication passed");
+  }
+  const token = randomBytes(16).toString("hex");
+  tokens.add(token);
+  send(res, 200, { access_token: token, expires_in: "3599" });
+};
+
+const handleStkPush = async (req, res) => {
+  if (!isAuthorized(req)) {
+    return sendError(res, 401, "404.001.03", "Invalid Access Token");
+  }
+
+  const request = await readJson(req);
+  const missing = [
+    "BusinessShortCode",
+    "Password",
+    "Timestamp",
+    "Amount",
+    "PartyA",
+    "PhoneNumber",
+    "CallBackURL",
+    "AccountReference",
+  ].find((field) => !request?.[field]);
+  if (missing) {
+    return sendError(res, 400, "400.002.02", `Bad Request - Invalid ${missing}`);
+  }
+  if (!Number.isInteger(request.Amount) || request.Amount < 1) {
+    return sendError(res, 400, "400.002.02", "Bad Request - Invalid Amount");
+  }
+  if (!/^254(7|1)\d{8}$/.test(String(request.PhoneNumber))) {
+    return sendError(res, 400, "400.002.02", "Bad Request - Invalid PhoneNumber");
+  }
+
+  const checkoutRequestId = `ws_CO_${darajaTimestamp()}${randomBytes(3).toString("hex")}`;
+  const merchantRequestId = `${randomBytes(2).toString("hex")}-${Date.now()}-1`;
+  pushes.set(checkoutRequestId, { request, merchantRequestId, result: null });
+  console.log(
+    `📲 STK Push ${checkoutRequestId}: KES ${request.Amount} from ${request.PhoneNumber}`
+  );
+  setTimeout(() => sendCallback(checkoutRequestId), CALLBACK_DELAY_MS);
+
+  send(res, 200, {
+    MerchantRequestID: merchantRequestId,
+    CheckoutRequestID: checkoutRequestId,
+    ResponseCode: "0",
+    ResponseDescription: "Success. Request accepted for processing",
+    CustomerMessage: "Success. Request accepted for processing",
+  });
+};
+
+const handleStkQuery = async (req, res) => {
+  if (!isAuthorized(req)) {
+    return sendError(res, 401, "404.001.03", "Invalid Access Token");
+  }
+
+  const request = await readJson(req);
+  const push = pushes.get(request?.CheckoutRequestID);
+  if (!push) {
+    return sendError(res, 500, "500.001.1001", "The transaction does not exist");
+  }
+  // Like Daraja: an error until the customer has answered the prompt
+  if (!push.result) {
+    return sendError(res, 500, "500.001.1001", "The transaction is being processed");
+  }
+
+  send(res, 200, {
+    ResponseCode: "0",
+    ResponseDescription: "The service request has been accepted successfully",
+    MerchantRequestID: push.merchantRequestId,
+    CheckoutRequestID: request.CheckoutRequestID,
+    ResultCode: String(push.result.ResultCode),
+    ResultDesc: push.result.ResultDesc,
+  });
+};
+
+const routes = {
+  "GET /oauth/v1/generate": handleOAuth,
+  "POST /mpesa/stkpush/v1/processrequest": handleStkPush,
+  "POST /mpesa/stkpushquery/v1/query": handleStkQuery,
+};
+
+createServer((req, res) => {
+  const { pathname } = new URL(req.url, `http://localhost:${PORT}`);
+  const handler = routes[`${req.method} ${pathname}`];
+  if (!handler) return sendError(res, 404, "404.001.01", "Resource not found");
+  handler(req, res);
+}).listen(PORT, () => {
+  console.log(`🧪 Mock Daraja listening on http://localhost:${PORT}`);
+});